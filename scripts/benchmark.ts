@@ -0,0 +1,79 @@
+// Measures recognition accuracy over a labelled landmark corpus: landmark
+// recordings with golden signs and approved ISign exports with landmark_data.
+//
+//   npm run benchmark                          corpus under recordings/
+//   npm run benchmark -- corpus/ signs.json
+//   npm run benchmark -- --out reports/        write benchmark.json and benchmark.md
+//   npm run benchmark -- --json                print JSON instead of markdown
+//   npm run benchmark -- --templates           also load the signs as fallback templates
+//
+// Without --templates only the rule-based recognizers are measured, so the
+// nearest-neighbour fallback cannot simply look up the samples it is scored on.
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseRecording } from '../src/services/landmarkRecording';
+import {
+  BenchmarkSample,
+  formatBenchmarkMarkdown,
+  runBenchmark,
+  samplesFromRecording,
+  samplesFromSigns
+} from '../src/services/recognitionBenchmark';
+import type { ISign } from '../src/lib/mongo';
+
+const args = process.argv.slice(2);
+const flag = (name: string): boolean => args.includes(name);
+const option = (name: string): string | undefined => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const asJson = flag('--json');
+const useTemplates = flag('--templates');
+const outDir = option('--out');
+const inputs = args.filter(arg => !arg.startsWith('--') && arg !== outDir);
+
+const collect = (path: string): string[] => {
+  if (!existsSync(path)) return [];
+  if (!statSync(path).isDirectory()) return [path];
+  return readdirSync(path)
+    .sort()
+    .flatMap(entry => collect(join(path, entry)))
+    .filter(file => file.endsWith('.json'));
+};
+
+const samples: BenchmarkSample[] = [];
+const signs: ISign[] = [];
+
+(inputs.length > 0 ? inputs : ['recordings']).flatMap(collect).forEach(file => {
+  const data = JSON.parse(readFileSync(file, 'utf8'));
+  // ISign exports are an array (or a single record) with landmark_data
+  const records = Array.isArray(data) ? data : [data];
+  if (records.length > 0 && records.every(record => record && 'landmark_data' in record && 'name' in record)) {
+    signs.push(...records);
+    return;
+  }
+  try {
+    samples.push(...samplesFromRecording(parseRecording(data), file));
+  } catch (error) {
+    console.warn(`Skipping ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+});
+samples.push(...samplesFromSigns(signs));
+
+if (samples.length === 0) {
+  console.log('No labelled samples found.');
+  process.exit(0);
+}
+
+const report = runBenchmark(samples, useTemplates ? { referenceSigns: signs } : {});
+const markdown = formatBenchmarkMarkdown(report);
+
+if (outDir) {
+  mkdirSync(outDir, { recursive: true });
+  writeFileSync(join(outDir, 'benchmark.json'), JSON.stringify(report, null, 2));
+  writeFileSync(join(outDir, 'benchmark.md'), markdown);
+  console.log(`Wrote ${join(outDir, 'benchmark.json')} and ${join(outDir, 'benchmark.md')}`);
+} else {
+  console.log(asJson ? JSON.stringify(report, null, 2) : markdown);
+}
@@ -0,0 +1,58 @@
+// Runs gloss sequences through the rule-based grammar and checks the English
+// and Swahili sentences it builds.
+//
+//   npm run check-grammar
+import { GlossGrammar } from '../src/services/translation/grammar';
+import type { GlossToken } from '../src/services/translation';
+
+interface GrammarCase {
+  gloss: string; // Space-separated; a '#' prefix marks a fingerspelled name
+  en: string;
+  sw: string;
+}
+
+const CASES: GrammarCase[] = [
+  // One sign on its own is the most common segment
+  { gloss: 'WATER', en: 'Water.', sw: 'Maji.' },
+  { gloss: 'BOOK', en: 'A book.', sw: 'Kitabu.' },
+  { gloss: 'FIST', en: 'Fist.', sw: 'Fist.' },
+  { gloss: 'A', en: 'A.', sw: 'A.' },
+  { gloss: 'ME', en: 'Me.', sw: 'Mimi.' },
+  { gloss: 'WHO', en: 'Who?', sw: 'Nani?' },
+  { gloss: 'HELLO', en: 'Hello.', sw: 'Hujambo.' },
+  { gloss: 'HUNGRY', en: 'I am hungry.', sw: 'Nina njaa.' },
+  { gloss: 'WATER NO', en: 'Not water.', sw: 'Si maji.' },
+  // Clauses
+  { gloss: 'ME NAME #John', en: 'My name is John.', sw: 'Jina langu ni John.' },
+  { gloss: 'YOU NAME WHAT', en: 'What is your name?', sw: 'Jina lako nani?' },
+  { gloss: 'SCHOOL WHERE', en: 'Where is school?', sw: 'Shule iko wapi?' },
+  { gloss: 'ME WATER', en: 'I am water.', sw: 'Mimi ni maji.' },
+  { gloss: 'ME GO SCHOOL TOMORROW', en: 'I will go to school tomorrow.', sw: 'Nitaenda shuleni kesho.' },
+  { gloss: 'WHO GO', en: 'Who goes?', sw: 'Nani anaenda?' },
+  { gloss: 'WHERE YOU LIVE', en: 'Where do you live?', sw: 'Unaishi wapi?' }
+];
+
+const toTokens = (gloss: string): GlossToken[] =>
+  gloss.split(' ').map(word =>
+    word.startsWith('#')
+      ? { gloss: word.slice(1).toUpperCase(), display: word.slice(1), confidence: 1, properNoun: true }
+      : { gloss: word, display: word, confidence: 1 }
+  );
+
+const grammar = new GlossGrammar();
+let failures = 0;
+CASES.forEach(({ gloss, en, sw }) => {
+  const tokens = toTokens(gloss);
+  const actual = { en: grammar.translate(tokens, 'en').text, sw: grammar.translate(tokens, 'sw').text };
+  if (actual.en === en && actual.sw === sw) {
+    console.log(`PASS    ${gloss}`);
+    return;
+  }
+  failures++;
+  console.log(`FAIL    ${gloss}`);
+  if (actual.en !== en) console.log(`  en expected: ${en}\n  en actual:   ${actual.en}`);
+  if (actual.sw !== sw) console.log(`  sw expected: ${sw}\n  sw actual:   ${actual.sw}`);
+});
+
+console.log(`\n${CASES.length - failures}/${CASES.length} sentences match`);
+process.exit(failures > 0 ? 1 : 0);
@@ -0,0 +1,81 @@
+// Replays landmark recordings through the recognition pipeline and checks each
+// against its golden sign sequence.
+//
+//   npm run replay                      all recordings under recordings/
+//   npm run replay -- path/to/file.json
+//   npm run replay -- --update          write the current output as the new golden sequence
+//   npm run replay -- --signs signs.json --language sw
+//
+// Exits non-zero when a recording differs from its golden sequence, has none
+// yet, or no recordings are found, so it can gate changes to recognition.
+// The corpus under recordings/ is built by npm run synthesize-recordings.
+import { existsSync, readdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseRecording, serializeRecording } from '../src/services/landmarkRecording';
+import { compareWithGolden, replayRecording } from '../src/services/landmarkReplay';
+import type { TargetLanguage } from '../src/services/translation';
+import type { ISign } from '../src/lib/mongo';
+
+const args = process.argv.slice(2);
+const flag = (name: string): boolean => args.includes(name);
+const option = (name: string): string | undefined => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const update = flag('--update');
+const verbose = flag('--verbose');
+const signsFile = option('--signs');
+const language = (option('--language') ?? 'en') as TargetLanguage;
+const optionValues = new Set([signsFile, option('--language')]);
+const inputs = args.filter(arg => !arg.startsWith('--') && !optionValues.has(arg));
+
+const collect = (path: string): string[] => {
+  if (!existsSync(path)) return [];
+  if (!statSync(path).isDirectory()) return [path];
+  return readdirSync(path)
+    .sort()
+    .flatMap(entry => collect(join(path, entry)))
+    .filter(file => file.endsWith('.json'));
+};
+
+const files = (inputs.length > 0 ? inputs : ['recordings']).flatMap(collect);
+if (files.length === 0) {
+  console.log('No recordings found.');
+  process.exit(1);
+}
+
+const referenceSigns: ISign[] | undefined = signsFile ? JSON.parse(readFileSync(signsFile, 'utf8')) : undefined;
+
+let failures = 0;
+files.forEach(file => {
+  const recording = parseRecording(readFileSync(file, 'utf8'));
+  const report = replayRecording(recording, { referenceSigns, language });
+  const summary = `${recording.name} (${report.frames} frames, ${Math.round(report.processingMs)} ms)`;
+
+  if (update) {
+    writeFileSync(file, serializeRecording({ ...recording, expected: report.signs }));
+    console.log(`UPDATED ${summary}: ${report.signs.join(' ')}`);
+  } else if (!recording.expected) {
+    failures++;
+    console.log(`NEW     ${summary}: ${report.signs.join(' ')} (run with --update to accept)`);
+  } else {
+    const comparison = compareWithGolden(report, recording.expected);
+    if (comparison.passed) {
+      console.log(`PASS    ${summary}`);
+    } else {
+      failures++;
+      console.log(`FAIL    ${summary}`);
+      console.log(`  expected: ${comparison.expected.join(' ')}`);
+      console.log(`  actual:   ${comparison.actual.join(' ')}`);
+      console.log(`  first difference at sign ${comparison.firstMismatch! + 1}`);
+    }
+  }
+
+  if (verbose) {
+    report.translations.forEach(translation => console.log(`  ${translation.gloss} -> ${translation.text}`));
+  }
+});
+
+console.log(`\n${files.length - failures}/${files.length} recordings match`);
+process.exit(failures > 0 ? 1 : 0);
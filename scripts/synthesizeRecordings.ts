@@ -0,0 +1,197 @@
+// Builds the regression corpus under recordings/: one synthetic landmark
+// recording per vocabulary sign that the rule-based recognizers can produce.
+// Hand poses are drawn from a seeded generator, so every run writes the same
+// files; each one is replayed before it is kept, and its golden sequence is
+// the sign it was generated for.
+//
+//   npm run synthesize-recordings
+//   npm run synthesize-recordings -- --language BSL
+//   npm run synthesize-recordings -- --out other/dir
+//
+// Signs that no generated pose reaches (usually because an earlier rule in the
+// recognizer matches the same handshape) are listed at the end.
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { LandmarkRecording, RecordedFrame, RECORDING_FORMAT_VERSION, serializeRecording } from '../src/services/landmarkRecording';
+import { replayRecording } from '../src/services/landmarkReplay';
+import { recognizerRegistry } from '../src/services/recognizers';
+import type { SignRecognizer } from '../src/services/recognizers';
+import type { HandLandmark } from '../src/services/signLanguageDetection';
+
+const args = process.argv.slice(2);
+const option = (name: string): string | undefined => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const outDir = option('--out') ?? 'recordings';
+const languages = option('--language');
+
+const SEED = 20240601;
+const SINGLE_HAND_SAMPLES = 60000;
+const HAND_PAIR_SAMPLES = 20000;
+const FRAME_MS = 66; // About 15 fps
+const HOLD_FRAMES = 8; // Long enough for the segmenter to commit the sign
+const HANDS_DOWN_FRAMES = 9; // Long enough to close the segment
+const RECORDED_AT = '2024-06-01T00:00:00.000Z';
+
+// Small fast PRNG; the same seed always draws the same poses
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const pick = <T>(items: readonly T[]): T => items[Math.floor(next() * items.length)];
+  return { next, pick };
+};
+
+type Random = ReturnType<typeof createRandom>;
+
+const point = (x: number, y: number, z = -0.02): HandLandmark => ({ x, y, z });
+
+// Offsets from the knuckle, in image units with y pointing down: joints above
+// the knuckle are negative. Together they cover every ordering of tip, PIP and
+// knuckle height that the rules test.
+const PIP_OFFSETS = [-0.055, -0.03, 0.02];
+const TIP_OFFSETS = [-0.11, -0.05, -0.015, 0.01, 0.04];
+const KNUCKLE_X = [-0.045, -0.015, 0.015, 0.045]; // Index to pinky, relative to the wrist
+const SPREADS = [0.3, 0.6, 1, 1.6];
+const TILTS = [1, 0.7, 0.4]; // Vertical foreshortening of a hand leaning towards the camera
+const WRIST_X = [0.5, 0.8];
+const WRIST_Y = [0.25, 0.5, 0.75];
+
+// An upright hand (or one flipped upside down) with a random state per finger
+const randomHand = (random: Random): HandLandmark[] => {
+  const wx = random.pick(WRIST_X);
+  const wy = random.pick(WRIST_Y);
+  const spread = random.pick(SPREADS);
+  const tilt = random.pick(TILTS);
+  const flip = random.next() < 0.15 ? -1 : 1;
+  const y = (offset: number) => wy + flip * tilt * offset;
+
+  const hand: HandLandmark[] = new Array(21);
+  hand[0] = point(wx, wy, 0);
+
+  KNUCKLE_X.forEach((knuckleX, finger) => {
+    const base = 5 + finger * 4;
+    const mcpY = -0.13 + (finger === 3 ? 0.015 : 0);
+    const pip = random.pick(PIP_OFFSETS);
+    const tip = random.pick(TIP_OFFSETS);
+    const x = wx + knuckleX;
+    const tipX = wx + knuckleX * spread + (random.next() - 0.5) * 0.02;
+    hand[base] = point(x, y(mcpY));
+    hand[base + 1] = point((x + tipX) / 2, y(mcpY + pip));
+    hand[base + 2] = point((x + 3 * tipX) / 4, y(mcpY + (pip + tip) / 2));
+    hand[base + 3] = point(tipX, y(mcpY + tip));
+  });
+
+  // Thumb: out to the side, or with its tip on one of the fingertips
+  const ipOffset = random.pick([-0.03, 0.01]);
+  const tipOffset = random.pick([-0.03, 0.02]);
+  hand[1] = point(wx - 0.06, y(-0.03));
+  hand[2] = point(wx - 0.08, y(-0.06));
+  hand[3] = point(wx - 0.09, y(-0.06 + ipOffset));
+  const target = random.pick([null, null, 8, 12, 16, 20]);
+  if (target === null) {
+    hand[4] = point(wx - 0.11, y(-0.06 + ipOffset + tipOffset));
+  } else {
+    const touch = random.next() < 0.5;
+    hand[4] = point(hand[target].x, touch ? hand[target].y : y(-0.06 + ipOffset + tipOffset));
+  }
+  return hand;
+};
+
+// Two hands placed so that the dominant one touches the other: index on a
+// fingertip, fingertips together, or wrist on the palm
+const randomHandPair = (random: Random): [HandLandmark[], HandLandmark[]] => {
+  const dominant = randomHand(random);
+  const other = randomHand(random);
+  const palm = [0, 5, 9, 13, 17].map(i => other[i]);
+  const anchor = random.pick(['tip', 'tip', 'palm'] as const);
+  const [from, to] = anchor === 'palm'
+    ? [dominant[0], point(palm.reduce((sum, p) => sum + p.x, 0) / 5, palm.reduce((sum, p) => sum + p.y, 0) / 5)]
+    : [dominant[8], other[random.pick([4, 8, 12, 16, 20])]];
+  const dx = to.x - from.x + (random.next() - 0.5) * 0.02;
+  const dy = to.y - from.y + (random.next() - 0.5) * 0.02;
+  return [dominant.map(p => point(p.x + dx, p.y + dy, p.z)), other];
+};
+
+// Hold the pose with a little landmark jitter, then lower the hands
+const buildRecording = (
+  recognizer: SignRecognizer,
+  sign: string,
+  hands: HandLandmark[][],
+  random: Random
+): LandmarkRecording => {
+  const round = (value: number) => Math.round(value * 10000) / 10000;
+  const jitter = (value: number) => round(value + (random.next() - 0.5) * 0.002);
+  // MediaPipe reports handedness mirrored: the signer's right hand is labelled 'Left'
+  const handedness = hands.map((_, index) => ({ index, label: index === 0 ? 'Left' : 'Right', score: 0.98 }));
+
+  const frames: RecordedFrame[] = [];
+  for (let i = 0; i < HOLD_FRAMES; i++) {
+    frames.push({
+      t: i * FRAME_MS,
+      hands: hands.map(hand => hand.map(p => ({ x: jitter(p.x), y: jitter(p.y), z: round(p.z) }))),
+      handedness
+    });
+  }
+  for (let i = 0; i < HANDS_DOWN_FRAMES; i++) {
+    frames.push({ t: (HOLD_FRAMES + i) * FRAME_MS, hands: [], handedness: [] });
+  }
+
+  return {
+    version: RECORDING_FORMAT_VERSION,
+    name: `${recognizer.code} ${sign.trim()} (synthetic)`,
+    signLanguage: recognizer.code,
+    dominantHand: 'Right',
+    recordedAt: RECORDED_AT,
+    expected: [sign],
+    frames
+  };
+};
+
+const slug = (sign: string): string =>
+  sign.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+const synthesize = (recognizer: SignRecognizer): string[] => {
+  const random = createRandom(SEED);
+  const wanted = new Set(recognizer.vocabulary);
+  const found = new Map<string, LandmarkRecording>();
+
+  const tryHands = (sign: string | undefined, hands: HandLandmark[][]) => {
+    if (!sign || !wanted.has(sign) || found.has(sign)) return;
+    const recording = buildRecording(recognizer, sign, hands, random);
+    const { signs } = replayRecording(recording);
+    if (signs.length === 1 && signs[0] === sign) found.set(sign, recording);
+  };
+
+  for (let i = 0; i < SINGLE_HAND_SAMPLES && found.size < wanted.size; i++) {
+    const hand = randomHand(random);
+    tryHands(recognizer.classifyHand(hand)?.sign, [hand]);
+  }
+  if (recognizer.classifyPair) {
+    for (let i = 0; i < HAND_PAIR_SAMPLES && found.size < wanted.size; i++) {
+      const [dominant, other] = randomHandPair(random);
+      tryHands(recognizer.classifyPair(dominant, other)?.sign, [dominant, other]);
+    }
+  }
+
+  const dir = join(outDir, recognizer.code.toLowerCase());
+  mkdirSync(dir, { recursive: true });
+  found.forEach((recording, sign) => writeFileSync(join(dir, `${slug(sign)}.json`), serializeRecording(recording)));
+  console.log(`${recognizer.code}: wrote ${found.size}/${wanted.size} recordings to ${dir}`);
+
+  return recognizer.vocabulary.filter(sign => !found.has(sign));
+};
+
+const recognizers = recognizerRegistry.list().filter(recognizer => !languages || recognizer.code === languages);
+const missing = recognizers.map(recognizer => ({ code: recognizer.code, signs: synthesize(recognizer) }));
+
+missing
+  .filter(({ signs }) => signs.length > 0)
+  .forEach(({ code, signs }) => console.log(`\n${code} signs no pose reached:\n  ${signs.map(sign => sign.trim()).join(', ')}`));
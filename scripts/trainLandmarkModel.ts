@@ -0,0 +1,138 @@
+// Trains the learned landmark classifier from approved ISign exports and adds
+// it to public/models/manifest.json as a new version.
+//
+//   npm run train-model -- signs.json                    ASL, next patch version
+//   npm run train-model -- exports/ --language KSL --version 2.0.0
+//   npm run train-model -- signs.json --epochs 100 --min-samples 10
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import * as tf from '@tensorflow/tfjs';
+import { extractHandSamples, normalizeLandmarks } from '../src/services/landmarkClassifier';
+import {
+  LandmarkModelEntry,
+  LandmarkModelManifest,
+  MODEL_MANIFEST_VERSION,
+  selectModelEntry
+} from '../src/services/landmarkModel';
+import type { SignLanguageCode } from '../src/services/recognizers/types';
+import type { ISign } from '../src/lib/mongo';
+
+const args = process.argv.slice(2);
+const option = (name: string): string | undefined => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const language = (option('--language') ?? 'ASL') as SignLanguageCode;
+const epochs = Number(option('--epochs') ?? 60);
+const minSamples = Number(option('--min-samples') ?? 5);
+const outDir = option('--out') ?? 'public/models';
+const optionValues = new Set(['--language', '--epochs', '--min-samples', '--out', '--version'].map(option));
+const inputs = args.filter(arg => !arg.startsWith('--') && !optionValues.has(arg));
+
+const collect = (path: string): string[] => {
+  if (!existsSync(path)) return [];
+  if (!statSync(path).isDirectory()) return [path];
+  return readdirSync(path)
+    .sort()
+    .flatMap(entry => collect(join(path, entry)))
+    .filter(file => file.endsWith('.json'));
+};
+
+const signs: ISign[] = inputs.flatMap(collect).flatMap(file => {
+  const data = JSON.parse(readFileSync(file, 'utf8'));
+  return Array.isArray(data) ? data : [data];
+});
+
+// Feature vectors per label, from approved signs of the chosen language
+const samples = new Map<string, number[][]>();
+signs
+  .filter(sign => sign.language === language && sign.landmark_data && (!sign.status || sign.status === 'approved') && !sign.is_personal)
+  .forEach(sign => {
+    const features = extractHandSamples(sign.landmark_data)
+      .map(normalizeLandmarks)
+      .filter((vector): vector is number[] => vector !== null);
+    samples.set(sign.name, [...(samples.get(sign.name) ?? []), ...features]);
+  });
+
+const labels = Array.from(samples.keys()).filter(label => samples.get(label)!.length >= minSamples).sort();
+if (labels.length < 2) {
+  console.error(`Need at least two ${language} signs with ${minSamples}+ landmark samples; found ${labels.length}.`);
+  process.exit(1);
+}
+
+const xs: number[][] = [];
+const ys: number[] = [];
+labels.forEach((label, index) => {
+  samples.get(label)!.forEach(features => {
+    xs.push(features);
+    ys.push(index);
+  });
+});
+
+const manifestPath = join(outDir, 'manifest.json');
+const manifest: LandmarkModelManifest = existsSync(manifestPath)
+  ? JSON.parse(readFileSync(manifestPath, 'utf8'))
+  : { version: MODEL_MANIFEST_VERSION, models: [] };
+const id = `${language.toLowerCase()}-landmarks`;
+const previous = selectModelEntry(manifest, language);
+const version = option('--version') ??
+  (previous ? previous.version.replace(/(\d+)$/, patch => String(Number(patch) + 1)) : '1.0.0');
+
+const train = async () => {
+  await tf.setBackend('cpu');
+
+  const model = tf.sequential({
+    layers: [
+      tf.layers.dense({ inputShape: [63], units: 64, activation: 'relu' }),
+      tf.layers.dropout({ rate: 0.2 }),
+      tf.layers.dense({ units: labels.length, activation: 'softmax' })
+    ]
+  });
+  model.compile({ optimizer: tf.train.adam(0.01), loss: 'categoricalCrossentropy', metrics: ['accuracy'] });
+
+  const x = tf.tensor2d(xs, [xs.length, 63]);
+  const y = tf.oneHot(tf.tensor1d(ys, 'int32'), labels.length);
+  const history = await model.fit(x, y, { epochs, batchSize: 32, shuffle: true, validationSplit: xs.length >= 50 ? 0.1 : 0, verbose: 0 });
+  const accuracy = history.history.acc?.[history.history.acc.length - 1] as number | undefined;
+  const validation = history.history.val_acc?.[history.history.val_acc.length - 1] as number | undefined;
+
+  const modelDir = join(outDir, id, version);
+  mkdirSync(modelDir, { recursive: true });
+  await model.save(tf.io.withSaveHandler(async artifacts => {
+    writeFileSync(join(modelDir, 'model.json'), JSON.stringify({
+      format: artifacts.format,
+      generatedBy: artifacts.generatedBy,
+      convertedBy: artifacts.convertedBy,
+      modelTopology: artifacts.modelTopology,
+      weightsManifest: [{ paths: ['weights.bin'], weights: artifacts.weightSpecs }]
+    }));
+    writeFileSync(join(modelDir, 'weights.bin'), Buffer.from(artifacts.weightData as ArrayBuffer));
+    return { modelArtifactsInfo: { dateSaved: new Date(), modelTopologyType: 'JSON' } };
+  }));
+
+  const entry: LandmarkModelEntry = {
+    id,
+    version,
+    language,
+    format: 'tfjs-layers',
+    path: `${id}/${version}/model.json`,
+    labels,
+    features: 'normalized-landmarks',
+    minConfidence: 0.6,
+    trainedAt: new Date().toISOString(),
+    samples: xs.length
+  };
+  manifest.models = [...manifest.models.filter(model => !(model.id === id && model.version === version)), entry];
+  writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + '\n');
+
+  const percent = (value?: number) => (value === undefined ? 'n/a' : `${(value * 100).toFixed(1)}%`);
+  console.log(`Trained ${id}@${version}: ${labels.length} signs, ${xs.length} samples`);
+  console.log(`  training accuracy ${percent(accuracy)}, validation accuracy ${percent(validation)}`);
+  console.log(`  wrote ${join(modelDir, 'model.json')} and updated ${manifestPath}`);
+};
+
+train().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -3,11 +3,14 @@ const cors = require('cors');
 const path = require('path');
 const { connectDB } = require('./lib/mongo');
 const apiRoutes = require('./routes/api');
+const aiRoutes = require('./routes/ai');
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
 app.use(cors());
+// Custom signs carry their landmark templates in the body
+app.use('/api/signs/custom', express.json({ limit: '1mb' }));
 app.use(express.json());
 
 // Serve uploaded files statically
@@ -16,8 +19,17 @@ app.use('/uploads', express.static(path.join(__dirname, '../uploads')));
 // Connect to MongoDB
 connectDB().catch(console.error);
 
+app.use('/api/ai', aiRoutes);
 app.use('/api', apiRoutes);
 
+// Oversized JSON bodies get a JSON error like every other route, not Express's HTML page
+app.use((err, req, res, next) => {
+  if (err.type === 'entity.too.large') {
+    return res.status(413).json({ error: `Request body is larger than the ${err.limit} byte limit` });
+  }
+  next(err);
+});
+
 app.listen(PORT, () => {
   console.log(`Server is running on port ${PORT}`);
 });
@@ -0,0 +1,31 @@
+const jwt = require('jsonwebtoken');
+
+const signToken = (user) => {
+  return jwt.sign(
+    { userId: user._id.toString(), email: user.email },
+    process.env.JWT_SECRET,
+    { expiresIn: '7d' }
+  );
+};
+
+// Rejects requests without a valid "Authorization: Bearer <token>" header
+const requireAuth = (req, res, next) => {
+  const header = req.headers.authorization || '';
+  const [scheme, token] = header.split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  try {
+    const payload = jwt.verify(token, process.env.JWT_SECRET);
+    req.userId = payload.userId;
+    next();
+  } catch (error) {
+    res.status(401).json({ error: 'Invalid or expired token' });
+  }
+};
+
+module.exports = {
+  signToken,
+  requireAuth
+};
@@ -0,0 +1,39 @@
+const { createOpenAIProvider } = require('./openai');
+const { createMockProvider } = require('./mock');
+
+// Providers implement complete({ system, prompt, maxTokens, temperature }) -> Promise<string>
+const providers = {
+  openai: () => {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error('OPENAI_API_KEY is required for the openai LLM provider');
+    }
+    return createOpenAIProvider({ apiKey: process.env.OPENAI_API_KEY, model: process.env.OPENAI_MODEL });
+  },
+  mock: () => createMockProvider()
+};
+
+let provider;
+
+const registerProvider = (name, factory) => {
+  providers[name] = factory;
+  provider = undefined;
+};
+
+// LLM_PROVIDER picks the provider; without it OpenAI is used when a key is set, the mock otherwise
+const getLLMProvider = () => {
+  if (!provider) {
+    const name = process.env.LLM_PROVIDER || (process.env.OPENAI_API_KEY ? 'openai' : 'mock');
+    const factory = providers[name];
+    if (!factory) {
+      throw new Error(`Unknown LLM provider: ${name}`);
+    }
+    provider = factory();
+    console.log(`Using ${provider.name} LLM provider`);
+  }
+  return provider;
+};
+
+module.exports = {
+  getLLMProvider,
+  registerProvider
+};
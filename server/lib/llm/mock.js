@@ -0,0 +1,24 @@
+// Deterministic offline provider for development and tests; never calls the network
+const createMockProvider = () => ({
+  name: 'mock',
+
+  async complete({ prompt }) {
+    // Translation refinement: echo the rule-based draft
+    const draft = prompt.match(/Draft: "([^"]+)"/);
+    if (draft) {
+      return draft[1];
+    }
+
+    const quoted = prompt.match(/"([^"]+)"/);
+    const subject = quoted ? quoted[1] : prompt.slice(0, 60);
+
+    if (/confidence/i.test(prompt)) {
+      return `Confidence: 0.85. The handshape is consistent with "${subject}".`;
+    }
+    return `Possible meaning: ${subject}. Sign order looks natural; consider adding a topic sign first.`;
+  }
+});
+
+module.exports = {
+  createMockProvider
+};
@@ -0,0 +1,36 @@
+const OPENAI_URL = 'https://api.openai.com/v1/chat/completions';
+
+const createOpenAIProvider = ({ apiKey, model = 'gpt-3.5-turbo' }) => ({
+  name: 'openai',
+
+  async complete({ system, prompt, maxTokens = 150, temperature = 0.3 }) {
+    const response = await fetch(OPENAI_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${apiKey}`
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: 'system', content: system },
+          { role: 'user', content: prompt }
+        ],
+        max_tokens: maxTokens,
+        temperature
+      })
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`OpenAI request failed (${response.status}): ${body}`);
+    }
+
+    const completion = await response.json();
+    return completion.choices?.[0]?.message?.content || '';
+  }
+});
+
+module.exports = {
+  createOpenAIProvider
+};
@@ -0,0 +1,34 @@
+// Fixed-window request limiter kept in memory, keyed by authenticated user
+const createRateLimiter = ({ windowMs, max, keyFn = (req) => req.userId || req.ip }) => {
+  const windows = new Map();
+
+  return (req, res, next) => {
+    const key = keyFn(req);
+    const now = Date.now();
+    let entry = windows.get(key);
+
+    if (!entry || now - entry.start >= windowMs) {
+      entry = { start: now, count: 0 };
+      windows.set(key, entry);
+    }
+    entry.count++;
+
+    // Drop expired windows so the map does not grow without bound
+    if (windows.size > 10000) {
+      for (const [storedKey, stored] of windows) {
+        if (now - stored.start >= windowMs) windows.delete(storedKey);
+      }
+    }
+
+    if (entry.count > max) {
+      const retryAfter = Math.ceil((entry.start + windowMs - now) / 1000);
+      res.set('Retry-After', String(retryAfter));
+      return res.status(429).json({ error: 'Too many requests, please try again later', retryAfter });
+    }
+    next();
+  };
+};
+
+module.exports = {
+  createRateLimiter
+};
@@ -0,0 +1,40 @@
+const { createOpenAITTSProvider } = require('./openai');
+const { createMockTTSProvider } = require('./mock');
+
+// Providers implement synthesize({ text, lang, voice, speed }) -> Promise<{ audio: Buffer, contentType }>
+// and describe their voices with `languages` (primary subtags, e.g. 'sw') and `voices`
+const providers = {
+  openai: () => {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error('OPENAI_API_KEY is required for the openai TTS provider');
+    }
+    return createOpenAITTSProvider({ apiKey: process.env.OPENAI_API_KEY, model: process.env.OPENAI_TTS_MODEL });
+  },
+  mock: () => createMockTTSProvider()
+};
+
+let provider;
+
+const registerTTSProvider = (name, factory) => {
+  providers[name] = factory;
+  provider = undefined;
+};
+
+// TTS_PROVIDER picks the provider; without it OpenAI is used when a key is set, the mock otherwise
+const getTTSProvider = () => {
+  if (!provider) {
+    const name = process.env.TTS_PROVIDER || (process.env.OPENAI_API_KEY ? 'openai' : 'mock');
+    const factory = providers[name];
+    if (!factory) {
+      throw new Error(`Unknown TTS provider: ${name}`);
+    }
+    provider = factory();
+    console.log(`Using ${provider.name} TTS provider`);
+  }
+  return provider;
+};
+
+module.exports = {
+  getTTSProvider,
+  registerTTSProvider
+};
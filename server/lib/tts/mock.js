@@ -0,0 +1,36 @@
+const SAMPLE_RATE = 8000;
+
+// Silent 16-bit mono WAV, roughly as long as the text would take to read
+const silentWav = (durationMs) => {
+  const samples = Math.round((SAMPLE_RATE * durationMs) / 1000);
+  const buffer = Buffer.alloc(44 + samples * 2);
+  buffer.write('RIFF', 0);
+  buffer.writeUInt32LE(36 + samples * 2, 4);
+  buffer.write('WAVE', 8);
+  buffer.write('fmt ', 12);
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20); // PCM
+  buffer.writeUInt16LE(1, 22); // Mono
+  buffer.writeUInt32LE(SAMPLE_RATE, 24);
+  buffer.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36);
+  buffer.writeUInt32LE(samples * 2, 40);
+  return buffer;
+};
+
+// Deterministic offline provider for development and tests; never calls the network
+const createMockTTSProvider = () => ({
+  name: 'mock',
+  languages: ['en', 'sw'],
+  voices: ['mock'],
+
+  async synthesize({ text }) {
+    return { audio: silentWav(Math.min(10000, 200 + text.length * 60)), contentType: 'audio/wav' };
+  }
+});
+
+module.exports = {
+  createMockTTSProvider
+};
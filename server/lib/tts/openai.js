@@ -0,0 +1,37 @@
+const OPENAI_SPEECH_URL = 'https://api.openai.com/v1/audio/speech';
+
+// The speech model reads any language the text is written in, Swahili included;
+// the voice only changes the timbre
+const createOpenAITTSProvider = ({ apiKey, model = 'tts-1' }) => ({
+  name: 'openai',
+  languages: ['en', 'sw'],
+  voices: ['alloy', 'echo', 'fable', 'nova', 'onyx', 'shimmer'],
+
+  async synthesize({ text, voice = 'alloy', speed = 1 }) {
+    const response = await fetch(OPENAI_SPEECH_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${apiKey}`
+      },
+      body: JSON.stringify({
+        model,
+        input: text,
+        voice,
+        speed: Math.max(0.25, Math.min(4, speed)),
+        response_format: 'mp3'
+      })
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`OpenAI speech request failed (${response.status}): ${body}`);
+    }
+
+    return { audio: Buffer.from(await response.arrayBuffer()), contentType: 'audio/mpeg' };
+  }
+});
+
+module.exports = {
+  createOpenAITTSProvider
+};
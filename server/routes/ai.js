@@ -0,0 +1,142 @@
+const express = require('express');
+const router = express.Router();
+const { requireAuth } = require('../lib/auth');
+const { createRateLimiter } = require('../lib/rateLimit');
+const { getLLMProvider } = require('../lib/llm');
+const { getTTSProvider } = require('../lib/tts');
+
+// Every AI route needs a signed-in user and is limited per user
+router.use(requireAuth);
+router.use(createRateLimiter({
+  windowMs: 60 * 1000,
+  max: Number(process.env.AI_RATE_LIMIT_PER_MINUTE) || 20
+}));
+
+router.post('/sentence-analysis', async (req, res) => {
+  const { signs, language } = req.body;
+  try {
+    if (!Array.isArray(signs) || signs.length < 2) {
+      return res.status(400).json({ error: 'signs must be an array of at least two detected signs' });
+    }
+
+    const provider = getLLMProvider();
+    const signsSequence = signs.slice(-10).map(String).join(' ');
+    const analysis = await provider.complete({
+      system: `You are an expert in sign language linguistics. Analyze the sequence of detected signs and provide insights about sentence construction, grammar, and meaning. Focus on ${language || 'American Sign Language (ASL)'} sign language patterns.`,
+      prompt: `Analyze this sequence of detected signs: "${signsSequence}". Provide:
+1. Possible sentence meaning
+2. Grammatical correctness
+3. Suggestions for improvement
+4. Sign language specific insights
+Keep response concise and focused on accuracy.`,
+      maxTokens: 150,
+      temperature: 0.3
+    });
+
+    res.json({ analysis, provider: provider.name });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+router.post('/validate-sign', async (req, res) => {
+  const { sign, landmarkSummary, language } = req.body;
+  try {
+    if (!sign) {
+      return res.status(400).json({ error: 'sign is required' });
+    }
+
+    const provider = getLLMProvider();
+    const validation = await provider.complete({
+      system: `You are a sign language accuracy validator. Analyze hand landmarks and detected signs for ${language || 'American Sign Language (ASL)'} accuracy.`,
+      prompt: `Validate accuracy of detected sign "${sign}" with landmark summary: ${landmarkSummary || 'not provided'}. Provide confidence score (0-1) and any corrections.`,
+      maxTokens: 100,
+      temperature: 0.2
+    });
+
+    // Parse confidence from response
+    const confidenceMatch = validation.match(/confidence[:\s]+([0-9.]+)/i);
+    const confidence = confidenceMatch ? parseFloat(confidenceMatch[1]) : 0.8;
+
+    res.json({
+      sign,
+      confidence: Math.max(0, Math.min(1, confidence)),
+      feedback: validation,
+      provider: provider.name
+    });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+const TARGET_LANGUAGES = { en: 'English', sw: 'Swahili' };
+
+router.post('/translate', async (req, res) => {
+  const { gloss, draft, targetLanguage = 'en', signLanguage } = req.body;
+  try {
+    if (!gloss || !draft) {
+      return res.status(400).json({ error: 'gloss and draft are required' });
+    }
+    if (!TARGET_LANGUAGES[targetLanguage]) {
+      return res.status(400).json({ error: `Unsupported target language: ${targetLanguage}` });
+    }
+
+    const provider = getLLMProvider();
+    const text = await provider.complete({
+      system: `You translate ${signLanguage || 'ASL'} gloss into natural spoken ${TARGET_LANGUAGES[targetLanguage]}. Keep the meaning of the gloss exactly; do not add information. Reply with the sentence only.`,
+      prompt: `Draft: "${draft}"
+Gloss: ${gloss}
+Rewrite the draft as one fluent ${TARGET_LANGUAGES[targetLanguage]} sentence.`,
+      maxTokens: 80,
+      temperature: 0.2
+    });
+
+    res.json({ text: text.trim().replace(/^"|"$/g, ''), provider: provider.name });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+const MAX_SPEECH_CHARS = 1000;
+
+// What the server can read aloud, so clients only send languages it has voices for
+router.get('/speech/capabilities', (req, res) => {
+  try {
+    const provider = getTTSProvider();
+    res.json({ provider: provider.name, languages: provider.languages, voices: provider.voices, maxChars: MAX_SPEECH_CHARS });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+router.post('/speech', async (req, res) => {
+  const { text, lang = 'en', voice, rate } = req.body;
+  try {
+    if (typeof text !== 'string' || !text.trim()) {
+      return res.status(400).json({ error: 'text is required' });
+    }
+    if (text.length > MAX_SPEECH_CHARS) {
+      return res.status(400).json({ error: `text must be at most ${MAX_SPEECH_CHARS} characters` });
+    }
+
+    const provider = getTTSProvider();
+    const primary = String(lang).split('-')[0].toLowerCase();
+    if (!provider.languages.includes(primary)) {
+      return res.status(400).json({ error: `Unsupported speech language: ${lang}` });
+    }
+
+    const { audio, contentType } = await provider.synthesize({
+      text: text.trim(),
+      lang,
+      voice: provider.voices.includes(voice) ? voice : undefined,
+      speed: Number(rate) || 1
+    });
+    res.set('Content-Type', contentType);
+    res.set('X-TTS-Provider', provider.name);
+    res.send(audio);
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+module.exports = router;
@@ -7,7 +7,7 @@ const multer = require('multer');
 const path = require('path');
 const fs = require('fs');
 const { OAuth2Client } = require('google-auth-library');
-const jwt = require('jsonwebtoken');
+const { signToken, requireAuth } = require('../lib/auth');
 const cloudinary = require('cloudinary').v2;
 const { CloudinaryStorage } = require('multer-storage-cloudinary');
 
@@ -139,11 +139,7 @@ router.get('/auth/google/callback', async (req, res) => {
     }
 
     // Generate JWT token
-    const token = jwt.sign(
-      { userId: user._id.toString(), email: user.email },
-      process.env.JWT_SECRET,
-      { expiresIn: '7d' }
-    );
+    const token = signToken(user);
 
     // Redirect to frontend with token
     const redirectUrl = `${process.env.CLIENT_URL || 'http://localhost:5173'}?token=${token}&user=${encodeURIComponent(JSON.stringify({
@@ -194,7 +190,7 @@ router.post('/signup', async (req, res) => {
       updated_at: new Date()
     });
     const user = await db.collection('users').findOne({ _id: userId });
-    res.json({ ...user, id: user._id.toString() });
+    res.json({ ...user, id: user._id.toString(), token: signToken(user) });
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
@@ -212,7 +208,7 @@ router.post('/signin', async (req, res) => {
     if (!isValid) {
       return res.status(401).json({ error: 'Invalid password' });
     }
-    res.json({ ...user, id: user._id.toString() });
+    res.json({ ...user, id: user._id.toString(), token: signToken(user) });
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
@@ -242,7 +238,7 @@ router.put('/profile/:userId', async (req, res) => {
     }
 
     // Validate allowed keys
-    const allowedKeys = ['full_name', 'bio', 'learning_goals', 'skill_level', 'preferred_language', 'avatar_url'];
+    const allowedKeys = ['full_name', 'bio', 'learning_goals', 'skill_level', 'preferred_language', 'avatar_url', 'hand_calibration'];
     const keys = Object.keys(updates);
     const invalidKeys = keys.filter(key => !allowedKeys.includes(key));
     if (invalidKeys.length > 0) {
@@ -258,6 +254,18 @@ router.put('/profile/:userId', async (req, res) => {
       return res.status(400).json({ error: 'Preferred language must be a string' });
     }
 
+    // Fitted by the calibration wizard; null clears it
+    const calibration = updates.hand_calibration;
+    if (calibration !== undefined && calibration !== null && (
+      typeof calibration !== 'object' ||
+      typeof calibration.roll !== 'number' ||
+      !Array.isArray(calibration.finger_bias) ||
+      !calibration.finger_bias.every(value => typeof value === 'number') ||
+      !Array.isArray(calibration.templates)
+    )) {
+      return res.status(400).json({ error: 'Invalid hand calibration' });
+    }
+
     const db = getDB();
     const result = await db.collection('student_profiles').updateOne(
       { user_id: new ObjectId(userId) },
@@ -515,6 +523,8 @@ router.get('/signs', async (req, res) => {
     if (difficulty && difficulty !== 'all') query.difficulty_level = difficulty;
     if (contributed === 'true') query.contributed_by = { $exists: true };
     else if (contributed === 'false') query.contributed_by = { $exists: false };
+    // Signs taught by a user stay private to them
+    query.is_personal = { $ne: true };
 
     const signs = await db.collection('signs')
       .find(query)
@@ -605,6 +615,119 @@ router.post('/signs/upload', upload.fields([
   }
 });
 
+// Signs a user taught the recognizer from their own recorded examples
+router.get('/signs/custom', requireAuth, async (req, res) => {
+  try {
+    const db = getDB();
+    const signs = await db.collection('signs')
+      .find({ is_personal: true, contributed_by: req.userId })
+      .sort({ created_at: -1 })
+      .toArray();
+    res.json(signs.map(sign => ({ ...sign, id: sign._id.toString() })));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+router.post('/signs/custom', requireAuth, async (req, res) => {
+  const { name, description, category, language, tags, landmark_data } = req.body;
+  try {
+    if (typeof name !== 'string' || !name.trim() || typeof language !== 'string' || !language ||
+        !landmark_data || typeof landmark_data !== 'object') {
+      return res.status(400).json({ error: 'Missing required fields: name, language, landmark_data' });
+    }
+    if ((description != null && typeof description !== 'string') ||
+        (category != null && typeof category !== 'string') ||
+        (tags != null && (!Array.isArray(tags) || !tags.every(tag => typeof tag === 'string')))) {
+      return res.status(400).json({ error: 'description and category must be strings, tags an array of strings' });
+    }
+
+    const db = getDB();
+    const user = await db.collection('users').findOne({ _id: new ObjectId(req.userId) });
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const signData = {
+      name: name.trim(),
+      description: description?.trim() || '',
+      category: category || 'basics',
+      language,
+      difficulty_level: 'beginner',
+      tags: tags ?? [],
+      landmark_data,
+      contributed_by: req.userId,
+      contributor_name: user.full_name,
+      is_personal: true,
+      is_active: true, // Recognised for its owner straight away; no moderation status
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+
+    const result = await db.collection('signs').insertOne(signData);
+    res.json({ ...signData, id: result.insertedId.toString() });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Submit a copy of a custom sign to the community moderation queue
+router.post('/signs/custom/:signId/submit', requireAuth, async (req, res) => {
+  const { signId } = req.params;
+  try {
+    if (!ObjectId.isValid(signId)) {
+      return res.status(400).json({ error: 'Invalid sign ID format' });
+    }
+
+    const db = getDB();
+    const personal = await db.collection('signs').findOne({
+      _id: new ObjectId(signId),
+      is_personal: true,
+      contributed_by: req.userId
+    });
+    if (!personal) {
+      return res.status(404).json({ error: 'Sign not found' });
+    }
+    if (personal.community_sign_id) {
+      return res.status(409).json({ error: 'Sign has already been submitted' });
+    }
+
+    const { _id, is_personal, ...fields } = personal;
+    const submission = {
+      ...fields,
+      status: 'pending',
+      review_notes: '',
+      reviewed_by: null,
+      reviewed_at: null,
+      is_active: false, // Not active until approved
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+    const result = await db.collection('signs').insertOne(submission);
+    await db.collection('signs').updateOne(
+      { _id },
+      { $set: { community_sign_id: result.insertedId.toString(), updated_at: new Date() } }
+    );
+
+    const admins = await db.collection('users').find({ role: 'admin' }).toArray();
+    for (const admin of admins) {
+      await db.collection('notifications').insertOne({
+        user_id: admin._id.toString(),
+        type: 'system',
+        title: 'New Sign Submission',
+        message: `${personal.contributor_name} submitted a new sign "${personal.name}" for review`,
+        data: { sign_id: result.insertedId.toString(), contributor_id: req.userId },
+        is_read: false,
+        created_at: new Date()
+      });
+    }
+
+    res.json({ ...submission, id: result.insertedId.toString() });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Get pending signs for moderation
 router.get('/signs/pending', async (req, res) => {
   try {
@@ -682,7 +805,8 @@ router.get('/signs/contributed/:userId', async (req, res) => {
   try {
     const db = getDB();
     const signs = await db.collection('signs')
-      .find({ contributed_by: userId })
+      // Personal signs are private and never go through review
+      .find({ contributed_by: userId, is_personal: { $ne: true } })
       .sort({ created_at: -1 })
       .toArray();
     res.json(signs.map(sign => ({ ...sign, id: sign._id.toString() })));
@@ -741,7 +865,7 @@ router.post('/admin/create', async (req, res) => {
       updated_at: new Date()
     });
     const user = await db.collection('users').findOne({ _id: userId });
-    res.json({ ...user, id: user._id.toString() });
+    res.json({ ...user, id: user._id.toString(), token: signToken(user) });
   } catch (error) {
     res.status(500).json({ error: error.message });
   }
@@ -892,6 +1016,146 @@ router.put('/practice-sessions/:sessionId', async (req, res) => {
   }
 });
 
+// Conversation Functions
+// Conversation mode transcripts, private to the signed-in user
+const CONVERSATION_SPEAKERS = ['signer', 'hearing'];
+const CONVERSATION_MODALITIES = ['sign', 'speech', 'text'];
+
+const validConversationTurns = (turns) =>
+  Array.isArray(turns) && turns.every(turn =>
+    turn &&
+    CONVERSATION_SPEAKERS.includes(turn.speaker) &&
+    CONVERSATION_MODALITIES.includes(turn.modality) &&
+    typeof turn.text === 'string' &&
+    Number.isFinite(turn.timestamp)
+  );
+
+const toConversationTurn = (turn) => ({
+  id: String(turn.id),
+  speaker: turn.speaker,
+  modality: turn.modality,
+  timestamp: turn.timestamp,
+  gloss: typeof turn.gloss === 'string' ? turn.gloss : '',
+  text: turn.text,
+  language: typeof turn.language === 'string' ? turn.language : 'en',
+  ...(Number.isFinite(turn.confidence) ? { confidence: Math.max(0, Math.min(1, turn.confidence)) } : {})
+});
+
+router.get('/conversations', requireAuth, async (req, res) => {
+  try {
+    const db = getDB();
+    const conversations = await db.collection('conversations')
+      .find({ user_id: req.userId })
+      .sort({ started_at: -1 })
+      .limit(50)
+      .toArray();
+    res.json(conversations.map(conversation => ({ ...conversation, id: conversation._id.toString() })));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+router.get('/conversations/:conversationId', requireAuth, async (req, res) => {
+  const { conversationId } = req.params;
+  try {
+    if (!ObjectId.isValid(conversationId)) {
+      return res.status(400).json({ error: 'Invalid conversation ID format' });
+    }
+
+    const db = getDB();
+    const conversation = await db.collection('conversations').findOne({ _id: new ObjectId(conversationId), user_id: req.userId });
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+    res.json({ ...conversation, id: conversation._id.toString() });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+router.post('/conversations', requireAuth, async (req, res) => {
+  const { title, sign_language, started_at, ended_at, turns } = req.body;
+  try {
+    if (typeof sign_language !== 'string' || !sign_language || !validConversationTurns(turns)) {
+      return res.status(400).json({ error: 'sign_language and a valid turns array are required' });
+    }
+    if (title != null && typeof title !== 'string') {
+      return res.status(400).json({ error: 'title must be a string' });
+    }
+
+    const conversationData = {
+      user_id: req.userId,
+      title: title?.trim() || 'Conversation',
+      sign_language,
+      started_at: started_at ? new Date(started_at) : new Date(),
+      ended_at: ended_at ? new Date(ended_at) : null,
+      turns: turns.map(toConversationTurn),
+      created_at: new Date(),
+      updated_at: new Date()
+    };
+
+    const db = getDB();
+    const result = await db.collection('conversations').insertOne(conversationData);
+    res.json({ ...conversationData, id: result.insertedId.toString() });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Later saves of an ongoing conversation replace its turns
+router.put('/conversations/:conversationId', requireAuth, async (req, res) => {
+  const { conversationId } = req.params;
+  const { title, ended_at, turns } = req.body;
+  try {
+    if (!ObjectId.isValid(conversationId)) {
+      return res.status(400).json({ error: 'Invalid conversation ID format' });
+    }
+    if (turns !== undefined && !validConversationTurns(turns)) {
+      return res.status(400).json({ error: 'Invalid turns array' });
+    }
+    if (title != null && typeof title !== 'string') {
+      return res.status(400).json({ error: 'title must be a string' });
+    }
+
+    const updates = { updated_at: new Date() };
+    if (title != null) updates.title = title.trim() || 'Conversation';
+    if (ended_at !== undefined) updates.ended_at = ended_at ? new Date(ended_at) : null;
+    if (turns !== undefined) updates.turns = turns.map(toConversationTurn);
+
+    const db = getDB();
+    const result = await db.collection('conversations').updateOne(
+      { _id: new ObjectId(conversationId), user_id: req.userId },
+      { $set: updates }
+    );
+    if (result.matchedCount === 0) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    const conversation = await db.collection('conversations').findOne({ _id: new ObjectId(conversationId) });
+    res.json({ ...conversation, id: conversation._id.toString() });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+router.delete('/conversations/:conversationId', requireAuth, async (req, res) => {
+  const { conversationId } = req.params;
+  try {
+    if (!ObjectId.isValid(conversationId)) {
+      return res.status(400).json({ error: 'Invalid conversation ID format' });
+    }
+
+    const db = getDB();
+    const result = await db.collection('conversations').deleteOne({ _id: new ObjectId(conversationId), user_id: req.userId });
+    if (result.deletedCount === 0) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+    res.json({ message: 'Conversation deleted successfully' });
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Achievement Functions
 router.get('/achievements/:userId', async (req, res) => {
   const { userId } = req.params;
@@ -1062,7 +1326,7 @@ router.get('/system-logs', async (req, res) => {
 });
 
 // Gesture Attempt Functions
-router.post('/gesture-attempts', async (req, res) => {
+router.post('/gesture-attempts', requireAuth, async (req, res) => {
   const attemptData = req.body;
   try {
     // Validate required fields
@@ -1077,11 +1341,14 @@ router.post('/gesture-attempts', async (req, res) => {
 
     const validatedData = {
       session_id: new ObjectId(attemptData.session_id),
-      user_id: attemptData.user_id ? new ObjectId(attemptData.user_id) : null,
+      user_id: new ObjectId(req.userId),
       sign_id: attemptData.sign_id,
       attempt_number: Number(attemptData.attempt_number) || 1,
       detected_sign: attemptData.detected_sign,
       confidence_score: Math.max(0, Math.min(1, Number(attemptData.confidence_score) || 0)),
+      ...(Number.isFinite(attemptData.raw_confidence)
+        ? { raw_confidence: Math.max(0, Math.min(1, attemptData.raw_confidence)) }
+        : {}),
       landmark_data: attemptData.landmark_data || [],
       is_correct: Boolean(attemptData.is_correct),
       feedback: attemptData.feedback || '',
@@ -1099,6 +1366,42 @@ router.post('/gesture-attempts', async (req, res) => {
   }
 });
 
+const MAX_ATTEMPTS_LIMIT = 5000;
+
+// Recent attempts across sessions, used to calibrate detection confidence.
+// Users see their own attempts; admins may list anyone's, or everyone's.
+router.get('/gesture-attempts', requireAuth, async (req, res) => {
+  const { userId, limit = '1000' } = req.query;
+  try {
+    const count = Number(limit);
+    if (!Number.isInteger(count) || count < 1 || count > MAX_ATTEMPTS_LIMIT) {
+      return res.status(400).json({ error: `limit must be an integer from 1 to ${MAX_ATTEMPTS_LIMIT}` });
+    }
+    if (userId !== undefined && !ObjectId.isValid(userId)) {
+      return res.status(400).json({ error: 'Invalid userId format' });
+    }
+
+    const db = getDB();
+    const caller = await db.collection('users').findOne({ _id: new ObjectId(req.userId) }, { projection: { role: 1 } });
+    const query = {};
+    if (caller?.role !== 'admin') {
+      query.user_id = new ObjectId(req.userId);
+    } else if (userId) {
+      query.user_id = new ObjectId(userId);
+    }
+
+    const attempts = await db.collection('gesture_attempts')
+      .find(query, { projection: { landmark_data: 0 } })
+      .sort({ timestamp: -1 })
+      .limit(count)
+      .toArray();
+
+    res.json(attempts.map(attempt => ({ ...attempt, id: attempt._id.toString() })));
+  } catch (error) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 router.get('/gesture-attempts/:sessionId', async (req, res) => {
   const { sessionId } = req.params;
   try {
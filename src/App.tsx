@@ -5,7 +5,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, useNavigate, useLocation } from "react-router-dom";
 import { AuthProvider, useAuth } from "./hooks/useAuth";
-import { checkAdminStatus } from "./services/mongoApi";
+import { checkAdminStatus, setAuthToken } from "./services/mongoApi";
 import Index from "./pages/Index";
 import AdminDashboard from "./pages/AdminDashboard";
 import NotFound from "./pages/NotFound";
@@ -40,6 +40,7 @@ const AppRoutes = () => {
         try {
           const userData = JSON.parse(decodeURIComponent(userParam));
           localStorage.setItem('user', JSON.stringify(userData));
+          setAuthToken(token);
           // Remove token and user from URL
           window.history.replaceState({}, document.title, window.location.pathname);
           window.location.reload();
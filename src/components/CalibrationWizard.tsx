@@ -0,0 +1,206 @@
+import { useEffect, useRef, useState } from 'react';
+import { Crosshair, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Progress } from './ui/progress';
+import { useAuth } from '../hooks/useAuth';
+import { signLanguageDetectionService, HandLandmark } from '../services/signLanguageDetection';
+import { CALIBRATION_POSES, CalibrationCapture, fitHandCalibration } from '../services/signerCalibration';
+import { updateUserProfile } from '../services/mongoApi';
+import type { IHandCalibration } from '../lib/mongo';
+
+// Frames kept per pose; only frames with exactly one hand in view count
+const FRAMES_PER_POSE = 30;
+
+const FINGER_NAMES = ['Index', 'Middle', 'Ring', 'Little'];
+
+interface CalibrationWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  detectionRunning: boolean; // Landmarks only flow while detection runs
+}
+
+const CalibrationWizard = ({ open, onOpenChange, detectionRunning }: CalibrationWizardProps) => {
+  const { user } = useAuth();
+  // -1 is the introduction, one step per pose, then the review
+  const [step, setStep] = useState(-1);
+  const [frameCount, setFrameCount] = useState(0);
+  const [handsInView, setHandsInView] = useState(0);
+  const [result, setResult] = useState<IHandCalibration | null>(null);
+  const [fitError, setFitError] = useState('');
+  const [saving, setSaving] = useState(false);
+  const capturesRef = useRef<CalibrationCapture[]>([]);
+  const current = signLanguageDetectionService.getSignerCalibration();
+  const pose = step >= 0 && step < CALIBRATION_POSES.length ? CALIBRATION_POSES[step] : null;
+
+  useEffect(() => {
+    if (!open) return;
+    setStep(-1);
+    setResult(null);
+    setFitError('');
+    capturesRef.current = [];
+  }, [open]);
+
+  // Collect frames of the held pose, then move on to the next one
+  useEffect(() => {
+    if (!open || !pose || !detectionRunning) return;
+
+    const frames: HandLandmark[][] = [];
+    setFrameCount(0);
+    return signLanguageDetectionService.subscribeLandmarks(landmarks => {
+      setHandsInView(landmarks.length);
+      if (landmarks.length !== 1 || frames.length >= FRAMES_PER_POSE) return;
+
+      frames.push(landmarks[0]);
+      setFrameCount(frames.length);
+      if (frames.length === FRAMES_PER_POSE) {
+        capturesRef.current = [...capturesRef.current.filter(capture => capture.pose.id !== pose.id), { pose, hands: frames }];
+        setStep(next => next + 1);
+      }
+    });
+  }, [open, pose, detectionRunning]);
+
+  // Fit once every pose is captured
+  useEffect(() => {
+    if (step !== CALIBRATION_POSES.length) return;
+    try {
+      setResult(fitHandCalibration(capturesRef.current, signLanguageDetectionService.getRecognizer().code));
+      setFitError('');
+    } catch (error) {
+      setFitError(error instanceof Error ? error.message : 'Calibration failed');
+    }
+  }, [step]);
+
+  const restart = () => {
+    capturesRef.current = [];
+    setResult(null);
+    setFitError('');
+    setStep(0);
+  };
+
+  const save = async (calibration: IHandCalibration | null) => {
+    setSaving(true);
+    signLanguageDetectionService.setSignerCalibration(calibration);
+    try {
+      if (user) {
+        await updateUserProfile(user.id, { hand_calibration: calibration });
+        toast.success(calibration ? 'Calibration saved to your profile' : 'Calibration cleared');
+      } else {
+        toast.success(calibration ? 'Calibration applied for this session. Sign in to keep it.' : 'Calibration cleared');
+      }
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to save hand calibration:', error);
+      toast.error('Calibration applied, but it could not be saved to your profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Crosshair className="h-5 w-5" />
+            <span>Calibrate Hand Recognition</span>
+          </DialogTitle>
+          <DialogDescription>
+            Hold a few reference handshapes so recognition adapts to your hand and camera angle.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === -1 && (
+          <div className="space-y-3 text-sm text-gray-700">
+            <p>
+              You will be asked for {CALIBRATION_POSES.length} handshapes. Hold each one steady with your
+              signing hand inside the dashed frame until the bar fills.
+            </p>
+            {!detectionRunning && (
+              <p className="text-amber-700 bg-amber-50 rounded-lg p-3">Start detection first so the camera can see your hand.</p>
+            )}
+            {current && (
+              <p className="text-gray-500">
+                Current calibration from {new Date(current.calibrated_at).toLocaleDateString()} will be replaced.
+              </p>
+            )}
+          </div>
+        )}
+
+        {pose && (
+          <div className="space-y-4">
+            <div className="text-xs text-gray-500">Pose {step + 1} of {CALIBRATION_POSES.length}</div>
+            <div>
+              <div className="text-lg font-semibold text-gray-900">{pose.sign}</div>
+              <p className="text-sm text-gray-700">{pose.instruction}</p>
+            </div>
+            <Progress value={(frameCount / FRAMES_PER_POSE) * 100} />
+            <p className="text-xs text-gray-500">
+              {!detectionRunning
+                ? 'Detection is stopped'
+                : handsInView === 0
+                  ? 'No hand in view'
+                  : handsInView > 1
+                    ? 'Show only your signing hand'
+                    : 'Hold still…'}
+            </p>
+          </div>
+        )}
+
+        {step === CALIBRATION_POSES.length && (
+          <div className="space-y-3 text-sm text-gray-700">
+            {fitError && <p className="text-red-700 bg-red-50 rounded-lg p-3">{fitError}</p>}
+            {result && (
+              <>
+                <p>Hand lean: {Math.round((result.roll * 180) / Math.PI)}° from upright</p>
+                <div className="grid grid-cols-2 gap-2">
+                  {result.finger_bias.map((bias, i) => (
+                    <div key={FINGER_NAMES[i]} className="bg-gray-50 rounded-lg px-3 py-2">
+                      <span className="font-medium">{FINGER_NAMES[i]}</span>{' '}
+                      <span className="text-gray-500">{bias >= 0 ? '+' : ''}{bias.toFixed(2)} palm</span>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-gray-500">
+                  {result.templates.length} personal handshapes from {result.sample_count} frames
+                </p>
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {step === -1 && current && (
+            <Button variant="outline" onClick={() => save(null)} disabled={saving}>
+              Clear Calibration
+            </Button>
+          )}
+          {step === -1 && (
+            <Button onClick={restart} disabled={!detectionRunning}>
+              Start
+            </Button>
+          )}
+          {pose && (
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+          )}
+          {step === CALIBRATION_POSES.length && (
+            <>
+              <Button variant="outline" onClick={restart} disabled={saving}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Redo
+              </Button>
+              <Button onClick={() => result && save(result)} disabled={!result || saving}>
+                {saving ? 'Saving…' : 'Save Calibration'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CalibrationWizard;
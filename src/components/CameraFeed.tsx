@@ -1,12 +1,94 @@
 
 import { useEffect, useRef, useState } from 'react';
-import { Camera, CameraOff, Play, Square } from 'lucide-react';
+import { Camera, CameraOff, Play, Square, Hand, ScanFace, CircleDot, Crosshair, GraduationCap, Bug, TriangleAlert } from 'lucide-react';
+import { HAND_CONNECTIONS } from '@mediapipe/hands';
+import { drawConnectors, drawLandmarks } from '@mediapipe/drawing_utils';
 import { signLanguageDetectionService, DetectionResult } from '../services/signLanguageDetection';
+import type { PerformanceStats } from '../services/performanceGovernor';
+import { LandmarkRecording, serializeRecording } from '../services/landmarkRecording';
+import { ClassificationStage, FrameDiagnostics, formatFingerVector } from '../services/detectionDiagnostics';
+import type { FrameQualityReport } from '../services/frameQuality';
+import CalibrationWizard from './CalibrationWizard';
+import TeachSignDialog from './TeachSignDialog';
+
+// Save a landmark recording as a JSON file for replay
+const downloadRecording = (recording: LandmarkRecording) => {
+  const blob = new Blob([serializeRecording(recording)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${recording.name}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const STAGE_LABELS: Record<ClassificationStage, string> = {
+  sequence: 'motion',
+  pair: 'two-handed',
+  model: 'model',
+  rule: 'rule',
+  template: 'template',
+  none: 'no match'
+};
+
+// Debug overlay: hand skeletons plus what the classifier made of the frame
+const drawDiagnostics = (canvas: HTMLCanvasElement, video: HTMLVideoElement, diagnostics: FrameDiagnostics | null) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const width = canvas.clientWidth;
+  const height = canvas.clientHeight;
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  ctx.clearRect(0, 0, width, height);
+  if (!diagnostics || !width || !height) return;
+
+  // The video is shown object-cover, so landmarks go through the same crop
+  const videoWidth = video.videoWidth || width;
+  const videoHeight = video.videoHeight || height;
+  const scale = Math.max(width / videoWidth, height / videoHeight);
+  const offsetX = (width - videoWidth * scale) / 2;
+  const offsetY = (height - videoHeight * scale) / 2;
+  diagnostics.landmarks.forEach(hand => {
+    const points = hand.map(point => ({
+      x: (point.x * videoWidth * scale + offsetX) / width,
+      y: (point.y * videoHeight * scale + offsetY) / height,
+      z: point.z
+    }));
+    drawConnectors(ctx, points, HAND_CONNECTIONS, { color: '#22c55e', lineWidth: 2 });
+    drawLandmarks(ctx, points, { color: '#ffffff', fillColor: '#16a34a', lineWidth: 1, radius: 3 });
+  });
+
+  const score = (value: number | null) => (value === null ? '–' : value.toFixed(2));
+  const lines = [
+    diagnostics.sign
+      ? `${diagnostics.sign} via ${STAGE_LABELS[diagnostics.stage]}${diagnostics.rule ? ` (${diagnostics.rule})` : ''} ` +
+        `raw ${score(diagnostics.confidence)} → ${score(diagnostics.calibratedConfidence)}`
+      : STAGE_LABELS.none,
+    ...diagnostics.hands.map(hand =>
+      `${hand.dominant ? '●' : '○'} ${hand.handedness.padEnd(5)} ${formatFingerVector(hand.fingersExtended)} aspect ${hand.aspectRatio.toFixed(2)}`
+    ),
+    ...diagnostics.candidates.map((candidate, i) =>
+      `${i + 1}. ${candidate.sign} ${candidate.score.toFixed(2)} ${candidate.source}${candidate.rule ? `:${candidate.rule}` : ''}`
+    ),
+    `classify ${diagnostics.timing.classifyMs.toFixed(1)} ms · inference ${Math.round(diagnostics.timing.inferenceMs)} ms · latency ${Math.round(diagnostics.timing.latencyMs)} ms`
+  ];
+
+  ctx.font = '12px ui-monospace, monospace';
+  const lineHeight = 16;
+  const boxWidth = Math.max(...lines.map(line => ctx.measureText(line).width)) + 16;
+  const boxTop = height - lines.length * lineHeight - 20;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect(8, boxTop, boxWidth, lines.length * lineHeight + 12);
+  ctx.fillStyle = '#ffffff';
+  lines.forEach((line, i) => ctx.fillText(line, 16, boxTop + 18 + i * lineHeight));
+};
 
 interface CameraFeedProps {
   isRecording: boolean;
   onToggleRecording: (recording: boolean) => void;
-  onInterpretation: (text: string) => void;
+  onInterpretation: (text: string, result?: DetectionResult) => void; // result is absent for simulated signs
   onSentenceAnalysis?: (analysis: string) => void;
 }
 
@@ -22,6 +104,14 @@ const CameraFeed = ({ isRecording, onToggleRecording, onInterpretation, onSenten
   const [isInitializingAI, setIsInitializingAI] = useState(false);
   const [cameraStarted, setCameraStarted] = useState(false);
   const [needsUserPlay, setNeedsUserPlay] = useState(false);
+  const [fingerspelling, setFingerspelling] = useState(signLanguageDetectionService.isFingerspellingMode());
+  const [faceAndBody, setFaceAndBody] = useState(signLanguageDetectionService.isHolisticMode());
+  const [performanceStats, setPerformanceStats] = useState<PerformanceStats | null>(null);
+  const [recordingLandmarks, setRecordingLandmarks] = useState(false);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [showTeachSign, setShowTeachSign] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [quality, setQuality] = useState<FrameQualityReport | null>(null);
 
   useEffect(() => {
     mountedRef.current = true;
@@ -49,6 +139,46 @@ const CameraFeed = ({ isRecording, onToggleRecording, onInterpretation, onSenten
     return () => clearTimeout(timer);
   }, []);
 
+  // Live FPS and latency from the detection performance governor
+  useEffect(() => {
+    if (!isRecording) {
+      setPerformanceStats(null);
+      return;
+    }
+    return signLanguageDetectionService.subscribePerformance(setPerformanceStats);
+  }, [isRecording]);
+
+  // Lighting and framing guidance; lighting is checked before detection starts too
+  useEffect(() => {
+    if (!hasCamera) {
+      setQuality(null);
+      return;
+    }
+    const unsubscribe = signLanguageDetectionService.subscribeQuality(setQuality);
+    if (isRecording) return unsubscribe;
+
+    const preflight = setInterval(() => {
+      if (videoRef.current) setQuality(signLanguageDetectionService.checkLighting(videoRef.current));
+    }, 1000);
+    return () => {
+      clearInterval(preflight);
+      unsubscribe();
+    };
+  }, [hasCamera, isRecording]);
+
+  // Debug overlay, redrawn for every processed frame
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const video = videoRef.current;
+    if (!showDiagnostics || !isRecording || !canvas || !video) return;
+
+    const unsubscribe = signLanguageDetectionService.subscribeDiagnostics(diagnostics => drawDiagnostics(canvas, video, diagnostics));
+    return () => {
+      unsubscribe();
+      drawDiagnostics(canvas, video, null);
+    };
+  }, [showDiagnostics, isRecording, hasCamera]);
+
   // Real sign language detection
   useEffect(() => {
     if (!isRecording || !hasCamera || !videoRef.current) return;
@@ -66,16 +196,9 @@ const CameraFeed = ({ isRecording, onToggleRecording, onInterpretation, onSenten
         if (onSentenceAnalysis) {
           onSentenceAnalysis(result.sign);
         }
-      } else if (result.gestureType === 'validated') {
-        // AI-validated result - higher confidence
-        if (result.confidence > 0.8) {
-          onInterpretation(result.sign);
-        }
-      } else {
-        // Regular sign detection
-        if (result.confidence > 0.7) { // Increased threshold for better accuracy
-          onInterpretation(result.sign);
-        }
+      } else if (signLanguageDetectionService.meetsThreshold(result)) {
+        // Per-class thresholds on calibrated confidence
+        onInterpretation(result.sign, result);
       }
     };
 
@@ -124,6 +247,29 @@ const CameraFeed = ({ isRecording, onToggleRecording, onInterpretation, onSenten
     onToggleRecording(!isRecording);
   };
 
+  const toggleFingerspelling = () => {
+    signLanguageDetectionService.setFingerspellingMode(!fingerspelling);
+    setFingerspelling(!fingerspelling);
+  };
+
+  const toggleLandmarkRecording = () => {
+    if (!recordingLandmarks) {
+      signLanguageDetectionService.startRecording(`landmarks-${new Date().toISOString().replace(/[:.]/g, '-')}`);
+      setRecordingLandmarks(true);
+      return;
+    }
+    const recording = signLanguageDetectionService.stopRecording();
+    setRecordingLandmarks(false);
+    if (recording && recording.frames.length > 0) {
+      downloadRecording(recording);
+    }
+  };
+
+  const toggleFaceAndBody = () => {
+    signLanguageDetectionService.setHolisticMode(!faceAndBody);
+    setFaceAndBody(!faceAndBody);
+  };
+
   const handleVideoClick = async () => {
     if (needsUserPlay && videoRef.current && mountedRef.current) {
       try {
@@ -369,12 +515,40 @@ const CameraFeed = ({ isRecording, onToggleRecording, onInterpretation, onSenten
             </span>
           </div>
         )}
+        {hasCamera && isRecording && performanceStats && (
+          <div
+            className="absolute top-4 right-4 bg-black bg-opacity-60 text-white text-xs font-mono px-3 py-1 rounded-full"
+            title={`Target ${performanceStats.targetFps} fps, inference ${performanceStats.inferenceMs} ms`}
+          >
+            {performanceStats.fps} fps · {performanceStats.latencyMs} ms · {performanceStats.modelComplexity === 1 ? 'Full' : 'Lite'} {performanceStats.frameWidth}px
+          </div>
+        )}
+        {hasCamera && quality && quality.issues.length > 0 && (
+          <div className="absolute top-14 inset-x-0 flex flex-col items-center space-y-1 pointer-events-none">
+            {quality.issues.map(issue => (
+              <div
+                key={issue.code}
+                className={`flex items-center space-x-2 text-white text-sm px-3 py-1 rounded-full ${
+                  issue.blocking ? 'bg-amber-600 bg-opacity-90' : 'bg-black bg-opacity-60'
+                }`}
+              >
+                <TriangleAlert className="h-4 w-4" />
+                <span>{issue.guidance}</span>
+              </div>
+            ))}
+            {isRecording && !quality.ok && (
+              <div className="text-xs text-white bg-black bg-opacity-60 px-3 py-1 rounded-full">
+                Interpretation paused until the picture improves
+              </div>
+            )}
+          </div>
+        )}
         {hasCamera && (
           <div className="absolute inset-0 border-4 border-dashed border-blue-400 opacity-50 m-8 rounded-lg pointer-events-none"></div>
         )}
       </div>
 
-      <div className="flex items-center justify-center space-x-4">
+      <div className="flex flex-wrap items-center justify-center gap-3">
         <button
           onClick={toggleRecording}
           disabled={!hasCamera || isLoading}
@@ -396,8 +570,70 @@ const CameraFeed = ({ isRecording, onToggleRecording, onInterpretation, onSenten
             </>
           )}
         </button>
+        <button
+          onClick={toggleFingerspelling}
+          className={`flex items-center space-x-2 px-4 py-3 rounded-xl font-medium transition-colors ${
+            fingerspelling ? 'bg-purple-100 text-purple-700' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+          title="Assemble fingerspelled letters into words"
+        >
+          <Hand className="h-4 w-4" />
+          <span>{fingerspelling ? 'Fingerspelling On' : 'Fingerspelling Off'}</span>
+        </button>
+        <button
+          onClick={toggleFaceAndBody}
+          className={`flex items-center space-x-2 px-4 py-3 rounded-xl font-medium transition-colors ${
+            faceAndBody ? 'bg-purple-100 text-purple-700' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+          title="Track face and body for questions, negation and sign location"
+        >
+          <ScanFace className="h-4 w-4" />
+          <span>{faceAndBody ? 'Face & Body On' : 'Face & Body Off'}</span>
+        </button>
+        <button
+          onClick={toggleLandmarkRecording}
+          disabled={!isRecording && !recordingLandmarks}
+          className={`flex items-center space-x-2 px-4 py-3 rounded-xl font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+            recordingLandmarks ? 'bg-red-100 text-red-700' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+          title="Record hand landmarks to a JSON file for replay testing"
+        >
+          <CircleDot className={`h-4 w-4 ${recordingLandmarks ? 'animate-pulse' : ''}`} />
+          <span>{recordingLandmarks ? 'Save Landmarks' : 'Record Landmarks'}</span>
+        </button>
+        <button
+          onClick={() => setShowCalibration(true)}
+          disabled={!hasCamera}
+          className="flex items-center space-x-2 px-4 py-3 rounded-xl font-medium transition-colors bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Adapt recognition to your hand and camera angle"
+        >
+          <Crosshair className="h-4 w-4" />
+          <span>Calibrate</span>
+        </button>
+        <button
+          onClick={() => setShowTeachSign(true)}
+          disabled={!hasCamera}
+          className="flex items-center space-x-2 px-4 py-3 rounded-xl font-medium transition-colors bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Teach the recognizer a local or name sign from a few examples"
+        >
+          <GraduationCap className="h-4 w-4" />
+          <span>Teach Sign</span>
+        </button>
+        <button
+          onClick={() => setShowDiagnostics(!showDiagnostics)}
+          className={`flex items-center space-x-2 px-4 py-3 rounded-xl font-medium transition-colors ${
+            showDiagnostics ? 'bg-purple-100 text-purple-700' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+          title="Overlay the hand skeleton, finger states, matched rule and top candidates"
+        >
+          <Bug className="h-4 w-4" />
+          <span>{showDiagnostics ? 'Debug Overlay On' : 'Debug Overlay Off'}</span>
+        </button>
       </div>
 
+      <CalibrationWizard open={showCalibration} onOpenChange={setShowCalibration} detectionRunning={isRecording} />
+      <TeachSignDialog open={showTeachSign} onOpenChange={setShowTeachSign} detectionRunning={isRecording} />
+
       <div className="mt-4 text-sm text-gray-600 text-center">
         {hasCamera
           ? "Position your hands within the dashed frame for optimal detection. AI-powered recognition with OpenAI sentence analysis active!"
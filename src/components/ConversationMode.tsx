@@ -0,0 +1,265 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Download, FlipVertical2, Hand, Keyboard, Languages, Mic, RotateCcw, Save, Volume2, VolumeX } from 'lucide-react';
+import { toast } from 'sonner';
+import CameraFeed from './CameraFeed';
+import SpeechToSignPanel from './SpeechToSignPanel';
+import { Input } from './ui/input';
+import { useAuth } from '../hooks/useAuth';
+import { useSignTranslation } from '../hooks/useSignTranslation';
+import { saveConversation } from '../services/mongoApi';
+import {
+  ConversationDocument,
+  ConversationModality,
+  ConversationSession,
+  SPEAKER_LABELS,
+  formatConversationText,
+  serializeConversation
+} from '../services/conversation';
+import { glossForPlan, SignPlaybackItem, SPEECH_LANGUAGES } from '../services/speechToSign';
+import { textToSpeechService } from '../services/textToSpeech';
+import { SPEECH_VOICES } from '../services/tts';
+import type { TargetLanguage, TranslationResult } from '../services/translation';
+import type { SignLanguageCode } from '../services/recognizers';
+import type { IConversationTurn } from '../lib/mongo';
+
+const MODALITY_ICONS: Record<ConversationModality, typeof Hand> = {
+  sign: Hand,
+  speech: Mic,
+  text: Keyboard
+};
+
+// Save the transcript as a file
+const downloadConversation = (conversation: ConversationDocument, format: 'txt' | 'json') => {
+  const content = format === 'json' ? serializeConversation(conversation) : formatConversationText(conversation);
+  const blob = new Blob([content], { type: format === 'json' ? 'application/json' : 'text/plain' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${conversation.title.replace(/[^\w-]+/g, '-')}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+
+interface ConversationModeProps {
+  signLanguage: SignLanguageCode;
+}
+
+// Face-to-face conversation between a signer and a hearing participant: the
+// signer's camera on one side, the hearing participant's microphone and the
+// signs played back to the signer on the other, with a shared turn-by-turn transcript
+const ConversationMode = ({ signLanguage }: ConversationModeProps) => {
+  const { user } = useAuth();
+  const [session] = useState(() => new ConversationSession(signLanguage));
+  const [turns, setTurns] = useState<IConversationTurn[]>([]);
+  const [title, setTitle] = useState(() => session.getTitle());
+  const [isRecording, setIsRecording] = useState(false);
+  const [targetLanguage, setTargetLanguage] = useState<TargetLanguage>('en');
+  const [autoSpeak, setAutoSpeak] = useState(true);
+  const [faceToFace, setFaceToFace] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [speaking, setSpeaking] = useState(false);
+  const speechId = useRef(0); // Only the latest turn being read out clears `speaking`
+  const { latest } = useSignTranslation(targetLanguage, false);
+  const recordedTranslation = useRef<TranslationResult | null>(null);
+  const transcriptEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => session.subscribe(setTurns), [session]);
+
+  useEffect(() => {
+    session.setSignLanguage(signLanguage);
+  }, [session, signLanguage]);
+
+  useEffect(() => {
+    transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [turns]);
+
+  // Each finished signed sentence becomes a signer turn, read aloud for the hearing participant
+  useEffect(() => {
+    if (!latest || latest === recordedTranslation.current) return;
+    recordedTranslation.current = latest;
+    const turn = session.addTurn({
+      speaker: 'signer',
+      modality: 'sign',
+      gloss: latest.gloss,
+      text: latest.text,
+      language: latest.language,
+      confidence: latest.confidence
+    });
+    if (turn && autoSpeak && turn.text) {
+      // The microphone is paused meanwhile so the reading is not heard as a hearing turn
+      const id = ++speechId.current;
+      setSpeaking(true);
+      textToSpeechService.speak(turn.text, { lang: SPEECH_VOICES[latest.language] })
+        .catch(console.error)
+        .finally(() => {
+          if (speechId.current === id) setSpeaking(false);
+        });
+    }
+  }, [latest, session, autoSpeak]);
+
+  const handleUtterance = useCallback((text: string, plan: SignPlaybackItem[], modality: 'speech' | 'text') => {
+    session.addTurn({
+      speaker: 'hearing',
+      modality,
+      gloss: glossForPlan(plan),
+      text,
+      language: SPEECH_LANGUAGES[signLanguage].split('-')[0]
+    });
+  }, [session, signLanguage]);
+
+  const handleSave = async () => {
+    if (!user) {
+      toast.error('Sign in to save conversations');
+      return;
+    }
+    session.setTitle(title);
+    setSaving(true);
+    try {
+      const saved = await saveConversation(session.toDocument());
+      session.setSavedId(saved.id);
+      toast.success('Conversation saved');
+    } catch (error) {
+      console.error('Failed to save conversation:', error);
+      toast.error('Failed to save conversation');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleExport = (format: 'txt' | 'json') => {
+    session.setTitle(title);
+    downloadConversation(session.toDocument(), format);
+  };
+
+  const handleNewConversation = () => {
+    session.clear();
+    setTitle(session.getTitle());
+    textToSpeechService.stop();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white/60 backdrop-blur-sm rounded-2xl p-4 border border-gray-200 flex flex-wrap items-center gap-3">
+        <Input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onBlur={() => session.setTitle(title)}
+          className="max-w-xs"
+          aria-label="Conversation title"
+        />
+        <div className="flex items-center gap-2 ml-auto">
+          <button
+            onClick={() => setTargetLanguage(targetLanguage === 'en' ? 'sw' : 'en')}
+            className="flex items-center space-x-1 p-2 rounded-lg bg-gray-100 text-gray-600 hover:bg-gray-200 transition-colors"
+            title="Language the signer is translated into"
+          >
+            <Languages className="h-4 w-4" />
+            <span className="text-xs font-medium uppercase">{targetLanguage}</span>
+          </button>
+          <button
+            onClick={() => setAutoSpeak(!autoSpeak)}
+            className={`p-2 rounded-lg transition-colors ${autoSpeak ? 'bg-green-100 text-green-600' : 'bg-gray-100 text-gray-600'}`}
+            title={autoSpeak ? 'Signed turns are read aloud' : 'Signed turns are not read aloud'}
+          >
+            {autoSpeak ? <Volume2 className="h-4 w-4" /> : <VolumeX className="h-4 w-4" />}
+          </button>
+          <button
+            onClick={() => setFaceToFace(!faceToFace)}
+            className={`p-2 rounded-lg transition-colors ${faceToFace ? 'bg-blue-100 text-blue-600' : 'bg-gray-100 text-gray-600'}`}
+            title="Face to face: turn the hearing participant's side upside down for a device lying flat between you"
+          >
+            <FlipVertical2 className="h-4 w-4" />
+          </button>
+          <button
+            onClick={handleNewConversation}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+            title="New conversation"
+          >
+            <RotateCcw className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => handleExport('txt')}
+            disabled={turns.length === 0}
+            className="flex items-center space-x-1 px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors text-sm disabled:opacity-50"
+          >
+            <Download className="h-4 w-4" />
+            <span>Text</span>
+          </button>
+          <button
+            onClick={() => handleExport('json')}
+            disabled={turns.length === 0}
+            className="flex items-center space-x-1 px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors text-sm disabled:opacity-50"
+          >
+            <Download className="h-4 w-4" />
+            <span>JSON</span>
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={turns.length === 0 || saving}
+            className="flex items-center space-x-1 px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors text-sm disabled:opacity-50"
+          >
+            <Save className="h-4 w-4" />
+            <span>{saving ? 'Saving…' : 'Save'}</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-blue-700 uppercase tracking-wide">{SPEAKER_LABELS.signer}</h3>
+          <CameraFeed
+            isRecording={isRecording}
+            onToggleRecording={setIsRecording}
+            onInterpretation={() => undefined}
+          />
+        </div>
+        <div className={`space-y-3 transition-transform ${faceToFace ? 'rotate-180' : ''}`}>
+          <h3 className="text-sm font-semibold text-green-700 uppercase tracking-wide">{SPEAKER_LABELS.hearing}</h3>
+          <SpeechToSignPanel signLanguage={signLanguage} onUtterance={handleUtterance} paused={speaking} />
+        </div>
+      </div>
+
+      {/* Transcript */}
+      <div className="bg-white/60 backdrop-blur-sm rounded-2xl p-6 border border-gray-200">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Transcript</h3>
+        <div className="space-y-3 max-h-96 overflow-y-auto">
+          {turns.length > 0 ? (
+            turns.map(turn => {
+              const Icon = MODALITY_ICONS[turn.modality];
+              const isSigner = turn.speaker === 'signer';
+              return (
+                <div key={turn.id} className={`flex ${isSigner ? 'justify-start' : 'justify-end'}`}>
+                  <div
+                    className={`max-w-[80%] rounded-xl px-4 py-3 border ${
+                      isSigner ? 'bg-blue-50 border-blue-200' : 'bg-green-50 border-green-200'
+                    }`}
+                  >
+                    <div className="flex items-center space-x-2 text-xs text-gray-500 mb-1">
+                      <Icon className="h-3 w-3" />
+                      <span>{SPEAKER_LABELS[turn.speaker]}</span>
+                      <span>·</span>
+                      <span>{formatTime(turn.timestamp)}</span>
+                      {turn.confidence !== undefined && <span>· {Math.round(turn.confidence * 100)}%</span>}
+                    </div>
+                    <p className="text-gray-900">{turn.text}</p>
+                    {turn.gloss && <p className="text-xs text-gray-400 font-mono mt-1">{turn.gloss}</p>}
+                  </div>
+                </div>
+              );
+            })
+          ) : (
+            <p className="text-gray-400 text-sm italic text-center py-4">
+              Start the camera to sign, or listen to the hearing participant, to begin the conversation
+            </p>
+          )}
+          <div ref={transcriptEndRef} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConversationMode;
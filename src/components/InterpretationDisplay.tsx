@@ -1,39 +1,71 @@
 
-import { useEffect, useState } from 'react';
-import { Volume2, Copy, RotateCcw, VolumeX } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { Volume2, Copy, RotateCcw, VolumeX, Languages, Sparkles, Download } from 'lucide-react';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger } from './ui/dropdown-menu';
 import { textToSpeechService } from '../services/textToSpeech';
+import { SIGN_LANGUAGE_VOICES, SPEECH_VOICES } from '../services/tts';
+import { signLanguageDetectionService } from '../services/signLanguageDetection';
+import { buildTranscriptCues, exportTranscript, TranscriptExportFormat, TRANSCRIPT_FORMATS } from '../services/transcriptExport';
+import { useTranscript } from '../hooks/useTranscript';
+import { useSignTranslation } from '../hooks/useSignTranslation';
+import { TargetLanguage, TranslationResult } from '../services/translation';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Save the session transcript in one of the export formats
+const downloadTranscript = (blob: Blob, startedAt: number | null, extension: string) => {
+  const date = new Date(startedAt ?? Date.now());
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `transcript-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}.${extension}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
 
 interface InterpretationDisplayProps {
   interpretedText: string;
   isRecording: boolean;
+  speechEnabled?: boolean; // The text-to-speech setting; off disables auto-speak
 }
 
-const InterpretationDisplay = ({ interpretedText, isRecording }: InterpretationDisplayProps) => {
+const InterpretationDisplay = ({ interpretedText, isRecording, speechEnabled = true }: InterpretationDisplayProps) => {
   const [textHistory, setTextHistory] = useState<string[]>([]);
   const [currentText, setCurrentText] = useState('');
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [autoSpeak, setAutoSpeak] = useState(true);
+  const [targetLanguage, setTargetLanguage] = useState<TargetLanguage>('en');
+  const [refineTranslations, setRefineTranslations] = useState(false);
+  const { segments, clear: clearTranscript } = useTranscript();
+  const { draft, latest, translations } = useSignTranslation(targetLanguage, refineTranslations);
+  const lastSpokenTranslation = useRef<TranslationResult | null>(null);
 
   useEffect(() => {
     if (interpretedText && interpretedText !== currentText) {
       setCurrentText(interpretedText);
       setTextHistory(prev => [...prev.slice(-4), interpretedText]);
-      
-      // Auto-speak new interpretations if enabled
-      if (autoSpeak && interpretedText.trim()) {
-        speakText(interpretedText);
-      }
     }
-  }, [interpretedText, currentText, autoSpeak]);
+  }, [interpretedText, currentText]);
+
+  // Auto-speak says each finished sentence once, in the translation language. Single
+  // signs are not spoken as they arrive: the sentence they belong to would cut them off.
+  useEffect(() => {
+    if (!latest || latest === lastSpokenTranslation.current) return;
+    lastSpokenTranslation.current = latest;
+    if (autoSpeak && speechEnabled && latest.text.trim()) {
+      speakText(latest.text, SPEECH_VOICES[latest.language]);
+    }
+  }, [latest, autoSpeak, speechEnabled]);
 
-  const speakText = async (text: string) => {
+  // Recognised signs are spoken in the voice of the active sign language
+  const speakText = async (text: string, lang: string = SIGN_LANGUAGE_VOICES[signLanguageDetectionService.getRecognizer().code]) => {
     try {
       setIsSpeaking(true);
       await textToSpeechService.speak(text, {
         rate: 0.9,
         pitch: 1.0,
         volume: 1.0,
-        lang: 'en-US'
+        lang
       });
     } catch (error) {
       console.error('Text-to-speech error:', error);
@@ -55,9 +87,25 @@ const InterpretationDisplay = ({ interpretedText, isRecording }: InterpretationD
     }
   };
 
+  // Captions are timed from when detection started, so they line up with a recording made alongside
+  const handleExport = (format: TranscriptExportFormat) => {
+    const startedAt = signLanguageDetectionService.getTranscript().getStartTime();
+    const cues = buildTranscriptCues(segments, translations, startedAt);
+    const meta = {
+      title: 'Interpreted Session Transcript',
+      signLanguage: signLanguageDetectionService.getRecognizer().label,
+      startedAt
+    };
+    const { extension } = TRANSCRIPT_FORMATS.find(item => item.format === format)!;
+    downloadTranscript(exportTranscript(cues, meta, format), startedAt, extension);
+  };
+
+  const hasTranscript = segments.some(segment => segment.tokens.length > 0);
+
   const clearHistory = () => {
     setTextHistory([]);
     setCurrentText('');
+    clearTranscript();
     stopSpeaking();
   };
 
@@ -66,6 +114,23 @@ const InterpretationDisplay = ({ interpretedText, isRecording }: InterpretationD
       <div className="flex items-center justify-between mb-4">
         <h3 className="text-lg font-semibold text-gray-900">Interpretation Output</h3>
         <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setTargetLanguage(targetLanguage === 'en' ? 'sw' : 'en')}
+            className="flex items-center space-x-1 p-2 rounded-lg bg-gray-100 text-gray-600 hover:bg-gray-200 transition-colors"
+            title="Translation language"
+          >
+            <Languages className="h-4 w-4" />
+            <span className="text-xs font-medium uppercase">{targetLanguage}</span>
+          </button>
+          <button
+            onClick={() => setRefineTranslations(!refineTranslations)}
+            className={`p-2 rounded-lg transition-colors ${
+              refineTranslations ? 'bg-purple-100 text-purple-600' : 'bg-gray-100 text-gray-600'
+            }`}
+            title={refineTranslations ? 'AI refinement enabled (requires sign in)' : 'AI refinement disabled'}
+          >
+            <Sparkles className="h-4 w-4" />
+          </button>
           <button
             onClick={() => setAutoSpeak(!autoSpeak)}
             className={`p-2 rounded-lg transition-colors ${
@@ -75,6 +140,25 @@ const InterpretationDisplay = ({ interpretedText, isRecording }: InterpretationD
           >
             {autoSpeak ? <Volume2 className="h-4 w-4" /> : <VolumeX className="h-4 w-4" />}
           </button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button
+                disabled={!hasTranscript}
+                className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+                title="Export transcript"
+              >
+                <Download className="h-4 w-4" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Export transcript</DropdownMenuLabel>
+              {TRANSCRIPT_FORMATS.map(({ format, label }) => (
+                <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+                  {label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
           <button
             onClick={clearHistory}
             className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
@@ -146,6 +230,55 @@ const InterpretationDisplay = ({ interpretedText, isRecording }: InterpretationD
         </div>
       </div>
 
+      {/* Translation */}
+      {(latest || draft) && (
+        <div className="mb-6 p-4 bg-white rounded-xl border border-green-200">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium text-gray-600">Translation</span>
+            {latest && (
+              <span className="text-xs text-gray-500">
+                {latest.method === 'llm' ? 'AI refined' : 'Grammar rules'} · {Math.round(latest.confidence * 100)}%
+              </span>
+            )}
+          </div>
+          {draft && (
+            <p className="text-sm text-gray-500 italic mb-1">{draft.text}</p>
+          )}
+          {latest && (
+            <div className="flex items-start justify-between space-x-2">
+              <div>
+                <p className="text-lg font-medium text-gray-900">{latest.text}</p>
+                <p className="text-xs text-gray-400 font-mono mt-1">{latest.gloss}</p>
+              </div>
+              <button
+                onClick={() => speakText(latest.text, SPEECH_VOICES[latest.language])}
+                className="p-1 text-gray-500 hover:text-blue-600 transition-colors"
+                title="Speak"
+              >
+                <Volume2 className="h-4 w-4" />
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Transcript */}
+      {segments.length > 0 && (
+        <div className="space-y-2 mb-6">
+          <h4 className="text-sm font-medium text-gray-700">Transcript</h4>
+          <div className="space-y-1 max-h-32 overflow-y-auto">
+            {segments.slice(-3).map(segment => (
+              <p
+                key={segment.id}
+                className={`text-sm ${segment.closed ? 'text-gray-500' : 'text-gray-900 font-medium'}`}
+              >
+                {segment.tokens.map(token => token.sign).join(' ')}
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* History */}
       <div className="space-y-3">
         <h4 className="text-sm font-medium text-gray-700">Recent Interpretations</h4>
@@ -187,7 +320,7 @@ const InterpretationDisplay = ({ interpretedText, isRecording }: InterpretationD
       <div className="mt-6 p-4 bg-blue-50 rounded-lg border border-blue-200">
         <p className="text-sm text-blue-800">
           <strong>AI-Powered Recognition:</strong> Using MediaPipe Hands for real-time gesture detection with automatic text-to-speech output.
-          {autoSpeak && ' Auto-speak is enabled for new detections.'}
+          {autoSpeak && speechEnabled && ' Auto-speak is enabled for new translations.'}
         </p>
       </div>
     </div>
@@ -1,11 +1,13 @@
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { BookOpen, Play, CheckCircle, Star } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
 import { useNavigate } from 'react-router-dom';
 import { getLessons, getStudentProgress, getSigns } from '../services/mongoApi';
 import { useAuth } from '../hooks/useAuth';
 import { ILesson, ISign } from '../lib/mongo';
+import { hasSignAnimation } from '../services/signAvatar';
+import SignAvatar from './SignAvatar';
 
 const LearningModule = () => {
   const [selectedLesson, setSelectedLesson] = useState<number | null>(null);
@@ -50,13 +52,13 @@ const LearningModule = () => {
   const inProgressLessons = Math.max(0, lessons.length - completedLessons);
   const overallProgress = progressData ? Math.round(((progressData as any).recent_avg_accuracy || (progressData as any).accuracy_rate) * 100) : 0;
 
-  // Quick practice logic
-  const getRandomSign = () => {
+  // Quick practice logic; prefer signs the avatar can perform
+  const currentSign = useMemo(() => {
     if (!signsData || signsData.length === 0) return null;
-    return signsData[Math.floor(Math.random() * signsData.length)];
-  };
-
-  const currentSign = getRandomSign();
+    const animated = signsData.filter(hasSignAnimation);
+    const pool = animated.length > 0 ? animated : signsData;
+    return pool[Math.floor(Math.random() * pool.length)];
+  }, [signsData]);
   const signEmojiMap: { [key: string]: string } = {
     'Hello': '👋',
     'Thank you': '🙏',
@@ -327,7 +329,11 @@ const LearningModule = () => {
             <p className="text-red-600">Failed to load practice signs. Please try again later.</p>
           ) : currentSign ? (
             <div className="space-y-4">
-              <div className="text-4xl font-bold text-gray-800">{getSignEmoji(currentSign.name)}</div>
+              {hasSignAnimation(currentSign) ? (
+                <SignAvatar landmarkData={currentSign.landmark_data} className="max-w-sm mx-auto" />
+              ) : (
+                <div className="text-4xl font-bold text-gray-800">{getSignEmoji(currentSign.name)}</div>
+              )}
               <p className="text-lg">What does this sign mean?</p>
               <div className="flex justify-center space-x-4">
                 {quickPracticeOptions.map((option, index) => (
@@ -0,0 +1,205 @@
+import { PointerEvent, useEffect, useMemo, useRef, useState } from 'react';
+import { FlipHorizontal2, Hand, Pause, Play, RotateCcw } from 'lucide-react';
+import { Slider } from './ui/slider';
+import {
+  AvatarView,
+  DEFAULT_AVATAR_VIEW,
+  parseSignAnimation,
+  renderSignAvatar,
+  sampleSignAnimation
+} from '../services/signAvatar';
+
+const SPEEDS = [0.25, 0.5, 1];
+// Pause between loops so the start of the sign is easy to see
+const LOOP_PAUSE_MS = 600;
+
+interface SignAvatarProps {
+  landmarkData: unknown; // ISign.landmark_data in any stored format
+  autoPlay?: boolean;
+  loop?: boolean;
+  controls?: boolean; // Play, speed and angle controls; drag to rotate works either way
+  onEnded?: () => void; // Called once when a non-looping sign finishes
+  className?: string;
+}
+
+// Hand and forearm avatar that performs a sign from its landmark track
+const SignAvatar = ({ landmarkData, autoPlay = true, loop = true, controls = true, onEnded, className = '' }: SignAvatarProps) => {
+  const animation = useMemo(() => parseSignAnimation(landmarkData), [landmarkData]);
+  const [playing, setPlaying] = useState(autoPlay);
+  const [speed, setSpeed] = useState(1);
+  const [view, setView] = useState<AvatarView>(DEFAULT_AVATAR_VIEW);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const progressRef = useRef<HTMLDivElement>(null);
+  const timeRef = useRef(0);
+  const dragRef = useRef<{ x: number; y: number; view: AvatarView } | null>(null);
+
+  // The render loop reads the latest settings without restarting
+  const settingsRef = useRef({ playing, speed, view, loop, onEnded });
+  settingsRef.current = { playing, speed, view, loop, onEnded };
+
+  useEffect(() => {
+    timeRef.current = 0;
+  }, [animation]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !animation) return;
+
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const settings = settingsRef.current;
+      const elapsed = now - last;
+      last = now;
+
+      // Match the backing store to the displayed size for crisp lines
+      const width = Math.round(canvas.clientWidth * window.devicePixelRatio);
+      const height = Math.round(canvas.clientHeight * window.devicePixelRatio);
+      if (width > 0 && (canvas.width !== width || canvas.height !== height)) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+
+      if (settings.playing) {
+        timeRef.current += elapsed * settings.speed;
+        const end = animation.durationMs + (settings.loop ? LOOP_PAUSE_MS : 0);
+        if (timeRef.current >= end) {
+          if (settings.loop) {
+            timeRef.current = 0;
+          } else {
+            timeRef.current = animation.durationMs;
+            settings.playing = false; // Until the state update lands
+            setPlaying(false);
+            settings.onEnded?.();
+          }
+        }
+      }
+
+      const position = Math.min(timeRef.current, animation.durationMs);
+      renderSignAvatar(ctx, animation, sampleSignAnimation(animation, position), settings.view);
+      if (progressRef.current) {
+        progressRef.current.style.width = `${(position / animation.durationMs) * 100}%`;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [animation]);
+
+  const togglePlaying = () => {
+    if (!playing && animation && timeRef.current >= animation.durationMs) {
+      timeRef.current = 0;
+    }
+    setPlaying(!playing);
+  };
+
+  const restart = () => {
+    timeRef.current = 0;
+    setPlaying(true);
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { x: event.clientX, y: event.clientY, view };
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    setView({
+      ...drag.view,
+      yaw: Math.max(-90, Math.min(90, drag.view.yaw + (event.clientX - drag.x) / 2)),
+      pitch: Math.max(-60, Math.min(60, drag.view.pitch + (event.clientY - drag.y) / 2))
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  if (!animation) {
+    return (
+      <div className={`bg-gray-100 rounded-lg flex flex-col items-center justify-center text-gray-400 ${className}`}>
+        <Hand className="h-10 w-10 mb-2" />
+        <p className="text-sm">No landmark data for this sign</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="relative bg-gradient-to-b from-slate-800 to-slate-900 rounded-lg overflow-hidden">
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onDoubleClick={() => setView(DEFAULT_AVATAR_VIEW)}
+          className="w-full aspect-[4/3] cursor-grab active:cursor-grabbing touch-none"
+          title="Drag to rotate, double-click to reset the angle"
+        />
+        <div className="absolute bottom-0 inset-x-0 h-1 bg-white/10">
+          <div ref={progressRef} className="h-full bg-blue-400" />
+        </div>
+      </div>
+
+      {controls && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={togglePlaying}
+              className="p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              title={playing ? 'Pause' : 'Play'}
+            >
+              {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+            </button>
+            <button
+              onClick={restart}
+              className="p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors"
+              title="Replay from the start"
+            >
+              <RotateCcw className="h-4 w-4" />
+            </button>
+            <div className="flex items-center bg-gray-100 rounded-lg p-1">
+              {SPEEDS.map(value => (
+                <button
+                  key={value}
+                  onClick={() => setSpeed(value)}
+                  className={`px-2 py-1 text-xs rounded-md transition-colors ${
+                    speed === value ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {value}×
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => setView({ ...view, mirror: !view.mirror })}
+              className={`p-2 rounded-lg transition-colors ${
+                view.mirror ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:text-gray-800 hover:bg-gray-100'
+              }`}
+              title="Mirror, to copy the sign as if facing a mirror"
+            >
+              <FlipHorizontal2 className="h-4 w-4" />
+            </button>
+          </div>
+          <div className="flex items-center gap-3">
+            <span className="text-xs text-gray-500 w-12">Angle</span>
+            <Slider
+              value={[view.yaw]}
+              min={-90}
+              max={90}
+              step={5}
+              onValueChange={([yaw]) => setView({ ...view, yaw })}
+            />
+            <span className="text-xs text-gray-500 w-10 text-right">{Math.round(view.yaw)}°</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SignAvatar;
@@ -1,4 +1,4 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Textarea } from './ui/textarea';
@@ -6,8 +6,12 @@ import { Label } from './ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
+import { Progress } from './ui/progress';
 import { X, Upload, Video, Image as ImageIcon } from 'lucide-react';
 import { uploadSign } from '../services/mongoApi';
+import { signLanguageDetectionService } from '../services/signLanguageDetection';
+import { landmarkDataFromRecording } from '../services/videoRecognition';
+import type { SignLanguageCode } from '../services/recognizers';
 import { useAuth } from '../hooks/useAuth';
 import { toast } from 'sonner';
 
@@ -31,6 +35,8 @@ export const SignUploadForm: React.FC<SignUploadFormProps> = ({ onSuccess, onCan
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [landmarkData, setLandmarkData] = useState<any>(null);
   const [isUploading, setIsUploading] = useState(false);
+  const [extraction, setExtraction] = useState<{ progress: number; frames?: number; signs?: string[]; error?: string } | null>(null);
+  const extractionRef = useRef<AbortController | null>(null);
   const videoInputRef = useRef<HTMLInputElement>(null);
   const imageInputRef = useRef<HTMLInputElement>(null);
 
@@ -76,9 +82,44 @@ export const SignUploadForm: React.FC<SignUploadFormProps> = ({ onSuccess, onCan
     }));
   };
 
+  useEffect(() => () => extractionRef.current?.abort(), []);
+
+  // Hand landmarks are generated from the video in the browser and uploaded as landmark_data
+  const extractLandmarks = async (file: File | null) => {
+    extractionRef.current?.abort();
+    setLandmarkData(null);
+    setExtraction(null);
+    if (!file) return;
+
+    const controller = new AbortController();
+    extractionRef.current = controller;
+    setExtraction({ progress: 0 });
+    try {
+      const result = await signLanguageDetectionService.recognizeVideo(file, {
+        ...(formData.language ? { signLanguage: formData.language as SignLanguageCode } : {}),
+        signal: controller.signal,
+        onProgress: ({ positionMs, durationMs }) => setExtraction({ progress: durationMs ? positionMs / durationMs : 1 })
+      });
+      if (controller.signal.aborted) return;
+
+      const data = landmarkDataFromRecording(result.recording);
+      if (data.frames.length === 0) {
+        setExtraction({ progress: 1, error: 'No hands were found in this video, so it will be uploaded without landmarks.' });
+        return;
+      }
+      setLandmarkData(data);
+      setExtraction({ progress: 1, frames: data.frames.length, signs: result.report.signs });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Landmark extraction failed:', error);
+      setExtraction({ progress: 0, error: 'Hand landmarks could not be extracted, so the video will be uploaded without them.' });
+    }
+  };
+
   const handleFileSelect = (type: 'video' | 'image', file: File | null) => {
     if (type === 'video') {
       setVideoFile(file);
+      extractLandmarks(file);
     } else {
       setImageFile(file);
     }
@@ -279,6 +320,23 @@ export const SignUploadForm: React.FC<SignUploadFormProps> = ({ onSuccess, onCan
                     Selected: {videoFile.name}
                   </div>
                 )}
+                {extraction && (
+                  <div className="mt-3 space-y-2 text-left text-sm">
+                    {extraction.error ? (
+                      <p className="text-amber-700">{extraction.error}</p>
+                    ) : extraction.frames === undefined ? (
+                      <>
+                        <p className="text-gray-600">Extracting hand landmarks… {Math.round(extraction.progress * 100)}%</p>
+                        <Progress value={extraction.progress * 100} />
+                      </>
+                    ) : (
+                      <p className="text-gray-600">
+                        Hand landmarks extracted from {extraction.frames} frames
+                        {extraction.signs && extraction.signs.length > 0 && ` · recognised as: ${extraction.signs.join(', ')}`}
+                      </p>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
 
@@ -0,0 +1,259 @@
+import { FormEvent, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Mic, MicOff, RotateCcw, SkipForward } from 'lucide-react';
+import { toast } from 'sonner';
+import { Input } from './ui/input';
+import { Button } from './ui/button';
+import SignAvatar from './SignAvatar';
+import { getSigns } from '../services/mongoApi';
+import {
+  SignPlanner,
+  SignPlaybackItem,
+  SPEECH_LANGUAGES,
+  SpeechRecognitionAdapter,
+  createSpeechRecognitionAdapter
+} from '../services/speechToSign';
+import type { SignLanguageCode } from '../services/recognizers';
+import { hasSignAnimation } from '../services/signAvatar';
+import type { ISign } from '../lib/mongo';
+
+// How long a letter without its own clip stays on screen
+const LETTER_MS = 700;
+
+interface SpeechToSignPanelProps {
+  signLanguage: SignLanguageCode;
+  adapter?: SpeechRecognitionAdapter | null; // Defaults to the browser's speech recognition
+  onUtterance?: (text: string, plan: SignPlaybackItem[], modality: 'speech' | 'text') => void;
+  paused?: boolean; // The microphone is switched off while set, e.g. while the app itself is speaking
+}
+
+// Reverse mode: what the hearing person says is played back as signs
+const SpeechToSignPanel = ({ signLanguage, adapter: adapterProp, onUtterance, paused = false }: SpeechToSignPanelProps) => {
+  const adapter = useMemo(() => (adapterProp === undefined ? createSpeechRecognitionAdapter() : adapterProp), [adapterProp]);
+  const [signs, setSigns] = useState<ISign[]>([]);
+  const [listening, setListening] = useState(false);
+  const [interim, setInterim] = useState('');
+  const [heard, setHeard] = useState<string[]>([]);
+  const [queue, setQueue] = useState<SignPlaybackItem[]>([]);
+  const [letterIndex, setLetterIndex] = useState(0);
+  const [step, setStep] = useState(0); // Remounts the clip even when the same sign plays twice
+  const [typed, setTyped] = useState('');
+  const planner = useMemo(() => new SignPlanner(signs, signLanguage), [signs, signLanguage]);
+  const plannerRef = useRef(planner);
+  plannerRef.current = planner;
+  const pausedRef = useRef(paused);
+  pausedRef.current = paused;
+
+  const current = queue[0] ?? null;
+  const letter = current?.kind === 'fingerspell' ? current.letters[letterIndex] ?? null : null;
+  const clip = current?.kind === 'sign' ? current.sign : letter?.sign ?? null;
+
+  useEffect(() => {
+    getSigns()
+      .then(setSigns)
+      .catch(error => console.warn('Failed to load signs for speech-to-sign:', error));
+  }, []);
+
+  useEffect(() => () => adapter?.stop(), [adapter]);
+
+  const enqueue = (text: string, modality: 'speech' | 'text') => {
+    if (!text.trim()) return;
+    const plan = plannerRef.current.plan(text);
+    setHeard(previous => [...previous.slice(-4), text]);
+    setQueue(previous => [...previous, ...plan]);
+    onUtterance?.(text, plan, modality);
+  };
+
+  const startAdapter = () => {
+    adapter?.start(SPEECH_LANGUAGES[signLanguage], {
+      onResult: result => {
+        // Late results from before a pause would be the app's own voice
+        if (pausedRef.current) return;
+        if (result.isFinal) {
+          setInterim('');
+          enqueue(result.text, 'speech');
+        } else {
+          setInterim(result.text);
+        }
+      },
+      onError: message => toast.error(message),
+      onEnd: () => {
+        // Pausing stops the recogniser but not listening; it restarts when the pause ends
+        if (pausedRef.current) return;
+        setListening(false);
+        setInterim('');
+      }
+    });
+  };
+
+  const startAdapterRef = useRef(startAdapter);
+  startAdapterRef.current = startAdapter;
+
+  // The recogniser is stopped for the pause rather than muted, since it restarts itself
+  useEffect(() => {
+    if (!adapter || !listening) return;
+    if (paused) {
+      adapter.stop();
+      setInterim('');
+    } else if (!adapter.isListening()) {
+      startAdapterRef.current();
+    }
+  }, [adapter, listening, paused]);
+
+  const toggleListening = () => {
+    if (!adapter) return;
+    if (listening) {
+      adapter.stop();
+      setListening(false);
+      setInterim('');
+      return;
+    }
+    if (!paused) startAdapter();
+    setListening(true);
+  };
+
+  const submitTyped = (event: FormEvent) => {
+    event.preventDefault();
+    enqueue(typed, 'text');
+    setTyped('');
+  };
+
+  const nextItem = useCallback(() => {
+    setLetterIndex(0);
+    setStep(value => value + 1);
+    setQueue(previous => previous.slice(1));
+  }, []);
+
+  const advance = useCallback(() => {
+    if (current?.kind === 'fingerspell' && letterIndex < current.letters.length - 1) {
+      setLetterIndex(index => index + 1);
+      setStep(value => value + 1);
+    } else {
+      nextItem();
+    }
+  }, [current, letterIndex, nextItem]);
+
+  // Letters without a clip are shown on their own for a moment
+  useEffect(() => {
+    if (current?.kind !== 'fingerspell' || clip) return;
+    const timer = setTimeout(advance, letter ? LETTER_MS : 0);
+    return () => clearTimeout(timer);
+  }, [current, letter, clip, advance]);
+
+  const clear = () => {
+    setQueue([]);
+    setHeard([]);
+    setLetterIndex(0);
+  };
+
+  return (
+    <div className="bg-white/60 backdrop-blur-sm rounded-2xl p-6 border border-gray-200">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Speech to Sign</h3>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={nextItem}
+            disabled={!current}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+            title="Skip this sign"
+          >
+            <SkipForward className="h-4 w-4" />
+          </button>
+          <button
+            onClick={clear}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Clear"
+          >
+            <RotateCcw className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="relative aspect-video bg-gray-900 rounded-xl overflow-hidden mb-4 flex items-center justify-center">
+        {clip?.video_url ? (
+          <video
+            key={step}
+            src={clip.video_url}
+            autoPlay
+            muted
+            playsInline
+            onEnded={advance}
+            onError={advance}
+            className="w-full h-full object-contain"
+          />
+        ) : clip && hasSignAnimation(clip) ? (
+          <SignAvatar
+            key={step}
+            landmarkData={clip.landmark_data}
+            loop={false}
+            controls={false}
+            onEnded={advance}
+            className="h-full aspect-[4/3]"
+          />
+        ) : letter ? (
+          <span className="text-7xl font-bold text-white">{letter.letter}</span>
+        ) : (
+          <p className="text-sm text-gray-400 px-6 text-center">
+            {listening ? 'Listening… signs will play here' : 'Speak or type a reply to see it signed'}
+          </p>
+        )}
+        {current && (
+          <div className="absolute bottom-3 inset-x-0 flex justify-center">
+            <span className="bg-black bg-opacity-60 text-white text-sm px-3 py-1 rounded-full">
+              {current.kind === 'fingerspell' ? (
+                <>
+                  <span className="text-gray-300 mr-1">spelling</span>
+                  {current.letters.map((item, i) => (
+                    <span key={i} className={i === letterIndex ? 'font-bold text-yellow-300' : ''}>{item.letter}</span>
+                  ))}
+                </>
+              ) : (
+                current.words
+              )}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {queue.length > 1 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          <span className="text-xs text-gray-500 self-center">Up next:</span>
+          {queue.slice(1, 8).map((item, i) => (
+            <span key={i} className="bg-gray-100 text-gray-700 text-xs px-2 py-1 rounded-full">
+              {item.kind === 'sign' ? item.sign.name : `${item.words.toUpperCase()} (spelled)`}
+            </span>
+          ))}
+          {queue.length > 8 && <span className="text-xs text-gray-500 self-center">+{queue.length - 8} more</span>}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div className="flex items-center space-x-3">
+          <Button
+            onClick={toggleListening}
+            disabled={!adapter}
+            variant={listening ? 'destructive' : 'default'}
+          >
+            {listening ? <MicOff className="h-4 w-4 mr-2" /> : <Mic className="h-4 w-4 mr-2" />}
+            {listening ? 'Stop Listening' : 'Listen'}
+          </Button>
+          <p className="text-sm text-gray-600 italic truncate">
+            {!adapter ? 'Speech recognition is not available in this browser' : interim || heard[heard.length - 1] || ''}
+          </p>
+        </div>
+        <form onSubmit={submitTyped} className="flex space-x-2">
+          <Input value={typed} onChange={(e) => setTyped(e.target.value)} placeholder="Or type a reply to sign…" />
+          <Button type="submit" variant="outline" disabled={!typed.trim()}>
+            Sign It
+          </Button>
+        </form>
+        {signs.length > 0 && (
+          <p className="text-xs text-gray-500">
+            {planner.getVocabularySize()} {signLanguage} signs with video or avatar; other words are fingerspelled
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SpeechToSignPanel;
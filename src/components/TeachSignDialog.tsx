@@ -0,0 +1,232 @@
+import { useEffect, useRef, useState } from 'react';
+import { CircleDot, GraduationCap, Square, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { Label } from './ui/label';
+import { Checkbox } from './ui/checkbox';
+import { useAuth } from '../hooks/useAuth';
+import { signLanguageDetectionService } from '../services/signLanguageDetection';
+import { assignHandedness } from '../services/twoHandedClassifier';
+import {
+  CustomSignModel,
+  MAX_TRAINING_EXAMPLES,
+  MIN_EXAMPLE_FRAMES,
+  MIN_TRAINING_EXAMPLES,
+  TrainingExample,
+  toLocalCustomSign,
+  trainCustomSign
+} from '../services/customSignTraining';
+import { createCustomSign, submitCustomSign } from '../services/mongoApi';
+
+interface TeachSignDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  detectionRunning: boolean; // Landmarks only flow while detection runs
+}
+
+const TeachSignDialog = ({ open, onOpenChange, detectionRunning }: TeachSignDialogProps) => {
+  const { user } = useAuth();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [examples, setExamples] = useState<TrainingExample[]>([]);
+  const [recording, setRecording] = useState(false);
+  const [liveFrames, setLiveFrames] = useState(0);
+  const [model, setModel] = useState<CustomSignModel | null>(null);
+  const [submitForReview, setSubmitForReview] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const framesRef = useRef<TrainingExample>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    setName('');
+    setDescription('');
+    setExamples([]);
+    setRecording(false);
+    setModel(null);
+    setSubmitForReview(false);
+  }, [open]);
+
+  // Collect the signing hand while an example is being recorded
+  useEffect(() => {
+    if (!recording) return;
+    framesRef.current = [];
+    setLiveFrames(0);
+    return signLanguageDetectionService.subscribeLandmarks((landmarks, multiHandedness) => {
+      const { dominant } = assignHandedness(landmarks, multiHandedness, signLanguageDetectionService.getDominantHand());
+      if (!dominant) return;
+      framesRef.current.push({ hand: dominant.landmarks, timestamp: Date.now() });
+      setLiveFrames(framesRef.current.length);
+    });
+  }, [recording]);
+
+  const toggleExample = () => {
+    if (!recording) {
+      setModel(null);
+      setRecording(true);
+      return;
+    }
+    setRecording(false);
+    if (framesRef.current.length < MIN_EXAMPLE_FRAMES) {
+      toast.error('Your hand was not in view long enough. Try that example again.');
+      return;
+    }
+    setExamples(previous => [...previous, framesRef.current]);
+  };
+
+  const removeExample = (index: number) => {
+    setModel(null);
+    setExamples(previous => previous.filter((_, i) => i !== index));
+  };
+
+  const train = () => {
+    try {
+      setModel(trainCustomSign(examples, signLanguageDetectionService.getRecognizer()));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Training failed');
+    }
+  };
+
+  const save = async () => {
+    if (!model || !name.trim()) return;
+    const language = signLanguageDetectionService.getRecognizer().code;
+    setSaving(true);
+    try {
+      if (!user) {
+        signLanguageDetectionService.addCustomSign(toLocalCustomSign(name.trim(), language, model.landmarkData));
+        toast.success(`"${name.trim()}" will be recognised for this session. Sign in to keep it.`);
+        onOpenChange(false);
+        return;
+      }
+
+      const sign = await createCustomSign({
+        name: name.trim(),
+        description: description.trim(),
+        language,
+        landmark_data: model.landmarkData
+      });
+      signLanguageDetectionService.addCustomSign(sign);
+
+      if (submitForReview) {
+        await submitCustomSign(sign.id);
+        toast.success(`"${sign.name}" saved and submitted for community review`);
+      } else {
+        toast.success(`"${sign.name}" saved. It will be recognised for you from now on.`);
+      }
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to save custom sign:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save custom sign');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const canRecord = detectionRunning && (recording || examples.length < MAX_TRAINING_EXAMPLES);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <GraduationCap className="h-5 w-5" />
+            <span>Teach a New Sign</span>
+          </DialogTitle>
+          <DialogDescription>
+            Record the sign {MIN_TRAINING_EXAMPLES}–{MAX_TRAINING_EXAMPLES} times. It will be recognised straight away.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="teach-sign-name">Sign Name *</Label>
+            <Input
+              id="teach-sign-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. a student's name sign"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="teach-sign-description">Description</Label>
+            <Textarea
+              id="teach-sign-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Examples {examples.length}/{MAX_TRAINING_EXAMPLES}</span>
+              <Button
+                size="sm"
+                variant={recording ? 'destructive' : 'outline'}
+                onClick={toggleExample}
+                disabled={!canRecord}
+              >
+                {recording ? <Square className="h-4 w-4 mr-2" /> : <CircleDot className="h-4 w-4 mr-2" />}
+                {recording ? `Stop (${liveFrames} frames)` : 'Record Example'}
+              </Button>
+            </div>
+            {!detectionRunning && (
+              <p className="text-xs text-amber-700">Start detection first so the camera can see your hands.</p>
+            )}
+            <div className="flex flex-wrap gap-2">
+              {examples.map((example, i) => (
+                <span key={i} className="flex items-center space-x-1 bg-gray-100 text-gray-700 text-xs px-2 py-1 rounded-full">
+                  <span>#{i + 1} · {example.length} frames</span>
+                  <button onClick={() => removeExample(i)} aria-label={`Remove example ${i + 1}`}>
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {model && (
+            <div className="bg-gray-50 rounded-lg p-3 text-sm space-y-1">
+              <div>
+                Trained as a {model.landmarkData.kind === 'dynamic' ? 'moving' : 'held'} sign from {model.landmarkData.examples} examples
+              </div>
+              {model.warnings.map(warning => (
+                <div key={warning} className="text-amber-700">{warning}</div>
+              ))}
+            </div>
+          )}
+
+          {user && (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="teach-sign-submit"
+                checked={submitForReview}
+                onCheckedChange={(checked) => setSubmitForReview(checked === true)}
+              />
+              <Label htmlFor="teach-sign-submit" className="text-sm font-normal">
+                Also submit to the community moderation queue
+              </Label>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={train}
+            disabled={recording || examples.length < MIN_TRAINING_EXAMPLES}
+          >
+            Train
+          </Button>
+          <Button onClick={save} disabled={!model || !name.trim() || saving}>
+            {saving ? 'Saving…' : 'Save Sign'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TeachSignDialog;
@@ -1,6 +1,6 @@
 
 import { createContext, useContext, useEffect, useState } from 'react';
-import { signUpUser, signInUser, getUserProfile, updateUserProfile } from '../services/mongoApi';
+import { signUpUser, signInUser, getUserProfile, updateUserProfile, setAuthToken } from '../services/mongoApi';
 
 interface User {
   id: string;
@@ -65,6 +65,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       
       setUser(userData);
       localStorage.setItem('user', JSON.stringify(userData));
+      setAuthToken(newUser.token ?? null);
     } catch (error: any) {
       console.error('SignUp error:', error);
       throw new Error(error.message || 'Failed to create account');
@@ -91,6 +92,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       
       setUser(userData);
       localStorage.setItem('user', JSON.stringify(userData));
+      setAuthToken(authUser.token ?? null);
     } catch (error: any) {
       console.error('SignIn error:', error);
       throw new Error(error.message || 'Failed to sign in');
@@ -100,6 +102,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const signOut = async () => {
     setUser(null);
     localStorage.removeItem('user');
+    setAuthToken(null);
   };
 
   const updateProfile = async (updates: { full_name?: string; avatar_url?: string; bio?: string; learning_goals?: string; skill_level?: 'beginner' | 'intermediate' | 'advanced'; preferred_language?: 'ASL' | 'KSL' | 'BSL' }) => {
@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { signLanguageDetectionService } from '../services/signLanguageDetection';
+import { translationService, TargetLanguage, TranslationResult } from '../services/translation';
+
+// Translates each transcript segment: a rule-based draft while it is open,
+// the final (optionally LLM-refined) sentence once it closes. Every translation
+// of the session is kept so the whole transcript can be exported.
+export const useSignTranslation = (language: TargetLanguage, refine: boolean) => {
+  const [draft, setDraft] = useState<TranslationResult | null>(null);
+  const [translations, setTranslations] = useState<TranslationResult[]>([]);
+
+  useEffect(() => {
+    return signLanguageDetectionService.subscribeTranscript(event => {
+      const signLanguage = signLanguageDetectionService.getRecognizer().code;
+
+      if (event.type === 'token') {
+        setDraft({ ...translationService.translateTokens(event.segment.tokens, { language, signLanguage }), segmentId: event.segment.id });
+      } else if (event.type === 'boundary') {
+        translationService.translateSegment(event.segment, { language, signLanguage, refine })
+          .then(result => {
+            setTranslations(prev => [...prev, result]);
+            setDraft(current => (current?.segmentId === result.segmentId ? null : current));
+          })
+          .catch(error => console.error('Translation failed:', error));
+      } else {
+        setDraft(null);
+        setTranslations([]);
+      }
+    });
+  }, [language, refine]);
+
+  return {
+    draft,
+    translations,
+    latest: translations[translations.length - 1] ?? null
+  };
+};
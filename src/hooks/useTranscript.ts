@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { signLanguageDetectionService } from '../services/signLanguageDetection';
+import { TranscriptSegment } from '../services/signSegmenter';
+
+// Live view of the detection service transcript
+export const useTranscript = () => {
+  const [segments, setSegments] = useState<TranscriptSegment[]>(() =>
+    signLanguageDetectionService.getTranscript().getSegments()
+  );
+
+  useEffect(() => {
+    const transcript = signLanguageDetectionService.getTranscript();
+    setSegments(transcript.getSegments());
+    return signLanguageDetectionService.subscribeTranscript(() => {
+      setSegments(transcript.getSegments());
+    });
+  }, []);
+
+  return {
+    segments,
+    clear: () => signLanguageDetectionService.clearTranscript()
+  };
+};
@@ -6,6 +6,7 @@ export interface IUser {
   full_name?: string;
   avatar_url?: string;
   role: 'student' | 'admin';
+  token?: string; // JWT returned on sign in/up, sent to authenticated routes
   created_at?: Date;
   updated_at?: Date;
 }
@@ -19,10 +20,22 @@ export interface IStudentProfile {
   skill_level: 'beginner' | 'intermediate' | 'advanced';
   preferred_language: 'ASL' | 'KSL' | 'BSL';
   avatar_url?: string;
+  hand_calibration?: IHandCalibration;
   created_at?: Date;
   updated_at?: Date;
 }
 
+// Per-signer adjustments fitted by the calibration wizard
+export interface IHandCalibration {
+  version: number;
+  sign_language: 'ASL' | 'KSL' | 'BSL';
+  roll: number; // Radians the signer's upright hand leans in the image
+  finger_bias: number[]; // Index to pinky: where extended turns to curled, in palm lengths
+  templates: { sign: string; features: number[] }[]; // Normalised mean hand for each calibration pose
+  sample_count: number;
+  calibrated_at: string;
+}
+
 export interface IStudentProgress {
   id: string;
   user_id: string;
@@ -95,6 +108,9 @@ export interface ISign {
   review_notes?: string; // Admin review notes
   reviewed_by?: string; // Admin ID who reviewed
   reviewed_at?: Date; // When it was reviewed
+  // Custom signs taught from a user's own examples
+  is_personal?: boolean; // Only loaded for the user who taught it
+  community_sign_id?: string; // Copy submitted to the moderation queue
   created_at?: Date;
   updated_at?: Date;
 }
@@ -124,6 +140,7 @@ export interface IGestureAttempt {
   attempt_number: number;
   detected_sign: string;
   confidence_score: number;
+  raw_confidence?: number; // Recognizer score before calibration; the calibrator is fitted on these
   landmark_data: any; // MediaPipe landmark data
   is_correct: boolean;
   feedback?: string;
@@ -131,6 +148,29 @@ export interface IGestureAttempt {
   created_at?: Date;
 }
 
+export interface IConversationTurn {
+  id: string;
+  speaker: 'signer' | 'hearing';
+  modality: 'sign' | 'speech' | 'text'; // How the turn was produced
+  timestamp: number; // Epoch milliseconds
+  gloss: string; // Signed form: recognised glosses for the signer, planned signs for the hearing participant
+  text: string; // Spoken or written form
+  language: string; // Language of `text`, e.g. 'en' or 'sw'
+  confidence?: number; // Recognition confidence, 0-1
+}
+
+export interface IConversation {
+  id: string;
+  user_id: string;
+  title: string;
+  sign_language: string;
+  started_at: Date;
+  ended_at?: Date;
+  turns: IConversationTurn[];
+  created_at?: Date;
+  updated_at?: Date;
+}
+
 export interface IAchievement {
   id: string;
   user_id: string;
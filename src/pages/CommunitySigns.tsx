@@ -9,7 +9,9 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Plus, Search, Filter, User, Calendar, Eye, Play } from 'lucide-react';
 import { SignUploadForm } from '../components/SignUploadForm';
 import { SignModerationPanel } from '../components/SignModerationPanel';
+import SignAvatar from '../components/SignAvatar';
 import { getSigns, getUserContributedSigns, checkAdminStatus } from '../services/mongoApi';
+import { hasSignAnimation } from '../services/signAvatar';
 import { useAuth } from '../hooks/useAuth';
 import { ISign } from '../lib/mongo';
 import { toast } from 'sonner';
@@ -424,7 +426,29 @@ export const CommunitySigns: React.FC = () => {
             <div className="space-y-6">
               {/* Media Display */}
               <div className="relative">
-                {selectedSign.video_url ? (
+                {hasSignAnimation(selectedSign) ? (
+                  <Tabs defaultValue={selectedSign.video_url ? 'video' : 'avatar'}>
+                    {selectedSign.video_url && (
+                      <TabsList className="mb-3">
+                        <TabsTrigger value="video">Video</TabsTrigger>
+                        <TabsTrigger value="avatar">Avatar</TabsTrigger>
+                      </TabsList>
+                    )}
+                    {selectedSign.video_url && (
+                      <TabsContent value="video">
+                        <video
+                          src={selectedSign.video_url}
+                          controls
+                          className="w-full rounded-lg max-h-96 object-contain"
+                          poster={selectedSign.image_url}
+                        />
+                      </TabsContent>
+                    )}
+                    <TabsContent value="avatar">
+                      <SignAvatar landmarkData={selectedSign.landmark_data} className="max-w-xl mx-auto" />
+                    </TabsContent>
+                  </Tabs>
+                ) : selectedSign.video_url ? (
                   <video
                     src={selectedSign.video_url}
                     controls
@@ -1,22 +1,24 @@
 
 import { useState, useEffect } from 'react';
-import { Camera, BookOpen, MessageSquare, Settings, Calendar, Menu, X, GraduationCap, Users, User } from 'lucide-react';
+import { Camera, BookOpen, MessageSquare, MessagesSquare, Settings, Calendar, Menu, X, GraduationCap, Users, User } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
 import { Link } from 'react-router-dom';
 import CameraFeed from '../components/CameraFeed';
 import InterpretationDisplay from '../components/InterpretationDisplay';
+import SpeechToSignPanel from '../components/SpeechToSignPanel';
+import ConversationMode from '../components/ConversationMode';
 import LearningModule from '../components/LearningModule';
 import Navigation from '../components/Navigation';
 import AuthModal from '../components/auth/AuthModal';
 import LearningMaterials from '../pages/LearningMaterials';
 import { useAuth } from '../hooks/useAuth';
 import { getSystemStats, getLessonSchedules } from '../services/mongoApi';
-import { textToSpeechService } from '../services/textToSpeech';
 import { signLanguageDetectionService } from '../services/signLanguageDetection';
+import { resolveLanguageCode } from '../services/recognizers';
 import { ILessonSchedule } from '../lib/mongo';
 
 const Index = () => {
-  const [activeMode, setActiveMode] = useState<'interpret' | 'learn' | 'settings' | 'profile' | 'materials' | 'community' | 'schedule'>('interpret');
+  const [activeMode, setActiveMode] = useState<'interpret' | 'conversation' | 'learn' | 'settings' | 'profile' | 'materials' | 'community' | 'schedule'>('interpret');
   const [interpretedText, setInterpretedText] = useState('');
   const [isRecording, setIsRecording] = useState(false);
   const [showAuthModal, setShowAuthModal] = useState(false);
@@ -79,16 +81,13 @@ const Index = () => {
     signLanguageDetectionService.updateSettings(settings.sensitivity, settings.language);
   }, [settings.sensitivity, settings.language]);
 
-  const handleModeChange = (mode: 'interpret' | 'learn' | 'settings' | 'profile' | 'materials' | 'community' | 'schedule') => {
+  const handleModeChange = (mode: 'interpret' | 'conversation' | 'learn' | 'settings' | 'profile' | 'materials' | 'community' | 'schedule') => {
     setActiveMode(mode);
   };
 
+  // Speech comes from InterpretationDisplay, which reads out the translated sentence
   const handleTextInterpretation = (text: string) => {
     setInterpretedText(text);
-    // Speak the interpreted text if TTS is enabled
-    if (settings.ttsEnabled && text.trim()) {
-      textToSpeechService.speak(text).catch(console.error);
-    }
   };
 
   const handleSignOut = async () => {
@@ -182,6 +181,7 @@ const Index = () => {
               <nav className="px-4 space-y-2">
                 {[
                   { id: 'interpret' as const, label: 'Interpret', icon: Camera, path: '/' },
+                  { id: 'conversation' as const, label: 'Conversation', icon: MessagesSquare, path: '/' },
                   { id: 'learn' as const, label: 'Learn', icon: BookOpen, path: '/' },
                   { id: 'materials' as const, label: 'Materials', icon: GraduationCap, path: isConfigured ? '/materials' : '/' },
                   { id: 'schedule' as const, label: 'Schedule', icon: Calendar, path: '/' },
@@ -277,7 +277,7 @@ const Index = () => {
             </div>
 
             {/* Main Interpreter Interface */}
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-8">
               <CameraFeed
                 isRecording={isRecording}
                 onToggleRecording={setIsRecording}
@@ -286,7 +286,9 @@ const Index = () => {
               <InterpretationDisplay
                 interpretedText={interpretedText}
                 isRecording={isRecording}
+                speechEnabled={settings.ttsEnabled}
               />
+              <SpeechToSignPanel signLanguage={resolveLanguageCode(settings.language) ?? 'ASL'} />
             </div>
 
             {/* Quick Stats */}
@@ -348,6 +350,21 @@ const Index = () => {
           </div>
         )}
 
+        {activeMode === 'conversation' && (
+          <div className="space-y-8">
+            <div className="text-center space-y-4">
+              <h2 className="text-3xl font-bold text-gray-900 sm:text-4xl">
+                Conversation Mode
+              </h2>
+              <p className="text-lg text-gray-600 max-w-2xl mx-auto">
+                Take turns signing and speaking face to face. Every turn is kept in a shared transcript
+                you can save or export.
+              </p>
+            </div>
+            <ConversationMode signLanguage={resolveLanguageCode(settings.language) ?? 'ASL'} />
+          </div>
+        )}
+
         {activeMode === 'learn' && (
           <LearningModule />
         )}
@@ -1,13 +1,18 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { Play, CheckCircle, ArrowLeft, BookOpen, Target, Clock } from 'lucide-react';
-import { getLessons, createPracticeSession } from '../services/mongoApi';
+import { getLessons, getSigns, createPracticeSession, createGestureAttempt, hasAuthToken } from '../services/mongoApi';
 import { useAuth } from '../hooks/useAuth';
 import { useToast } from '../hooks/use-toast';
-import { ILesson } from '../lib/mongo';
+import { IGestureAttempt, ILesson } from '../lib/mongo';
 import CameraFeed from '../components/CameraFeed';
 import InterpretationDisplay from '../components/InterpretationDisplay';
+import SignAvatar from '../components/SignAvatar';
+import { hasSignAnimation } from '../services/signAvatar';
+import { signLanguageDetectionService, DetectionResult } from '../services/signLanguageDetection';
+
+type PracticeAttempt = Omit<IGestureAttempt, 'id' | 'created_at' | 'user_id' | 'session_id'>;
 
 const LessonPage = () => {
   const { lessonId } = useParams<{ lessonId: string }>();
@@ -20,12 +25,20 @@ const LessonPage = () => {
   const [interpretedText, setInterpretedText] = useState('');
   const [practiceStartTime, setPracticeStartTime] = useState<Date | null>(null);
   const [currentSignIndex, setCurrentSignIndex] = useState(0);
+  // Graded practice attempts, saved with the session; they also train the confidence calibration
+  const attemptsRef = useRef<PracticeAttempt[]>([]);
 
   const { data: lessonsData, isLoading, error } = useQuery({
     queryKey: ['lessons'],
     queryFn: getLessons,
   });
 
+  // Signs with landmark data let the avatar demonstrate each practice sign
+  const { data: signsData } = useQuery({
+    queryKey: ['signs'],
+    queryFn: () => getSigns(),
+  });
+
   const lesson = lessonsData?.find((l: ILesson) => l.id === lessonId);
 
   // Generate practice signs based on lesson content, level, and selected language
@@ -66,12 +79,31 @@ const LessonPage = () => {
   };
 
   const practiceSigns = lesson ? getPracticeSigns(lesson) : [];
+  const demoSign = signsData?.find(sign =>
+    sign.language === lesson?.language &&
+    sign.name.toLowerCase() === practiceSigns[currentSignIndex]?.toLowerCase() &&
+    hasSignAnimation(sign)
+  );
 
-  const handleTextInterpretation = (text: string) => {
+  const handleTextInterpretation = (text: string, result?: DetectionResult) => {
     setInterpretedText(text);
 
+    const isCorrect = text.trim() === practiceSigns[currentSignIndex];
+    if (activeTab === 'practice' && result) {
+      attemptsRef.current.push({
+        sign_id: practiceSigns[currentSignIndex],
+        attempt_number: attemptsRef.current.length + 1,
+        detected_sign: result.sign,
+        confidence_score: result.confidence,
+        raw_confidence: result.rawConfidence,
+        landmark_data: [],
+        is_correct: isCorrect,
+        timestamp: new Date()
+      });
+    }
+
     // Check if the interpreted text matches the current practice sign
-    if (activeTab === 'practice' && text.trim() === practiceSigns[currentSignIndex]) {
+    if (activeTab === 'practice' && isCorrect) {
       toast({
         title: "Correct!",
         description: `Great job! You signed "${text}" correctly.`,
@@ -92,6 +124,7 @@ const LessonPage = () => {
     setPracticeStartTime(new Date());
     setCurrentSignIndex(0);
     setIsRecording(true);
+    attemptsRef.current = [];
   };
 
   const handleCompleteLesson = async () => {
@@ -99,24 +132,45 @@ const LessonPage = () => {
 
     try {
       const duration = practiceStartTime ? Math.floor((new Date().getTime() - practiceStartTime.getTime()) / 1000 / 60) : 5;
+      const attempts = attemptsRef.current;
+      const totalAttempts = Math.max(attempts.length, practiceSigns.length);
+      const correctAttempts = practiceSigns.length;
 
-      await createPracticeSession({
+      const session = await createPracticeSession({
         user_id: user.id,
         lesson_id: lesson.id,
         sign_id: lesson.id, // Use lesson ID as sign ID for now
         start_time: practiceStartTime || new Date(),
         end_time: new Date(),
         duration: duration,
-        total_attempts: practiceSigns.length,
-        correct_attempts: practiceSigns.length,
-        accuracy_rate: 85, // Mock accuracy for now
+        total_attempts: totalAttempts,
+        correct_attempts: correctAttempts,
+        accuracy_rate: Math.round(correctAttempts / totalAttempts * 100),
         feedback_given: `Completed ${lesson.title} lesson`,
         completed: true
       });
 
+      // Attempt logging must not fail the lesson; the calibration is refit from what was saved.
+      // Attempts need a session token, which sign-ins from before tokens existed lack.
+      if (hasAuthToken()) {
+        Promise.all(attempts.map(attempt => createGestureAttempt({ ...attempt, session_id: session.id })))
+          .then(() => signLanguageDetectionService.loadCalibration())
+          .catch(error => {
+            console.warn('Failed to save practice attempts:', error);
+            toast({
+              title: "Practice attempts not saved",
+              description: "Your lesson was saved, but not your sign attempts. Sign out and back in if this keeps happening.",
+              variant: "destructive",
+            });
+          });
+      }
+
+      // Only one toast shows at a time, so a missing token is mentioned here
       toast({
         title: "Lesson Completed!",
-        description: "Congratulations! You've successfully completed this lesson.",
+        description: hasAuthToken() || attempts.length === 0
+          ? "Congratulations! You've successfully completed this lesson."
+          : "Lesson saved. Sign out and back in to also record your sign attempts and tune recognition to you.",
       });
 
       navigate('/materials');
@@ -609,6 +663,12 @@ const LessonPage = () => {
                   <div className="mt-4 text-sm text-gray-500">
                     Progress: {currentSignIndex + 1} / {practiceSigns.length}
                   </div>
+                  {demoSign && (
+                    <div className="mt-6 max-w-md mx-auto text-left">
+                      <p className="text-sm font-medium text-gray-700 mb-2">Watch how it is signed</p>
+                      <SignAvatar key={demoSign.id} landmarkData={demoSign.landmark_data} />
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -0,0 +1,175 @@
+import type { IGestureAttempt } from '../lib/mongo';
+import type { DetectionResult } from './signLanguageDetection';
+
+export type GestureType = NonNullable<DetectionResult['gestureType']>;
+
+// Minimum calibrated confidence before a result is shown. Sign entries win
+// over gesture type entries, which win over the default.
+export interface ThresholdTable {
+  default: number;
+  gestureTypes: Partial<Record<GestureType, number>>;
+  signs: { [sign: string]: number };
+}
+
+export interface ClassCalibration {
+  sign: string;
+  samples: number;
+  accuracy: number;
+  bins: { correct: number; total: number }[];
+}
+
+export interface CalibrationOptions {
+  targetPrecision?: number; // Per-sign thresholds keep at least this share of accepted results correct
+  minClassSamples?: number; // Signs with fewer logged attempts keep the gesture type threshold
+}
+
+const BIN_COUNT = 10;
+// Pseudo-counts pulling sparse bins towards the next broader estimate
+const PRIOR_WEIGHT = 5;
+const MIN_THRESHOLD = 0.5;
+const MAX_THRESHOLD = 0.95;
+
+const DEFAULT_THRESHOLDS: ThresholdTable = {
+  default: 0.7,
+  gestureTypes: {
+    static: 0.7,
+    dynamic: 0.7,
+    validated: 0.8,
+    // Spelled words are already assembled from committed letters
+    fingerspelled: 0
+  },
+  signs: {}
+};
+
+const emptyBins = () => Array.from({ length: BIN_COUNT }, () => ({ correct: 0, total: 0 }));
+
+const binIndex = (confidence: number): number =>
+  Math.min(BIN_COUNT - 1, Math.max(0, Math.floor(confidence * BIN_COUNT)));
+
+// Only attempts that logged the recognizer's raw score are on the scale calibrate() is applied to;
+// confidence_score is the calibrated score the learner was shown
+const hasRawScore = (attempt: IGestureAttempt): attempt is IGestureAttempt & { raw_confidence: number } =>
+  !!attempt.detected_sign && typeof attempt.raw_confidence === 'number';
+
+// Histogram-binning calibration fitted from logged practice attempts: a raw score
+// is mapped to the observed share of correct attempts for that sign at that score
+export class ConfidenceCalibrator {
+  private classes = new Map<string, ClassCalibration>();
+  private global = emptyBins();
+  private thresholds: ThresholdTable = {
+    ...DEFAULT_THRESHOLDS,
+    gestureTypes: { ...DEFAULT_THRESHOLDS.gestureTypes },
+    signs: {}
+  };
+  private fittedSigns = new Set<string>();
+  private options: Required<CalibrationOptions>;
+
+  constructor(options: CalibrationOptions = {}) {
+    this.options = { targetPrecision: 0.8, minClassSamples: 20, ...options };
+  }
+
+  // Refit from attempts, replacing the previous fit. Manually set sign thresholds are kept.
+  fit(attempts: IGestureAttempt[]): number {
+    this.classes = new Map();
+    this.global = emptyBins();
+
+    for (const attempt of attempts) {
+      if (!hasRawScore(attempt)) continue;
+      let calibration = this.classes.get(attempt.detected_sign);
+      if (!calibration) {
+        calibration = { sign: attempt.detected_sign, samples: 0, accuracy: 0, bins: emptyBins() };
+        this.classes.set(attempt.detected_sign, calibration);
+      }
+      const bin = binIndex(attempt.raw_confidence);
+      const correct = attempt.is_correct ? 1 : 0;
+      calibration.bins[bin].total++;
+      calibration.bins[bin].correct += correct;
+      calibration.samples++;
+      calibration.accuracy += correct;
+      this.global[bin].total++;
+      this.global[bin].correct += correct;
+    }
+
+    this.classes.forEach(calibration => {
+      calibration.accuracy /= calibration.samples;
+    });
+
+    for (const sign of this.fittedSigns) {
+      delete this.thresholds.signs[sign];
+    }
+    this.fittedSigns.clear();
+    this.classes.forEach(calibration => this.fitThreshold(calibration, attempts));
+
+    return this.classes.size;
+  }
+
+  // Estimated probability that a result with this raw score is correct. Without
+  // logged attempts the raw score is returned unchanged.
+  calibrate(sign: string, rawConfidence: number): number {
+    const bin = binIndex(rawConfidence);
+    const global = this.global[bin];
+    const globalEstimate = (global.correct + PRIOR_WEIGHT * rawConfidence) / (global.total + PRIOR_WEIGHT);
+
+    const calibration = this.classes.get(sign);
+    if (!calibration) return globalEstimate;
+
+    const own = calibration.bins[bin];
+    return (own.correct + PRIOR_WEIGHT * globalEstimate) / (own.total + PRIOR_WEIGHT);
+  }
+
+  getThreshold(sign: string, gestureType?: GestureType): number {
+    return this.thresholds.signs[sign] ??
+      (gestureType ? this.thresholds.gestureTypes[gestureType] : undefined) ??
+      this.thresholds.default;
+  }
+
+  meetsThreshold(result: DetectionResult): boolean {
+    return result.confidence >= this.getThreshold(result.sign, result.gestureType);
+  }
+
+  setThreshold(sign: string, threshold: number): void {
+    this.thresholds.signs[sign] = threshold;
+    this.fittedSigns.delete(sign);
+  }
+
+  setGestureTypeThreshold(gestureType: GestureType, threshold: number): void {
+    this.thresholds.gestureTypes[gestureType] = threshold;
+  }
+
+  getThresholdTable(): ThresholdTable {
+    return {
+      default: this.thresholds.default,
+      gestureTypes: { ...this.thresholds.gestureTypes },
+      signs: { ...this.thresholds.signs }
+    };
+  }
+
+  getClassCalibration(sign: string): ClassCalibration | null {
+    const calibration = this.classes.get(sign);
+    return calibration ? { ...calibration, bins: calibration.bins.map(bin => ({ ...bin })) } : null;
+  }
+
+  // Lowest calibrated confidence at which accepted attempts for this sign still
+  // reach the target precision
+  private fitThreshold(calibration: ClassCalibration, attempts: IGestureAttempt[]): void {
+    if (calibration.samples < this.options.minClassSamples) return;
+    if (this.thresholds.signs[calibration.sign] !== undefined) return;
+
+    const scored = attempts
+      .filter(attempt => attempt.detected_sign === calibration.sign && hasRawScore(attempt))
+      .map(attempt => ({ confidence: this.calibrate(calibration.sign, attempt.raw_confidence), correct: attempt.is_correct }))
+      .sort((a, b) => b.confidence - a.confidence);
+
+    let correct = 0;
+    let threshold = MAX_THRESHOLD;
+    scored.forEach((item, i) => {
+      if (item.correct) correct++;
+      if (correct / (i + 1) >= this.options.targetPrecision) {
+        threshold = item.confidence;
+      }
+    });
+
+    this.thresholds.signs[calibration.sign] = Math.min(MAX_THRESHOLD, Math.max(MIN_THRESHOLD, threshold));
+    this.fittedSigns.add(calibration.sign);
+  }
+}
@@ -0,0 +1,143 @@
+import type { IConversation, IConversationTurn } from '../lib/mongo';
+import type { SignLanguageCode } from './recognizers/types';
+
+export type ConversationSpeaker = IConversationTurn['speaker'];
+export type ConversationModality = IConversationTurn['modality'];
+
+export type NewConversationTurn = Omit<IConversationTurn, 'id' | 'timestamp'> & { timestamp?: number };
+
+// A conversation as saved and exported; `id` is set once it has been saved
+export type ConversationDocument = Pick<IConversation, 'title' | 'sign_language' | 'started_at' | 'ended_at' | 'turns'> & {
+  id?: string;
+};
+
+export type ConversationListener = (turns: IConversationTurn[]) => void;
+
+export const SPEAKER_LABELS: Record<ConversationSpeaker, string> = {
+  signer: 'Signer',
+  hearing: 'Hearing participant'
+};
+
+const MODALITY_LABELS: Record<ConversationModality, string> = {
+  sign: 'signed',
+  speech: 'spoken',
+  text: 'typed'
+};
+
+const defaultTitle = (date: Date) =>
+  `Conversation ${date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} ${date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}`;
+
+// Turn-by-turn record of a face-to-face conversation between a signer and a
+// hearing participant. Each turn keeps both forms of what was said: the gloss
+// that was signed (or will be signed back) and the spoken or written text.
+export class ConversationSession {
+  private turns: IConversationTurn[] = [];
+  private listeners = new Set<ConversationListener>();
+  private startedAt = new Date();
+  private savedId: string | null = null;
+  private nextTurnId = 1;
+
+  constructor(private signLanguage: SignLanguageCode, private title = defaultTitle(new Date())) {}
+
+  addTurn(turn: NewConversationTurn): IConversationTurn | null {
+    const text = turn.text.trim();
+    const gloss = turn.gloss.trim();
+    if (!text && !gloss) return null;
+
+    const added: IConversationTurn = {
+      ...turn,
+      id: `${this.startedAt.getTime()}-${this.nextTurnId++}`,
+      timestamp: turn.timestamp ?? Date.now(),
+      text,
+      gloss
+    };
+    this.turns = [...this.turns, added];
+    this.publish();
+    return added;
+  }
+
+  getTurns(): IConversationTurn[] {
+    return this.turns;
+  }
+
+  getTitle(): string {
+    return this.title;
+  }
+
+  setTitle(title: string): void {
+    this.title = title.trim() || defaultTitle(this.startedAt);
+  }
+
+  setSignLanguage(signLanguage: SignLanguageCode): void {
+    this.signLanguage = signLanguage;
+  }
+
+  // Backend id after the first save, so later saves update the same document
+  getSavedId(): string | null {
+    return this.savedId;
+  }
+
+  setSavedId(id: string): void {
+    this.savedId = id;
+  }
+
+  subscribe(listener: ConversationListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Start a new conversation; the previous one is no longer updated by saves
+  clear(): void {
+    this.turns = [];
+    this.startedAt = new Date();
+    this.title = defaultTitle(this.startedAt);
+    this.savedId = null;
+    this.publish();
+  }
+
+  toDocument(): ConversationDocument {
+    const last = this.turns[this.turns.length - 1];
+    return {
+      ...(this.savedId ? { id: this.savedId } : {}),
+      title: this.title,
+      sign_language: this.signLanguage,
+      started_at: this.startedAt,
+      ended_at: last ? new Date(last.timestamp) : undefined,
+      turns: this.turns
+    };
+  }
+
+  private publish(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.turns);
+      } catch (error) {
+        console.error('Conversation listener failed:', error);
+      }
+    });
+  }
+}
+
+const formatClock = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// Readable transcript: one block per turn with speaker, time, text and gloss
+export const formatConversationText = (conversation: ConversationDocument): string => {
+  const header = [
+    conversation.title,
+    `Sign language: ${conversation.sign_language}`,
+    `Started: ${new Date(conversation.started_at).toLocaleString('en-US')}`,
+    ''
+  ];
+  const turns = conversation.turns.map(turn => {
+    const lines = [`[${formatClock(turn.timestamp)}] ${SPEAKER_LABELS[turn.speaker]} (${MODALITY_LABELS[turn.modality]}): ${turn.text}`];
+    if (turn.gloss) lines.push(`    Gloss: ${turn.gloss}`);
+    return lines.join('\n');
+  });
+  return [...header, ...turns].join('\n') + '\n';
+};
+
+export const serializeConversation = (conversation: ConversationDocument): string =>
+  JSON.stringify(conversation, null, 2);
@@ -0,0 +1,167 @@
+import type { HandLandmark } from './signLanguageDetection';
+import { landmarkDistance, normalizeLandmarks } from './landmarkClassifier';
+import type { SignLanguageCode, SignRecognizer } from './recognizers/types';
+import type { ISign } from '../lib/mongo';
+
+export const MIN_TRAINING_EXAMPLES = 5;
+export const MAX_TRAINING_EXAMPLES = 10;
+export const MIN_EXAMPLE_FRAMES = 8;
+
+// Wrist travel (in palm lengths) that makes an example a moving sign; matches the
+// sequence recognizer's minimum motion so dynamic custom signs can actually fire
+const MOTION_THRESHOLD = 0.5;
+const STATIC_SAMPLES_PER_EXAMPLE = 3;
+const RESAMPLE_LENGTH = 20;
+// Frames kept in a moving sign's template; a long example is thinned out so the
+// upload stays well under the server's 1 MB body limit (about 1 KB per frame)
+const MAX_TEMPLATE_FRAMES = 90;
+// Mean distance from the template above which examples disagree too much to trust
+const MAX_STATIC_SPREAD = 0.2;
+const MAX_DYNAMIC_SPREAD = 0.8;
+
+export interface TrainingFrame {
+  hand: HandLandmark[]; // Signing hand only
+  timestamp: number;
+}
+
+export type TrainingExample = TrainingFrame[];
+
+// Stored as ISign.landmark_data. `hands` feeds the handshape templates and
+// `frames` the motion templates, so both loaders read it without changes.
+export interface CustomLandmarkData {
+  source: 'custom';
+  version: 1;
+  kind: 'static' | 'dynamic';
+  examples: number;
+  hands?: HandLandmark[][]; // Static: held handshapes sampled from every example
+  frames?: { timestamp: number; landmarks: HandLandmark[] }[]; // Dynamic: the most typical example
+}
+
+export interface CustomSignModel {
+  landmarkData: CustomLandmarkData;
+  spread: number; // Mean distance of the examples from the template
+  warnings: string[];
+}
+
+const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+const roundHand = (hand: HandLandmark[]): HandLandmark[] =>
+  hand.map(point => ({ x: round(point.x), y: round(point.y), z: round(point.z || 0) }));
+
+const palmLength = (hand: HandLandmark[]): number =>
+  Math.hypot(hand[9].x - hand[0].x, hand[9].y - hand[0].y) || 1;
+
+const wristTravel = (example: TrainingExample): number => {
+  const origin = example[0].hand[0];
+  const palm = example.reduce((sum, frame) => sum + palmLength(frame.hand), 0) / example.length;
+  return Math.max(...example.map(frame => Math.hypot(frame.hand[0].x - origin.x, frame.hand[0].y - origin.y))) / palm;
+};
+
+const resample = <T>(items: T[], length: number): T[] =>
+  items.length <= 1 ? items.slice() : Array.from({ length }, (_, i) => items[Math.round((i * (items.length - 1)) / (length - 1))]);
+
+const meanFeatures = (vectors: number[][]): number[] =>
+  vectors[0].map((_, i) => vectors.reduce((sum, vector) => sum + vector[i], 0) / vectors.length);
+
+// Handshape and wrist path of a moving example, resampled to a fixed length
+const motionProfile = (example: TrainingExample) => {
+  const frames = resample(example, RESAMPLE_LENGTH);
+  const origin = frames[0].hand[0];
+  const palm = frames.reduce((sum, frame) => sum + palmLength(frame.hand), 0) / frames.length;
+  return frames.map(frame => ({
+    shape: normalizeLandmarks(frame.hand)!,
+    x: (frame.hand[0].x - origin.x) / palm,
+    y: (frame.hand[0].y - origin.y) / palm
+  }));
+};
+
+const motionDistance = (a: ReturnType<typeof motionProfile>, b: ReturnType<typeof motionProfile>): number =>
+  a.reduce((sum, point, i) => sum + landmarkDistance(point.shape, b[i].shape) + Math.hypot(point.x - b[i].x, point.y - b[i].y), 0) / a.length;
+
+const trainStatic = (examples: TrainingExample[]): Omit<CustomSignModel, 'warnings'> => {
+  // The middle of each example is where the handshape is held
+  const held = examples.map(example => example.slice(Math.floor(example.length / 4), Math.ceil((example.length * 3) / 4)));
+  const hands = held.flatMap(frames => resample(frames, STATIC_SAMPLES_PER_EXAMPLE).map(frame => roundHand(frame.hand)));
+
+  const exampleMeans = held.map(frames => meanFeatures(frames.map(frame => normalizeLandmarks(frame.hand)!)));
+  const centre = meanFeatures(exampleMeans);
+  const spread = exampleMeans.reduce((sum, features) => sum + landmarkDistance(features, centre), 0) / exampleMeans.length;
+
+  return {
+    landmarkData: { source: 'custom', version: 1, kind: 'static', examples: examples.length, hands },
+    spread
+  };
+};
+
+// The example closest to all the others becomes the motion template
+const trainDynamic = (examples: TrainingExample[]): Omit<CustomSignModel, 'warnings'> => {
+  const profiles = examples.map(motionProfile);
+  const totals = profiles.map(profile => profiles.reduce((sum, other) => sum + motionDistance(profile, other), 0));
+  const medoid = totals.indexOf(Math.min(...totals));
+  const start = examples[medoid][0].timestamp;
+  const template = resample(examples[medoid], Math.min(examples[medoid].length, MAX_TEMPLATE_FRAMES));
+
+  return {
+    landmarkData: {
+      source: 'custom',
+      version: 1,
+      kind: 'dynamic',
+      examples: examples.length,
+      frames: template.map(frame => ({ timestamp: Math.round(frame.timestamp - start), landmarks: roundHand(frame.hand) }))
+    },
+    spread: totals[medoid] / Math.max(1, examples.length - 1)
+  };
+};
+
+// Build a custom sign template from recorded examples. Throws when fewer than
+// MIN_TRAINING_EXAMPLES usable examples were recorded.
+export const trainCustomSign = (examples: TrainingExample[], recognizer?: SignRecognizer): CustomSignModel => {
+  const usable = examples
+    .map(example => example.filter(frame => frame.hand.length >= 21 && normalizeLandmarks(frame.hand)))
+    .filter(example => example.length >= MIN_EXAMPLE_FRAMES)
+    .slice(0, MAX_TRAINING_EXAMPLES);
+  if (usable.length < MIN_TRAINING_EXAMPLES) {
+    throw new Error(`Record at least ${MIN_TRAINING_EXAMPLES} examples with your hand in view (${usable.length} usable so far)`);
+  }
+
+  const moving = usable.filter(example => wristTravel(example) >= MOTION_THRESHOLD).length;
+  const dynamic = moving > usable.length / 2;
+  const model = dynamic ? trainDynamic(usable) : trainStatic(usable);
+
+  const warnings: string[] = [];
+  if (moving > 0 && moving < usable.length) {
+    warnings.push(`${dynamic ? usable.length - moving : moving} of ${usable.length} examples ${dynamic ? 'barely move' : 'move'}; the sign was trained as ${dynamic ? 'moving' : 'held'}.`);
+  }
+  if (model.spread > (dynamic ? MAX_DYNAMIC_SPREAD : MAX_STATIC_SPREAD)) {
+    warnings.push('The examples differ a lot from each other, so recognition may be unreliable. Try recording them more consistently.');
+  }
+
+  // Custom templates are checked before built-in handshapes, so a held sign that
+  // matches one takes its place for this user
+  if (!dynamic && recognizer && model.landmarkData.hands) {
+    const counts = new Map<string, number>();
+    model.landmarkData.hands.forEach(hand => {
+      const match = recognizer.classifyHand(hand);
+      if (match) counts.set(match.sign, (counts.get(match.sign) ?? 0) + 1);
+    });
+    const [builtIn, count] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0] ?? [];
+    if (builtIn && count > model.landmarkData.hands.length / 2) {
+      warnings.push(`This handshape is usually recognised as the built-in sign "${builtIn}"; you will see your sign instead. Adding movement keeps both.`);
+    }
+  }
+
+  return { ...model, warnings };
+};
+
+// Session-only sign for users who are not signed in; never leaves the browser
+export const toLocalCustomSign = (name: string, language: SignLanguageCode, landmarkData: CustomLandmarkData): ISign => ({
+  id: `local-${Date.now()}`,
+  name,
+  category: 'basics',
+  language,
+  difficulty_level: 'beginner',
+  landmark_data: landmarkData,
+  tags: [],
+  is_active: true,
+  is_personal: true
+});
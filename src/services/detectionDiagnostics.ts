@@ -0,0 +1,81 @@
+import type { HandLandmark } from './signLanguageDetection';
+import type { HandClassification } from './handFrameClassifier';
+import type { Handedness } from './twoHandedClassifier';
+import { fingerClarity, fingerExtension, handAspectRatio } from './recognizers/handShape';
+
+export const DEFAULT_CANDIDATE_COUNT = 5;
+
+// Which step of the classifier produced the frame's result
+export type ClassificationStage = 'sequence' | 'pair' | 'model' | 'rule' | 'template' | 'none';
+
+export interface DiagnosticCandidate {
+  sign: string;
+  score: number; // Raw confidence from its source, 0-1
+  source: Exclude<ClassificationStage, 'none'>;
+  rule?: string; // Handshape rule for recognizer matches, e.g. 'v_shape'
+}
+
+export interface HandDiagnostics {
+  handedness: Handedness;
+  dominant: boolean;
+  fingersExtended: boolean[]; // Thumb first, as the recognizer saw the (calibrated) hand
+  fingerClarity: number[]; // 0 on the extended/curled boundary, 1 clear of it
+  aspectRatio: number;
+}
+
+// What the classifier saw and decided for one frame
+export interface ClassifierDiagnostics {
+  stage: ClassificationStage;
+  rule: string | null; // handShape of the result, e.g. 'number' or 'fallback'
+  sign: string | null;
+  confidence: number | null; // Uncalibrated
+  candidates: DiagnosticCandidate[]; // Best first, from every stage that scored the dominant hand
+  hands: HandDiagnostics[]; // Dominant hand first
+  classifyMs: number;
+}
+
+export interface FrameTiming {
+  classifyMs: number;
+  inferenceMs: number; // MediaPipe plus classification
+  latencyMs: number; // Capture to diagnostics
+}
+
+// Published by the detection service for every processed frame
+export interface FrameDiagnostics extends Omit<ClassifierDiagnostics, 'classifyMs'> {
+  timestamp: number;
+  landmarks: HandLandmark[][];
+  multiHandedness: HandClassification[];
+  calibratedConfidence: number | null;
+  timing: FrameTiming;
+}
+
+export type DiagnosticsListener = (diagnostics: FrameDiagnostics) => void;
+
+export const EMPTY_DIAGNOSTICS: ClassifierDiagnostics = {
+  stage: 'none',
+  rule: null,
+  sign: null,
+  confidence: null,
+  candidates: [],
+  hands: [],
+  classifyMs: 0
+};
+
+export const describeHand = (hand: HandLandmark[], handedness: Handedness, dominant: boolean): HandDiagnostics => ({
+  handedness,
+  dominant,
+  fingersExtended: fingerExtension(hand),
+  fingerClarity: fingerClarity(hand),
+  aspectRatio: handAspectRatio(hand)
+});
+
+// Best candidates across sources; the same sign may appear once per source
+export const topCandidates = (candidates: DiagnosticCandidate[], count = DEFAULT_CANDIDATE_COUNT): DiagnosticCandidate[] =>
+  candidates
+    .filter(candidate => Number.isFinite(candidate.score))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count);
+
+// Compact finger vector for overlays and logs, e.g. '·IM··' for a V handshape
+export const formatFingerVector = (fingersExtended: boolean[]): string =>
+  fingersExtended.map((extended, i) => (extended ? 'TIMRP'[i] : '·')).join('');
@@ -0,0 +1,197 @@
+import type { IHandCalibration, ISign } from '../../lib/mongo';
+import type {
+  DetectionWorkerOptions,
+  DetectionWorkerSettings,
+  FrameResult,
+  FrameStats,
+  WorkerRequest,
+  WorkerResponse
+} from './types';
+
+export type { DetectionWorkerOptions, DetectionWorkerSettings, FrameResult, FrameStats } from './types';
+
+const LATENCY_SMOOTHING = 0.1;
+
+// Main-thread side of the detection worker: captures video frames as ImageBitmaps,
+// transfers them to the worker and hands results back. At most maxInFlight frames
+// are outstanding; while the worker is behind, new frames are skipped at capture.
+export class DetectionWorkerClient {
+  private worker: Worker | null = null;
+  private options: Required<DetectionWorkerOptions>;
+  private nextFrameId = 1;
+  private inFlight = new Map<number, number>(); // frameId -> submit time
+  private stats: FrameStats = { submitted: 0, processed: 0, skipped: 0, dropped: 0, inFlight: 0, latencyMs: 0, inferenceMs: 0 };
+
+  constructor(private onFrame: (frame: FrameResult) => void, options: DetectionWorkerOptions = {}) {
+    this.options = {
+      assetBaseUrl: `${self.location.origin}/mediapipe`,
+      maxInFlight: 2,
+      maxFrameAgeMs: 250,
+      frameTimeoutMs: 2000,
+      frameWidth: 640,
+      startTimeoutMs: 20000,
+      ...options
+    };
+  }
+
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined' &&
+      typeof OffscreenCanvas !== 'undefined' &&
+      typeof createImageBitmap === 'function';
+  }
+
+  // Resolves once MediaPipe has loaded inside the worker
+  start(settings: DetectionWorkerSettings): Promise<void> {
+    if (this.worker) return Promise.resolve();
+
+    const worker = new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+    this.worker = worker;
+
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => fail(new Error('Detection worker did not start in time')), this.options.startTimeoutMs);
+      const fail = (error: Error) => {
+        clearTimeout(timeout);
+        this.terminate();
+        reject(error);
+      };
+
+      worker.onerror = event => fail(new Error(event.message || 'Detection worker failed to load'));
+      worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+        const response = event.data;
+        if (response.type === 'ready') {
+          clearTimeout(timeout);
+          worker.onmessage = message => this.handleResponse(message.data);
+          worker.onerror = error => console.error('Detection worker error:', error.message);
+          resolve();
+        } else if (response.type === 'error') {
+          fail(new Error(response.message));
+        }
+      };
+
+      this.send({
+        type: 'init',
+        assetBaseUrl: this.options.assetBaseUrl,
+        maxFrameAgeMs: this.options.maxFrameAgeMs,
+        settings
+      });
+    });
+  }
+
+  isRunning(): boolean {
+    return this.worker !== null;
+  }
+
+  // Capture the current video frame and send it to the worker. Returns false when
+  // the frame was skipped because the worker is still busy with earlier frames.
+  async submitFrame(video: HTMLVideoElement): Promise<boolean> {
+    if (!this.worker || !video.videoWidth) return false;
+    this.expireInFlight();
+    if (this.inFlight.size >= this.options.maxInFlight) {
+      this.stats.skipped++;
+      return false;
+    }
+
+    const frameId = this.nextFrameId++;
+    const timestamp = Date.now();
+    this.inFlight.set(frameId, timestamp);
+
+    try {
+      const width = Math.min(this.options.frameWidth, video.videoWidth);
+      const bitmap = await createImageBitmap(video, {
+        resizeWidth: width,
+        resizeHeight: Math.round(video.videoHeight * width / video.videoWidth),
+        resizeQuality: 'low'
+      });
+      if (!this.worker) {
+        bitmap.close();
+        this.inFlight.delete(frameId);
+        return false;
+      }
+      this.send({ type: 'frame', frameId, timestamp, bitmap }, [bitmap]);
+      this.stats.submitted++;
+      return true;
+    } catch (error) {
+      this.inFlight.delete(frameId);
+      console.warn('Failed to capture video frame:', error);
+      return false;
+    }
+  }
+
+  // Lower widths cut transfer and inference cost under load
+  setFrameWidth(width: number): void {
+    this.options.frameWidth = width;
+  }
+
+  updateSettings(settings: Partial<DetectionWorkerSettings>): void {
+    this.send({ type: 'settings', settings });
+  }
+
+  loadTemplates(signs: ISign[]): void {
+    this.send({ type: 'templates', signs });
+  }
+
+  setCalibration(calibration: IHandCalibration | null): void {
+    this.send({ type: 'calibration', calibration });
+  }
+
+  // The worker loads its own copy of the learned classifier from baseUrl
+  loadModel(baseUrl: string | null): void {
+    this.send({ type: 'model', baseUrl });
+  }
+
+  // Drop queued frames and any motion in progress, e.g. when detection stops
+  reset(): void {
+    this.send({ type: 'reset' });
+  }
+
+  getStats(): FrameStats {
+    return { ...this.stats, inFlight: this.inFlight.size };
+  }
+
+  terminate(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.inFlight.clear();
+  }
+
+  private send(request: WorkerRequest, transfer: Transferable[] = []): void {
+    this.worker?.postMessage(request, transfer);
+  }
+
+  private handleResponse(response: WorkerResponse): void {
+    switch (response.type) {
+      case 'result': {
+        this.inFlight.delete(response.frameId);
+        this.stats.processed++;
+        this.stats.latencyMs = smooth(this.stats.latencyMs, Date.now() - response.timestamp);
+        this.stats.inferenceMs = smooth(this.stats.inferenceMs, response.inferenceMs);
+        this.onFrame(response);
+        break;
+      }
+      case 'dropped':
+        this.inFlight.delete(response.frameId);
+        this.stats.dropped++;
+        break;
+      case 'error':
+        if (response.frameId !== undefined && this.inFlight.delete(response.frameId)) {
+          this.stats.dropped++;
+        }
+        console.error('Detection worker error:', response.message);
+        break;
+    }
+  }
+
+  // A frame the worker lost (e.g. a crashed inference) must not block capture forever
+  private expireInFlight(): void {
+    const cutoff = Date.now() - this.options.frameTimeoutMs;
+    this.inFlight.forEach((submittedAt, frameId) => {
+      if (submittedAt < cutoff) {
+        this.inFlight.delete(frameId);
+        this.stats.dropped++;
+      }
+    });
+  }
+}
+
+const smooth = (average: number, value: number): number =>
+  average === 0 ? value : average + (value - average) * LATENCY_SMOOTHING;
@@ -0,0 +1,62 @@
+import type { DetectionResult, HandLandmark } from '../signLanguageDetection';
+import type { HandClassification } from '../handFrameClassifier';
+import type { Handedness } from '../twoHandedClassifier';
+import type { SignLanguageCode } from '../recognizers/types';
+import type { ClassifierDiagnostics } from '../detectionDiagnostics';
+import type { IHandCalibration, ISign } from '../../lib/mongo';
+
+export interface DetectionWorkerSettings {
+  sensitivity: number; // 1-10, scaled to MediaPipe detection/tracking confidence
+  language: SignLanguageCode;
+  dominantHand: Handedness;
+  modelComplexity: 0 | 1; // Lite or full hand landmark model
+  diagnostics?: boolean; // Attach classifier diagnostics to every result
+}
+
+export interface DetectionWorkerOptions {
+  assetBaseUrl?: string; // Where the worker loads the locally hosted MediaPipe Hands files from
+  maxInFlight?: number; // Frames sent but not yet answered; further frames are skipped at capture
+  maxFrameAgeMs?: number; // The worker discards frames that waited longer than this
+  frameTimeoutMs?: number; // A frame still unanswered after this long no longer counts as in flight
+  frameWidth?: number; // Frames are downscaled to this width before transfer
+  startTimeoutMs?: number;
+}
+
+// Main thread -> worker
+export type WorkerRequest =
+  | { type: 'init'; assetBaseUrl: string; maxFrameAgeMs: number; settings: DetectionWorkerSettings }
+  | { type: 'frame'; frameId: number; timestamp: number; bitmap: ImageBitmap }
+  | { type: 'settings'; settings: Partial<DetectionWorkerSettings> }
+  | { type: 'templates'; signs: ISign[] }
+  | { type: 'calibration'; calibration: IHandCalibration | null }
+  | { type: 'model'; baseUrl: string | null } // null turns the learned classifier off
+  | { type: 'reset' };
+
+// Worker -> main thread
+export type WorkerResponse =
+  | { type: 'ready' }
+  | { type: 'error'; message: string; frameId?: number } // frameId when a single frame failed
+  | {
+      type: 'result';
+      frameId: number;
+      timestamp: number; // Capture time of the frame, Date.now() on the main thread
+      handsPresent: boolean;
+      landmarks: HandLandmark[][]; // Raw landmarks, for recording
+      multiHandedness: HandClassification[];
+      result: DetectionResult | null; // Uncalibrated; calibration and segmentation stay on the main thread
+      inferenceMs: number;
+      diagnostics?: ClassifierDiagnostics;
+    }
+  | { type: 'dropped'; frameId: number; reason: 'superseded' | 'stale' | 'no-result' };
+
+export type FrameResult = Extract<WorkerResponse, { type: 'result' }>;
+
+export interface FrameStats {
+  submitted: number;
+  processed: number;
+  skipped: number; // Not captured because too many frames were in flight
+  dropped: number; // Captured but discarded by the worker, failed, or never answered
+  inFlight: number;
+  latencyMs: number; // Capture to result, exponential moving average
+  inferenceMs: number; // Time spent in MediaPipe and classification, moving average
+}
@@ -0,0 +1,170 @@
+import { Hands, Results } from '@mediapipe/hands';
+import { HandFrameClassifier } from '../handFrameClassifier';
+import { LandmarkModelClassifier } from '../landmarkModel';
+import { locateHandsFile } from '../mediapipeAssets';
+import { recognizerRegistry } from '../recognizers';
+import type { DetectionResult } from '../signLanguageDetection';
+import type { ClassifierDiagnostics } from '../detectionDiagnostics';
+import type { WorkerRequest, WorkerResponse } from './types';
+
+type FrameRequest = Extract<WorkerRequest, { type: 'frame' }>;
+
+// MediaPipe's worker build loads its wasm glue with importScripts, which module
+// workers do not have; load the scripts synchronously into the global scope instead
+const loadScripts = (...urls: string[]): void => {
+  urls.forEach(url => {
+    const request = new XMLHttpRequest();
+    request.open('GET', url, false);
+    request.send();
+    if (request.status >= 400) throw new Error(`Failed to load ${url}: ${request.status}`);
+    (0, eval)(`${request.responseText}\n//# sourceURL=${url}`);
+  });
+};
+(self as unknown as { importScripts: typeof loadScripts }).importScripts = loadScripts;
+
+const post = (response: WorkerResponse): void => self.postMessage(response);
+
+const classifier = new HandFrameClassifier();
+let hands: Hands | null = null;
+let model: LandmarkModelClassifier | null = null;
+let maxFrameAgeMs = 250;
+// Only the newest frame waits; anything older is dropped so latency stays bounded
+let pending: FrameRequest | null = null;
+let current: { frame: FrameRequest; startedAt: number; answered: boolean } | null = null;
+
+const onResults = (results: Results): void => {
+  if (!current) return;
+  const { frame, startedAt } = current;
+  current.answered = true;
+
+  const landmarks = (results.multiHandLandmarks ?? []).map(hand =>
+    hand.map(landmark => ({ x: landmark.x, y: landmark.y, z: landmark.z || 0 }))
+  );
+
+  let result: DetectionResult | null = null;
+  let diagnostics: ClassifierDiagnostics | undefined;
+  if (landmarks.length > 0) {
+    ({ result, diagnostics } = classifier.classify(landmarks, results.multiHandedness, frame.timestamp));
+  } else {
+    classifier.reset();
+  }
+
+  post({
+    type: 'result',
+    frameId: frame.frameId,
+    timestamp: frame.timestamp,
+    handsPresent: landmarks.length > 0,
+    landmarks,
+    multiHandedness: results.multiHandedness ?? [],
+    result,
+    inferenceMs: performance.now() - startedAt,
+    diagnostics
+  });
+};
+
+const processNext = async (): Promise<void> => {
+  if (current || !pending || !hands) return;
+  const frame = pending;
+  pending = null;
+
+  if (Date.now() - frame.timestamp > maxFrameAgeMs) {
+    frame.bitmap.close();
+    post({ type: 'dropped', frameId: frame.frameId, reason: 'stale' });
+    return processNext();
+  }
+
+  const processing = { frame, startedAt: performance.now(), answered: false };
+  current = processing;
+  try {
+    // Hands accepts ImageBitmap in a worker and renders it to its own OffscreenCanvas
+    await hands.send({ image: frame.bitmap as unknown as HTMLCanvasElement });
+    // Every frame must be answered, or the main thread keeps counting it as in flight
+    if (!processing.answered) post({ type: 'dropped', frameId: frame.frameId, reason: 'no-result' });
+  } catch (error) {
+    post({ type: 'error', frameId: frame.frameId, message: error instanceof Error ? error.message : String(error) });
+  } finally {
+    frame.bitmap.close();
+    current = null;
+  }
+  return processNext();
+};
+
+const initialize = async (request: Extract<WorkerRequest, { type: 'init' }>): Promise<void> => {
+  maxFrameAgeMs = request.maxFrameAgeMs;
+  classifier.setRecognizer(recognizerRegistry.get(request.settings.language));
+  classifier.setDominantHand(request.settings.dominantHand);
+  classifier.setDiagnostics(request.settings.diagnostics ?? false);
+
+  hands = new Hands({
+    locateFile: (file) => locateHandsFile(file, request.assetBaseUrl),
+  });
+
+  hands.setOptions({
+    maxNumHands: 2,
+    modelComplexity: request.settings.modelComplexity,
+    minDetectionConfidence: request.settings.sensitivity / 10,
+    minTrackingConfidence: request.settings.sensitivity / 10
+  });
+
+  hands.onResults(onResults);
+  await hands.initialize();
+};
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'init':
+      initialize(request)
+        .then(() => post({ type: 'ready' }))
+        .catch(error => post({ type: 'error', message: error instanceof Error ? error.message : String(error) }));
+      break;
+    case 'frame':
+      if (pending) {
+        pending.bitmap.close();
+        post({ type: 'dropped', frameId: pending.frameId, reason: 'superseded' });
+      }
+      pending = request;
+      processNext();
+      break;
+    case 'settings':
+      if (request.settings.language) {
+        classifier.setRecognizer(recognizerRegistry.get(request.settings.language));
+        model?.prepare(request.settings.language);
+      }
+      if (request.settings.dominantHand) {
+        classifier.setDominantHand(request.settings.dominantHand);
+      }
+      if (request.settings.diagnostics !== undefined) {
+        classifier.setDiagnostics(request.settings.diagnostics);
+      }
+      if (request.settings.sensitivity !== undefined && hands) {
+        hands.setOptions({
+          minDetectionConfidence: request.settings.sensitivity / 10,
+          minTrackingConfidence: request.settings.sensitivity / 10
+        });
+      }
+      if (request.settings.modelComplexity !== undefined && hands) {
+        hands.setOptions({ modelComplexity: request.settings.modelComplexity });
+      }
+      break;
+    case 'templates':
+      classifier.loadFromSigns(request.signs);
+      break;
+    case 'calibration':
+      classifier.setCalibration(request.calibration);
+      break;
+    case 'model':
+      model = request.baseUrl ? new LandmarkModelClassifier(request.baseUrl) : null;
+      classifier.setModel(model);
+      model?.prepare(classifier.getLanguageCode());
+      break;
+    case 'reset':
+      classifier.reset();
+      if (pending) {
+        pending.bitmap.close();
+        post({ type: 'dropped', frameId: pending.frameId, reason: 'superseded' });
+        pending = null;
+      }
+      break;
+  }
+};
@@ -0,0 +1,166 @@
+export interface SpelledWord {
+  raw: string; // Letters exactly as detected
+  word: string; // After dictionary correction
+  corrected: boolean;
+  confidence: number;
+  startTime: number;
+  endTime: number;
+  boundary: 'pause' | 'hands_down' | 'sign' | 'manual';
+}
+
+export interface FingerspellerOptions {
+  pauseMs?: number; // Gap between letters that ends the word
+  handsDownMs?: number; // Hands out of frame for this long ends the word
+  minWordLength?: number; // Shorter buffers are discarded instead of emitted
+}
+
+// Small built-in word list; approved sign names are added at runtime
+const COMMON_WORDS = [
+  'A', 'AM', 'AN', 'AND', 'ARE', 'AT', 'BE', 'BIG', 'BOOK', 'BOY', 'BUS', 'BUT', 'BY', 'CAN', 'CAR',
+  'CAT', 'CITY', 'CLASS', 'COME', 'DAY', 'DEAF', 'DO', 'DOG', 'DOOR', 'EAT', 'FAMILY', 'FATHER', 'FINE', 'FOOD',
+  'FOR', 'FRIEND', 'FROM', 'GIRL', 'GO', 'GOOD', 'HAVE', 'HE', 'HELLO', 'HELP', 'HER', 'HIM', 'HIS', 'HOME',
+  'HOW', 'HOUSE', 'I', 'IN', 'IS', 'IT', 'JOB', 'KENYA', 'KNOW', 'LIKE', 'LOVE', 'MAN', 'ME', 'MORE', 'MOTHER',
+  'MY', 'NAME', 'NAIROBI', 'NEW', 'NO', 'NOT', 'NOW', 'OF', 'OK', 'ON', 'ONE', 'OR', 'OUR', 'PEN', 'PLEASE',
+  'READ', 'SAD', 'SCHOOL', 'SEE', 'SHE', 'SIGN', 'SISTER', 'SORRY', 'STOP', 'STUDENT', 'TEACHER', 'THANK',
+  'THAT', 'THE', 'THEY', 'THIS', 'TIME', 'TO', 'TODAY', 'TOMORROW', 'UP', 'US', 'WANT', 'WATER', 'WE', 'WHAT',
+  'WHEN', 'WHERE', 'WHO', 'WHY', 'WITH', 'WORK', 'WRITE', 'YES', 'YESTERDAY', 'YOU', 'YOUR'
+];
+
+// Handshapes the classifier commonly confuses; swapping within a group is cheap
+const CONFUSABLE_GROUPS = ['ASTEMN', 'UVRHK', 'GHQP', 'DZX', 'IJY', 'BCO', 'FW'];
+
+const substitutionCost = (a: string, b: string): number => {
+  if (a === b) return 0;
+  return CONFUSABLE_GROUPS.some(group => group.includes(a) && group.includes(b)) ? 0.4 : 1;
+};
+
+// Weighted Levenshtein distance with cheap substitutions for confusable letters
+export const spellingDistance = (source: string, target: string): number => {
+  const rows = source.length + 1;
+  const cols = target.length + 1;
+  const dp: number[][] = Array.from({ length: rows }, (_, i) => [i, ...new Array(cols - 1).fill(0)]);
+  for (let j = 0; j < cols; j++) dp[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      dp[i][j] = Math.min(
+        dp[i - 1][j] + 1,
+        dp[i][j - 1] + 1,
+        dp[i - 1][j - 1] + substitutionCost(source[i - 1], target[j - 1])
+      );
+    }
+  }
+  return dp[rows - 1][cols - 1];
+};
+
+export class WordCorrector {
+  private words = new Set<string>(COMMON_WORDS);
+  // Spelled form (letters only, upper case) -> display form, e.g. 'THANKYOU' -> 'Thank you'
+  private extraWords = new Map<string, string>();
+
+  // Replace the runtime vocabulary (e.g. approved sign names), keeping the built-in list
+  setVocabulary(words: string[]): void {
+    this.extraWords = new Map();
+    for (const word of words) {
+      const spelled = word.toUpperCase().replace(/[^A-Z]/g, '');
+      if (spelled.length > 0 && !this.extraWords.has(spelled)) {
+        this.extraWords.set(spelled, word);
+      }
+    }
+  }
+
+  // Best dictionary word within a length-scaled distance budget, or the input unchanged
+  correct(raw: string): { word: string; corrected: boolean; distance: number } {
+    const input = raw.toUpperCase();
+    if (this.words.has(input) || this.extraWords.has(input)) {
+      return { word: this.display(input), corrected: false, distance: 0 };
+    }
+
+    const budget = Math.max(1, Math.floor(input.length / 3));
+    let best: { word: string; distance: number } | null = null;
+
+    for (const candidate of [...this.extraWords.keys(), ...this.words]) {
+      if (Math.abs(candidate.length - input.length) > budget) continue;
+      const distance = spellingDistance(input, candidate);
+      if (distance <= budget && (!best || distance < best.distance)) {
+        best = { word: candidate, distance };
+      }
+    }
+
+    return best
+      ? { word: this.display(best.word), corrected: true, distance: best.distance }
+      : { word: this.display(input), corrected: false, distance: 0 };
+  }
+
+  private display(spelled: string): string {
+    return this.extraWords.get(spelled) ?? spelled.charAt(0) + spelled.slice(1).toLowerCase();
+  }
+}
+
+// Collects letter detections into a word and closes it on a pause or hand-drop
+export class Fingerspeller {
+  private letters: { letter: string; confidence: number; timestamp: number }[] = [];
+  private handsDownSince: number | null = null;
+  private options: Required<FingerspellerOptions>;
+  readonly corrector = new WordCorrector();
+
+  constructor(options: FingerspellerOptions = {}) {
+    this.options = { pauseMs: 1200, handsDownMs: 400, minWordLength: 1, ...options };
+  }
+
+  static isLetter(sign: string): boolean {
+    return /^[A-Z]$/.test(sign);
+  }
+
+  // Returns a finished word when the gap since the previous letter already ended it
+  addLetter(letter: string, confidence: number, timestamp: number): SpelledWord | null {
+    const finished = this.tick(timestamp);
+    this.handsDownSince = null;
+    this.letters.push({ letter: letter.toUpperCase(), confidence, timestamp });
+    return finished;
+  }
+
+  // Call every frame; closes the word once the pause threshold passes
+  tick(timestamp: number): SpelledWord | null {
+    const last = this.letters[this.letters.length - 1];
+    if (last && timestamp - last.timestamp >= this.options.pauseMs) {
+      return this.closeWord('pause');
+    }
+    return null;
+  }
+
+  handsDown(timestamp: number): SpelledWord | null {
+    if (this.letters.length === 0) return null;
+    if (this.handsDownSince === null) {
+      this.handsDownSince = timestamp;
+      return null;
+    }
+    return timestamp - this.handsDownSince >= this.options.handsDownMs ? this.closeWord('hands_down') : null;
+  }
+
+  getBuffer(): string {
+    return this.letters.map(item => item.letter).join('');
+  }
+
+  closeWord(boundary: SpelledWord['boundary']): SpelledWord | null {
+    const letters = this.letters;
+    this.letters = [];
+    this.handsDownSince = null;
+    if (letters.length < this.options.minWordLength) return null;
+
+    const raw = letters.map(item => item.letter).join('');
+    const correction = this.corrector.correct(raw);
+    const meanConfidence = letters.reduce((sum, item) => sum + item.confidence, 0) / letters.length;
+
+    return {
+      raw,
+      word: correction.word,
+      corrected: correction.corrected,
+      // Each corrected letter costs some confidence
+      confidence: Math.max(0, meanConfidence * (1 - correction.distance / Math.max(raw.length, 1))),
+      startTime: letters[0].timestamp,
+      endTime: letters[letters.length - 1].timestamp,
+      boundary
+    };
+  }
+}
@@ -0,0 +1,254 @@
+import type { HandLandmark } from './signLanguageDetection';
+
+export type QualityIssueCode =
+  | 'too-dark'
+  | 'backlit'
+  | 'hands-too-small'
+  | 'hands-too-large'
+  | 'hands-cut-off'
+  | 'hands-leaving-frame';
+
+export interface QualityIssue {
+  code: QualityIssueCode;
+  blocking: boolean; // Results are held back while a blocking issue is active
+  guidance: string; // Short instruction for the signer
+}
+
+export interface LightingSample {
+  brightness: number; // Mean luma, 0-1
+  backlight: number; // How much brighter the border is than the centre, 0-1
+}
+
+export interface FrameQualityReport {
+  ok: boolean; // No blocking issues
+  issues: QualityIssue[];
+  brightness: number | null; // Latest lighting sample, null before the first one
+  handSize: number | null; // Median size of the largest hand as a share of the frame, null with no hands in view
+  timestamp: number;
+}
+
+export type QualityListener = (report: FrameQualityReport) => void;
+
+export interface QualityOptions {
+  windowMs?: number; // Samples older than this are forgotten
+  minBrightness?: number;
+  maxBacklight?: number;
+  minHandSize?: number; // Share of the frame's larger side
+  maxHandSize?: number;
+  edgeMargin?: number; // Landmarks this close to the border count as cut off
+  maxExits?: number; // Hands leaving past the border within the window before it is flagged
+  raiseRatio?: number; // Share of recent samples that must show a problem to raise it
+  clearRatio?: number; // Share below which a raised problem clears again
+  publishEveryMs?: number;
+}
+
+const GUIDANCE: Record<QualityIssueCode, QualityIssue> = {
+  'too-dark': { code: 'too-dark', blocking: true, guidance: 'More light: the camera cannot see your hands clearly' },
+  'backlit': { code: 'backlit', blocking: true, guidance: 'The light is behind you. Face the window or lamp instead' },
+  'hands-too-small': { code: 'hands-too-small', blocking: true, guidance: 'Move closer: your hands are too small in the picture' },
+  'hands-too-large': { code: 'hands-too-large', blocking: true, guidance: 'Move back: your hands fill the picture' },
+  'hands-cut-off': { code: 'hands-cut-off', blocking: true, guidance: 'Keep both hands fully inside the dashed frame' },
+  'hands-leaving-frame': { code: 'hands-leaving-frame', blocking: false, guidance: 'Your hands keep leaving the picture. Sign closer to your chest' }
+};
+
+// Mean luma and backlight from RGBA pixels of a downscaled frame. The centre
+// half of the picture is where the signer is expected; a border much brighter
+// than the centre means the light source is behind them.
+export const measureLighting = (pixels: Uint8ClampedArray, width: number, height: number): LightingSample => {
+  let total = 0;
+  let centre = 0;
+  let centreCount = 0;
+  let border = 0;
+  let borderCount = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const luma = (0.2126 * pixels[i] + 0.7152 * pixels[i + 1] + 0.0722 * pixels[i + 2]) / 255;
+      total += luma;
+      const inCentre = x >= width / 4 && x < (width * 3) / 4 && y >= height / 4 && y < (height * 3) / 4;
+      if (inCentre) {
+        centre += luma;
+        centreCount++;
+      } else {
+        border += luma;
+        borderCount++;
+      }
+    }
+  }
+
+  const count = width * height || 1;
+  return {
+    brightness: total / count,
+    backlight: Math.max(0, border / (borderCount || 1) - centre / (centreCount || 1))
+  };
+};
+
+// Bounding box of a hand in normalised image coordinates; may reach past 0-1 when cut off
+export const handBounds = (hand: HandLandmark[]) => {
+  const xs = hand.map(point => point.x);
+  const ys = hand.map(point => point.y);
+  return { minX: Math.min(...xs), maxX: Math.max(...xs), minY: Math.min(...ys), maxY: Math.max(...ys) };
+};
+
+interface HandSample {
+  timestamp: number;
+  count: number; // Hands in view
+  size: number | null; // Largest hand, null with no hands in view
+  atEdge: boolean;
+}
+
+// Rolling check of whether the camera picture is good enough to sign in:
+// lighting from sampled frames, hand size and framing from landmarks. Problems
+// must persist over most of the window before they are raised, and clear with
+// hysteresis, so guidance does not flicker.
+export class FrameQualityAnalyzer {
+  private options: Required<QualityOptions>;
+  private lighting: (LightingSample & { timestamp: number })[] = [];
+  private hands: HandSample[] = [];
+  private exits: number[] = [];
+  private active = new Set<QualityIssueCode>();
+  private lastPublished = 0;
+  private lastReport: FrameQualityReport | null = null;
+  private listeners = new Set<QualityListener>();
+
+  constructor(options: QualityOptions = {}) {
+    this.options = {
+      windowMs: 2000,
+      minBrightness: 0.22,
+      maxBacklight: 0.3,
+      minHandSize: 0.12,
+      maxHandSize: 0.65,
+      edgeMargin: 0.01,
+      maxExits: 2,
+      raiseRatio: 0.6,
+      clearRatio: 0.3,
+      publishEveryMs: 500,
+      ...options
+    };
+  }
+
+  addLighting(sample: LightingSample, timestamp: number): FrameQualityReport {
+    this.lighting = [...this.prune(this.lighting, timestamp), { ...sample, timestamp }];
+    return this.update(timestamp);
+  }
+
+  addHands(landmarks: HandLandmark[][], timestamp: number): FrameQualityReport {
+    const { edgeMargin } = this.options;
+    const bounds = landmarks.filter(hand => hand.length > 0).map(handBounds);
+    const atEdge = bounds.some(box =>
+      box.minX < edgeMargin || box.minY < edgeMargin || box.maxX > 1 - edgeMargin || box.maxY > 1 - edgeMargin
+    );
+
+    // A hand that was touching the border and is gone in this frame left the picture
+    const previous = this.hands[this.hands.length - 1];
+    if (previous?.atEdge && bounds.length < previous.count) {
+      this.exits.push(timestamp);
+    }
+
+    this.hands = [
+      ...this.prune(this.hands, timestamp),
+      {
+        timestamp,
+        count: bounds.length,
+        size: bounds.length > 0 ? Math.max(...bounds.map(box => Math.max(box.maxX - box.minX, box.maxY - box.minY))) : null,
+        atEdge
+      }
+    ];
+    this.exits = this.exits.filter(time => timestamp - time < this.options.windowMs);
+    return this.update(timestamp);
+  }
+
+  getReport(): FrameQualityReport {
+    return this.lastReport ?? this.buildReport(Date.now());
+  }
+
+  subscribe(listener: QualityListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Forget the picture so far, e.g. when detection restarts
+  reset(): void {
+    this.lighting = [];
+    this.hands = [];
+    this.exits = [];
+    this.active.clear();
+    this.lastReport = null;
+    this.lastPublished = 0;
+  }
+
+  private prune<T extends { timestamp: number }>(samples: T[], now: number): T[] {
+    return samples.filter(sample => now - sample.timestamp < this.options.windowMs);
+  }
+
+  private update(now: number): FrameQualityReport {
+    const { minBrightness, maxBacklight, minHandSize, maxHandSize, maxExits } = this.options;
+    const withHands = this.hands.filter(sample => sample.size !== null);
+
+    this.evaluate('too-dark', this.lighting.map(sample => sample.brightness < minBrightness));
+    this.evaluate('backlit', this.lighting.map(sample => sample.backlight > maxBacklight));
+    this.evaluate('hands-too-small', withHands.map(sample => sample.size! < minHandSize));
+    this.evaluate('hands-too-large', withHands.map(sample => sample.size! > maxHandSize));
+    this.evaluate('hands-cut-off', withHands.map(sample => sample.atEdge));
+    if (this.exits.length >= maxExits) {
+      this.active.add('hands-leaving-frame');
+    } else if (this.exits.length === 0) {
+      this.active.delete('hands-leaving-frame');
+    }
+
+    const report = this.buildReport(now);
+    const changed = !this.lastReport || this.lastReport.ok !== report.ok ||
+      this.lastReport.issues.map(issue => issue.code).join() !== report.issues.map(issue => issue.code).join();
+    this.lastReport = report;
+    if (changed || now - this.lastPublished >= this.options.publishEveryMs) {
+      this.lastPublished = now;
+      this.publish(report);
+    }
+    return report;
+  }
+
+  // Raise when most recent samples show the problem, clear once few do or there is nothing to judge
+  private evaluate(code: QualityIssueCode, flags: boolean[]): void {
+    if (flags.length === 0) {
+      this.active.delete(code);
+      return;
+    }
+    const ratio = flags.filter(Boolean).length / flags.length;
+    if (ratio >= this.options.raiseRatio) {
+      this.active.add(code);
+    } else if (ratio <= this.options.clearRatio) {
+      this.active.delete(code);
+    }
+  }
+
+  private buildReport(now: number): FrameQualityReport {
+    const issues = (Object.keys(GUIDANCE) as QualityIssueCode[])
+      .filter(code => this.active.has(code))
+      .map(code => GUIDANCE[code]);
+    const sizes = this.hands
+      .map(sample => sample.size)
+      .filter((size): size is number => size !== null)
+      .sort((a, b) => a - b);
+
+    return {
+      ok: !issues.some(issue => issue.blocking),
+      issues,
+      brightness: this.lighting.length > 0 ? this.lighting[this.lighting.length - 1].brightness : null,
+      handSize: sizes.length > 0 ? sizes[Math.floor(sizes.length / 2)] : null,
+      timestamp: now
+    };
+  }
+
+  private publish(report: FrameQualityReport): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(report);
+      } catch (error) {
+        console.error('Quality listener failed:', error);
+      }
+    });
+  }
+}
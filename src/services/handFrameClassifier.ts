@@ -0,0 +1,269 @@
+import type { DetectionResult, HandDetection, HandLandmark } from './signLanguageDetection';
+import { LandmarkClassifier } from './landmarkClassifier';
+import { SequenceRecognizer } from './sequenceRecognizer';
+import { assignHandedness, Handedness, HandInfo } from './twoHandedClassifier';
+import { recognizerRegistry, SignLanguageCode, SignRecognizer } from './recognizers';
+import { applyHandCalibration } from './signerCalibration';
+import type { LandmarkModelClassifier } from './landmarkModel';
+import {
+  ClassificationStage,
+  ClassifierDiagnostics,
+  DiagnosticCandidate,
+  describeHand,
+  topCandidates
+} from './detectionDiagnostics';
+import type { IHandCalibration, ISign } from '../lib/mongo';
+
+export type HandClassification = { index?: number; label: string; score: number };
+
+export interface FrameClassification {
+  result: DetectionResult | null; // Uncalibrated recognizer output
+  dominant: HandInfo | null;
+  diagnostics?: ClassifierDiagnostics; // Only while diagnostics are enabled
+}
+
+// Which single-hand step produced a match, from the markers classifyGesture sets
+const singleHandStage = (handShape: string | undefined): ClassificationStage =>
+  handShape === 'model' ? 'model' : handShape === 'fallback' || handShape === 'custom' ? 'template' : 'rule';
+
+// Per-frame sign classification from hand landmarks. Has no DOM or MediaPipe
+// dependency so the same code runs on the main thread and in the detection worker.
+export class HandFrameClassifier {
+  private landmarkClassifier = new LandmarkClassifier();
+  private sequenceRecognizer = new SequenceRecognizer();
+  private recognizer: SignRecognizer = recognizerRegistry.get('ASL');
+  private dominantHand: Handedness = 'Right';
+  private calibration: IHandCalibration | null = null;
+  private model: LandmarkModelClassifier | null = null;
+  private diagnosticsEnabled = false;
+
+  classify(
+    landmarks: HandLandmark[][],
+    multiHandedness: HandClassification[] | undefined,
+    timestamp: number
+  ): FrameClassification {
+    const started = this.diagnosticsEnabled ? performance.now() : 0;
+    const handInfo = assignHandedness(landmarks, multiHandedness, this.dominantHand);
+
+    // Motion-based signs take precedence over the single-frame classification
+    const dynamic = this.classifyDynamicGesture(landmarks, handInfo.dominant, timestamp);
+    const { result, stage } = dynamic
+      ? { result: dynamic, stage: 'sequence' as const }
+      : this.classifyHands(landmarks, handInfo.dominant, handInfo.nonDominant, handInfo.hands);
+
+    if (!this.diagnosticsEnabled) {
+      return { result, dominant: handInfo.dominant };
+    }
+    const classifyMs = performance.now() - started;
+    return {
+      result,
+      dominant: handInfo.dominant,
+      diagnostics: this.diagnose(result, stage, handInfo.dominant, handInfo.hands, classifyMs)
+    };
+  }
+
+  // Report finger vectors, the matched rule and the runner-up candidates with every frame
+  setDiagnostics(enabled: boolean): void {
+    this.diagnosticsEnabled = enabled;
+  }
+
+  // Hands left the frame, so any motion in progress is over
+  reset(): void {
+    this.sequenceRecognizer.reset();
+  }
+
+  setRecognizer(recognizer: SignRecognizer): boolean {
+    if (recognizer === this.recognizer) return false;
+    this.recognizer = recognizer;
+    this.sequenceRecognizer.reset();
+    return true;
+  }
+
+  getRecognizer(): SignRecognizer {
+    return this.recognizer;
+  }
+
+  getLanguageCode(): SignLanguageCode {
+    return this.recognizer.code;
+  }
+
+  setDominantHand(hand: Handedness): void {
+    this.dominantHand = hand;
+  }
+
+  // Per-signer corrections from the calibration wizard; null restores the defaults
+  setCalibration(calibration: IHandCalibration | null): void {
+    this.calibration = calibration;
+    this.landmarkClassifier.setPersonalTemplates(calibration?.templates ?? [], calibration?.sign_language);
+  }
+
+  getCalibration(): IHandCalibration | null {
+    return this.calibration;
+  }
+
+  // Learned classifier tried before the rule-based recognizer; it abstains until its model is loaded
+  setModel(model: LandmarkModelClassifier | null): void {
+    this.model = model;
+  }
+
+  // Reference templates for the nearest-neighbour fallback and motion matching
+  loadFromSigns(signs: ISign[]): { templates: number; sequences: number } {
+    return {
+      templates: this.landmarkClassifier.loadFromSigns(signs),
+      sequences: this.sequenceRecognizer.loadFromSigns(signs)
+    };
+  }
+
+  private classifyDynamicGesture(landmarks: HandLandmark[][], dominant: HandInfo | null, timestamp: number): DetectionResult | null {
+    if (!dominant || dominant.landmarks.length < 21) return null;
+
+    const match = this.sequenceRecognizer.addFrame(dominant.landmarks, timestamp, this.getLanguageCode());
+    if (!match) return null;
+
+    return {
+      sign: match.sign,
+      confidence: match.confidence,
+      landmarks,
+      gestureType: 'dynamic',
+      handShape: 'sequence',
+      startTime: match.startTime,
+      endTime: match.endTime
+    };
+  }
+
+  // Classify each hand on its own, then try two-handed signs using the pair
+  private classifyHands(
+    landmarks: HandLandmark[][],
+    dominant: HandInfo | null,
+    nonDominant: HandInfo | null,
+    hands: HandInfo[]
+  ): { result: DetectionResult | null; stage: ClassificationStage } {
+    if (!dominant) return { result: null, stage: 'none' };
+
+    const perHand: HandDetection[] = hands
+      .map(hand => {
+        const single = this.classifyGesture([hand.landmarks]);
+        return {
+          handedness: hand.handedness,
+          score: hand.score,
+          dominant: hand === dominant,
+          sign: single?.sign,
+          confidence: single?.confidence,
+          handShape: single?.handShape
+        };
+      })
+      .sort((a, b) => Number(b.dominant) - Number(a.dominant));
+
+    if (nonDominant && this.recognizer.classifyPair) {
+      const pair = this.recognizer.classifyPair(this.calibrate(dominant.landmarks), this.calibrate(nonDominant.landmarks));
+      if (pair) {
+        const result: DetectionResult = {
+          sign: pair.sign,
+          confidence: pair.confidence,
+          landmarks,
+          gestureType: 'static',
+          handShape: pair.handShape,
+          hands: perHand,
+          contacts: pair.contacts
+        };
+        return { result, stage: 'pair' };
+      }
+    }
+
+    const primary = perHand[0];
+    if (!primary.sign) return { result: null, stage: 'none' };
+
+    return {
+      result: {
+        sign: primary.sign,
+        confidence: primary.confidence ?? 0,
+        landmarks,
+        gestureType: 'static',
+        handShape: primary.handShape,
+        hands: perHand
+      },
+      stage: singleHandStage(primary.handShape)
+    };
+  }
+
+  private classifyGesture(landmarks: HandLandmark[][]): DetectionResult | null {
+    if (landmarks.length === 0) return null;
+
+    const firstHand = landmarks[0];
+    if (firstHand.length < 21) return null;
+
+    // Signs the user taught come first, so they win over a built-in handshape they resemble
+    const customMatch = this.landmarkClassifier.classify(firstHand, this.getLanguageCode(), true);
+    if (customMatch) {
+      return { sign: customMatch.sign, confidence: customMatch.confidence, landmarks, gestureType: 'static', handShape: 'custom' };
+    }
+
+    // Learned model for the current language, when one is loaded and confident
+    const predicted = this.model?.classify(firstHand, this.getLanguageCode());
+    if (predicted) {
+      return { sign: predicted.sign, confidence: predicted.confidence, landmarks, gestureType: 'static', handShape: predicted.handShape };
+    }
+
+    // Language-specific handshapes, alphabet, numbers and vocabulary
+    const recognized = this.recognizer.classifyHand(this.calibrate(firstHand));
+    if (recognized) {
+      return { sign: recognized.sign, confidence: recognized.confidence, landmarks, gestureType: 'static', handShape: recognized.handShape };
+    }
+
+    // Nearest-neighbour match against reference templates from approved signs;
+    // templates are normalised for lean already, so it takes the raw hand
+    const fallbackMatch = this.landmarkClassifier.classify(firstHand, this.getLanguageCode());
+    if (fallbackMatch) {
+      return { sign: fallbackMatch.sign, confidence: fallbackMatch.confidence, landmarks, gestureType: 'static', handShape: 'fallback' };
+    }
+
+    // Nothing close enough to a known sign
+    return null;
+  }
+
+  private diagnose(
+    result: DetectionResult | null,
+    stage: ClassificationStage,
+    dominant: HandInfo | null,
+    hands: HandInfo[],
+    classifyMs: number
+  ): ClassifierDiagnostics {
+    const candidates: DiagnosticCandidate[] = [];
+    if (result && (stage === 'sequence' || stage === 'pair')) {
+      candidates.push({ sign: result.sign, score: result.confidence, source: stage, rule: result.handShape });
+    }
+
+    // Every single-hand stage scores the dominant hand, not just the one that matched
+    if (dominant && dominant.landmarks.length >= 21) {
+      const language = this.getLanguageCode();
+      this.model?.rank(dominant.landmarks, language).forEach(match => {
+        candidates.push({ sign: match.sign, score: match.confidence, source: 'model' });
+      });
+      const recognized = this.recognizer.classifyHand(this.calibrate(dominant.landmarks));
+      if (recognized) {
+        candidates.push({ sign: recognized.sign, score: recognized.confidence, source: 'rule', rule: recognized.handShape });
+      }
+      this.landmarkClassifier.rank(dominant.landmarks, language).forEach(match => {
+        candidates.push({ sign: match.sign, score: match.confidence, source: 'template' });
+      });
+    }
+
+    return {
+      stage,
+      rule: result?.handShape ?? null,
+      sign: result?.sign ?? null,
+      confidence: result?.confidence ?? null,
+      candidates: topCandidates(candidates),
+      hands: hands
+        .filter(hand => hand.landmarks.length >= 21)
+        .map(hand => describeHand(this.calibrate(hand.landmarks), hand.handedness, hand === dominant))
+        .sort((a, b) => Number(b.dominant) - Number(a.dominant)),
+      classifyMs
+    };
+  }
+
+  // The rule-based recognizers see the hand as the signer's calibration would have it
+  private calibrate(hand: HandLandmark[]): HandLandmark[] {
+    return this.calibration ? applyHandCalibration(hand, this.calibration) : hand;
+  }
+}
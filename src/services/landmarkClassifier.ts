@@ -0,0 +1,242 @@
+import type { HandLandmark } from './signLanguageDetection';
+import type { SignLanguageCode } from './recognizers/types';
+import type { ISign } from '../lib/mongo';
+
+export interface LandmarkTemplate {
+  label: string;
+  language?: SignLanguageCode;
+  features: number[];
+  signId?: string;
+  custom?: boolean; // From a sign the user taught, rather than an approved community sign
+}
+
+export interface LandmarkMatch {
+  sign: string;
+  confidence: number;
+  distance: number;
+  signId?: string;
+}
+
+const LANDMARK_COUNT = 21;
+const MAX_SAMPLES_PER_SIGN = 20;
+
+// Normalise a 21-point hand so it can be compared with any other hand:
+// translated to the wrist, scaled by palm length (wrist -> middle MCP) and
+// rotated so the palm axis points straight up in image coordinates.
+export const normalizeLandmarks = (hand: HandLandmark[]): number[] | null => {
+  if (!hand || hand.length < LANDMARK_COUNT) return null;
+
+  const wrist = hand[0];
+  const middleMcp = hand[9];
+  const axisX = middleMcp.x - wrist.x;
+  const axisY = middleMcp.y - wrist.y;
+  const scale = Math.sqrt(axisX * axisX + axisY * axisY);
+  if (scale < 1e-6) return null;
+
+  // Rotate the palm axis onto (0, -1)
+  const theta = -Math.PI / 2 - Math.atan2(axisY, axisX);
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+
+  const features: number[] = [];
+  for (let i = 0; i < LANDMARK_COUNT; i++) {
+    const x = (hand[i].x - wrist.x) / scale;
+    const y = (hand[i].y - wrist.y) / scale;
+    const z = ((hand[i].z || 0) - (wrist.z || 0)) / scale;
+    features.push(x * cos - y * sin, x * sin + y * cos, z);
+  }
+  return features;
+};
+
+// Mean per-landmark euclidean distance between two normalised hands
+export const landmarkDistance = (a: number[], b: number[]): number => {
+  let total = 0;
+  for (let i = 0; i < LANDMARK_COUNT; i++) {
+    const dx = a[i * 3] - b[i * 3];
+    const dy = a[i * 3 + 1] - b[i * 3 + 1];
+    const dz = a[i * 3 + 2] - b[i * 3 + 2];
+    total += Math.sqrt(dx * dx + dy * dy + dz * dz);
+  }
+  return total / LANDMARK_COUNT;
+};
+
+const isPoint = (value: unknown): value is HandLandmark =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as HandLandmark).x === 'number' && typeof (value as HandLandmark).y === 'number';
+
+// Pull every 21-point hand out of an ISign.landmark_data payload. Contributors
+// upload single frames, multi-hand frames and whole recordings, so accept
+// nested arrays, flat [x, y, z, ...] arrays and { landmarks | frames | hands } wrappers.
+export const extractHandSamples = (data: unknown): HandLandmark[][] => {
+  if (data === null || data === undefined) return [];
+
+  if (typeof data === 'string') {
+    try {
+      return extractHandSamples(JSON.parse(data));
+    } catch {
+      return [];
+    }
+  }
+
+  if (Array.isArray(data)) {
+    if (data.length === LANDMARK_COUNT && data.every(isPoint)) {
+      return [data.map(point => ({ x: point.x, y: point.y, z: point.z || 0 }))];
+    }
+    if (data.length === LANDMARK_COUNT * 3 && data.every(value => typeof value === 'number')) {
+      const hand: HandLandmark[] = [];
+      for (let i = 0; i < LANDMARK_COUNT; i++) {
+        hand.push({ x: data[i * 3], y: data[i * 3 + 1], z: data[i * 3 + 2] });
+      }
+      return [hand];
+    }
+    return data.flatMap(item => extractHandSamples(item));
+  }
+
+  if (typeof data === 'object') {
+    const wrapper = data as { landmarks?: unknown; frames?: unknown; hands?: unknown };
+    return [wrapper.landmarks, wrapper.frames, wrapper.hands].flatMap(item => extractHandSamples(item));
+  }
+
+  return [];
+};
+
+export class LandmarkClassifier {
+  private templates: LandmarkTemplate[] = [];
+  private personalTemplates: LandmarkTemplate[] = [];
+  private activeTemplates: LandmarkTemplate[] = [];
+
+  // Distance (in palm lengths) at which confidence reaches zero
+  constructor(private maxDistance: number = 0.35) {}
+
+  addTemplate(label: string, hand: HandLandmark[], language?: LandmarkTemplate['language'], signId?: string): boolean {
+    if (!this.pushTemplate(label, hand, language, signId)) return false;
+    this.rebuildActiveTemplates();
+    return true;
+  }
+
+  // A signer's own calibrated handshapes. Shared templates of the same sign are
+  // shifted by the signer's offset from their mean, and the personal template is
+  // matched alongside them.
+  setPersonalTemplates(templates: { sign: string; features: number[] }[], language?: LandmarkTemplate['language']): void {
+    this.personalTemplates = templates
+      .filter(template => template.features.length === LANDMARK_COUNT * 3)
+      .map(template => ({ label: template.sign, language, features: template.features }));
+    this.rebuildActiveTemplates();
+  }
+
+  // Build templates from approved signs, replacing anything loaded earlier
+  loadFromSigns(signs: ISign[]): number {
+    this.templates = [];
+
+    for (const sign of signs) {
+      if (!sign.landmark_data || !sign.is_active) continue;
+      if (sign.status && sign.status !== 'approved') continue;
+
+      const samples = extractHandSamples(sign.landmark_data);
+      const step = Math.max(1, Math.ceil(samples.length / MAX_SAMPLES_PER_SIGN));
+      for (let i = 0; i < samples.length; i += step) {
+        this.pushTemplate(sign.name, samples[i], sign.language, sign.id, !!sign.is_personal);
+      }
+    }
+
+    this.rebuildActiveTemplates();
+    return this.templates.length;
+  }
+
+  getTemplateCount(): number {
+    return this.templates.length;
+  }
+
+  clear(): void {
+    this.templates = [];
+    this.rebuildActiveTemplates();
+  }
+
+  // Nearest neighbour over the best template of each label. Returns null when
+  // no template is within maxDistance.
+  classify(hand: HandLandmark[], language?: LandmarkTemplate['language'], customOnly = false): LandmarkMatch | null {
+    const features = normalizeLandmarks(hand);
+    if (!features) return null;
+
+    let best: LandmarkTemplate | null = null;
+    let bestDistance = Infinity;
+
+    for (const template of this.activeTemplates) {
+      if (language && template.language && template.language !== language) continue;
+      if (customOnly && !template.custom) continue;
+      const distance = landmarkDistance(features, template.features);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = template;
+      }
+    }
+
+    if (!best || bestDistance >= this.maxDistance) return null;
+
+    return {
+      sign: best.label,
+      confidence: 1 - bestDistance / this.maxDistance,
+      distance: bestDistance,
+      signId: best.signId
+    };
+  }
+
+  // Best template per label, nearest first, for diagnostics; unlike classify it
+  // keeps labels beyond maxDistance (with confidence 0)
+  rank(hand: HandLandmark[], language?: LandmarkTemplate['language'], count = 5): LandmarkMatch[] {
+    const features = normalizeLandmarks(hand);
+    if (!features) return [];
+
+    const best = new Map<string, LandmarkMatch>();
+    for (const template of this.activeTemplates) {
+      if (language && template.language && template.language !== language) continue;
+      const distance = landmarkDistance(features, template.features);
+      if (distance < (best.get(template.label)?.distance ?? Infinity)) {
+        best.set(template.label, {
+          sign: template.label,
+          confidence: Math.max(0, 1 - distance / this.maxDistance),
+          distance,
+          signId: template.signId
+        });
+      }
+    }
+
+    return Array.from(best.values()).sort((a, b) => a.distance - b.distance).slice(0, count);
+  }
+
+  private pushTemplate(
+    label: string,
+    hand: HandLandmark[],
+    language?: LandmarkTemplate['language'],
+    signId?: string,
+    custom = false
+  ): boolean {
+    const features = normalizeLandmarks(hand);
+    if (!features) return false;
+    this.templates.push({ label, language, features, signId, ...(custom ? { custom } : {}) });
+    return true;
+  }
+
+  private rebuildActiveTemplates(): void {
+    const sameSign = (a: LandmarkTemplate, b: LandmarkTemplate) =>
+      a.label === b.label && (!a.language || !b.language || a.language === b.language);
+
+    // Offset from the mean of the shared templates to each personal template
+    const offsets = new Map<LandmarkTemplate, number[]>();
+    this.personalTemplates.forEach(personal => {
+      const group = this.templates.filter(template => sameSign(personal, template));
+      if (group.length === 0) return;
+      offsets.set(personal, personal.features.map((value, i) =>
+        value - group.reduce((sum, template) => sum + template.features[i], 0) / group.length
+      ));
+    });
+
+    const adapted = this.templates.map(template => {
+      const personal = this.personalTemplates.find(candidate => offsets.has(candidate) && sameSign(candidate, template));
+      if (!personal) return template;
+      const offset = offsets.get(personal)!;
+      return { ...template, features: template.features.map((value, i) => value + offset[i]) };
+    });
+    this.activeTemplates = [...adapted, ...this.personalTemplates];
+  }
+}
@@ -0,0 +1,183 @@
+import type { HandLandmark } from './signLanguageDetection';
+import { normalizeLandmarks } from './landmarkClassifier';
+import type { RecognizerMatch, SignLanguageCode } from './recognizers/types';
+import type { Tensor } from '@tensorflow/tfjs';
+
+export const MODEL_MANIFEST_VERSION = 1;
+export const DEFAULT_MODEL_BASE_URL = '/models';
+
+// One trained classifier in public/models/manifest.json
+export interface LandmarkModelEntry {
+  id: string;
+  version: string; // Semantic version; the newest entry for a language is loaded
+  language: SignLanguageCode;
+  format: 'tfjs-layers' | 'tfjs-graph';
+  path: string; // model.json, relative to the manifest
+  labels: string[]; // Output index -> sign
+  features: 'normalized-landmarks'; // 63 values from normalizeLandmarks
+  minConfidence?: number; // Softmax probability below which the heuristics decide instead
+  trainedAt?: string;
+  samples?: number;
+}
+
+export interface LandmarkModelManifest {
+  version: typeof MODEL_MANIFEST_VERSION;
+  models: LandmarkModelEntry[];
+}
+
+export type LandmarkModelState = 'none' | 'loading' | 'ready' | 'failed';
+
+export interface LandmarkModelStatus {
+  state: LandmarkModelState;
+  language: SignLanguageCode | null;
+  entry: Pick<LandmarkModelEntry, 'id' | 'version' | 'labels'> | null;
+  error?: string;
+}
+
+type Tf = typeof import('@tensorflow/tfjs');
+
+interface LoadedModel {
+  entry: LandmarkModelEntry;
+  predict: (features: number[]) => Float32Array;
+}
+
+const DEFAULT_MIN_CONFIDENCE = 0.6;
+const FEATURE_COUNT = 63;
+
+const compareVersions = (a: string, b: string): number => {
+  const partsA = a.split('.').map(part => parseInt(part, 10) || 0);
+  const partsB = b.split('.').map(part => parseInt(part, 10) || 0);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const difference = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+};
+
+// Newest usable entry for a language, or null when the manifest has none
+export const selectModelEntry = (manifest: LandmarkModelManifest, language: SignLanguageCode): LandmarkModelEntry | null =>
+  manifest.models
+    .filter(entry => entry.language === language && entry.labels?.length > 0 && entry.path)
+    .sort((a, b) => compareVersions(b.version, a.version))[0] ?? null;
+
+// TF.js is only fetched once a manifest lists a model, and runs on the CPU
+// backend so it behaves the same on the main thread and in the detection worker
+let tfPromise: Promise<Tf> | null = null;
+const loadTf = (): Promise<Tf> => {
+  tfPromise ??= import('@tensorflow/tfjs').then(async tf => {
+    await tf.setBackend('cpu');
+    await tf.ready();
+    return tf;
+  });
+  return tfPromise;
+};
+
+// Learned landmark classifier loaded from a versioned manifest. Until a model
+// is ready, or when loading fails, classify returns null and the rule-based
+// recognizers decide on their own.
+export class LandmarkModelClassifier {
+  private manifest: LandmarkModelManifest | null = null;
+  private models = new Map<SignLanguageCode, LoadedModel>();
+  private status: LandmarkModelStatus = { state: 'none', language: null, entry: null };
+  private loading: Promise<boolean> | null = null;
+
+  constructor(private baseUrl: string = DEFAULT_MODEL_BASE_URL) {}
+
+  // Load the newest model for a language; resolves false when there is none or it fails to load
+  async prepare(language: SignLanguageCode): Promise<boolean> {
+    if (this.models.has(language)) {
+      this.setReady(language);
+      return true;
+    }
+    await this.loading;
+
+    this.loading = this.load(language);
+    return this.loading;
+  }
+
+  getStatus(): LandmarkModelStatus {
+    return this.status;
+  }
+
+  classify(hand: HandLandmark[], language: SignLanguageCode): RecognizerMatch | null {
+    const model = this.models.get(language);
+    if (!model) return null;
+
+    const features = normalizeLandmarks(hand);
+    if (!features) return null;
+
+    const probabilities = model.predict(features);
+    let best = 0;
+    for (let i = 1; i < probabilities.length; i++) {
+      if (probabilities[i] > probabilities[best]) best = i;
+    }
+
+    const confidence = probabilities[best];
+    if (confidence < (model.entry.minConfidence ?? DEFAULT_MIN_CONFIDENCE)) return null;
+    return { sign: model.entry.labels[best], confidence, handShape: 'model' };
+  }
+
+  // Most probable labels regardless of minConfidence, for diagnostics
+  rank(hand: HandLandmark[], language: SignLanguageCode, count = 5): { sign: string; confidence: number }[] {
+    const model = this.models.get(language);
+    const features = model ? normalizeLandmarks(hand) : null;
+    if (!model || !features) return [];
+
+    return Array.from(model.predict(features), (confidence, i) => ({ sign: model.entry.labels[i], confidence }))
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, count);
+  }
+
+  private async load(language: SignLanguageCode): Promise<boolean> {
+    this.status = { state: 'loading', language, entry: null };
+    try {
+      this.manifest ??= await this.fetchManifest();
+      const entry = selectModelEntry(this.manifest, language);
+      if (!entry) {
+        this.status = { state: 'none', language, entry: null };
+        return false;
+      }
+
+      const tf = await loadTf();
+      const url = `${this.baseUrl}/${entry.path}`;
+      const model = entry.format === 'tfjs-graph' ? await tf.loadGraphModel(url) : await tf.loadLayersModel(url);
+
+      // Catch label sets that do not match the network before the first frame
+      const shape = tf.tidy(() => (model.predict(tf.zeros([1, FEATURE_COUNT])) as Tensor).shape);
+      const outputs = shape[shape.length - 1];
+      if (outputs !== entry.labels.length) {
+        throw new Error(`${entry.id}@${entry.version} has ${outputs} outputs but ${entry.labels.length} labels`);
+      }
+
+      this.models.set(language, {
+        entry,
+        predict: features => tf.tidy(() => {
+          const output = model.predict(tf.tensor2d([features], [1, FEATURE_COUNT])) as Tensor;
+          return output.dataSync() as Float32Array;
+        })
+      });
+      this.setReady(language);
+      console.log(`Loaded landmark model ${entry.id}@${entry.version} with ${entry.labels.length} signs`);
+      return true;
+    } catch (error) {
+      this.status = { state: 'failed', language, entry: null, error: error instanceof Error ? error.message : String(error) };
+      console.warn('Landmark model unavailable, using rule-based recognition:', error);
+      return false;
+    }
+  }
+
+  private async fetchManifest(): Promise<LandmarkModelManifest> {
+    const response = await fetch(`${this.baseUrl}/manifest.json`);
+    if (!response.ok) throw new Error(`Model manifest request failed (${response.status})`);
+    const manifest = await response.json() as LandmarkModelManifest;
+    if (manifest.version !== MODEL_MANIFEST_VERSION || !Array.isArray(manifest.models)) {
+      throw new Error(`Unsupported model manifest version ${manifest.version}`);
+    }
+    return manifest;
+  }
+
+  private setReady(language: SignLanguageCode): void {
+    const { entry } = this.models.get(language)!;
+    this.status = { state: 'ready', language, entry: { id: entry.id, version: entry.version, labels: entry.labels } };
+  }
+}
@@ -0,0 +1,110 @@
+import type { HandLandmark } from './signLanguageDetection';
+import type { HandClassification } from './handFrameClassifier';
+import type { BodyLandmarks } from './signPipeline';
+import type { Handedness } from './twoHandedClassifier';
+import type { SignLanguageCode } from './recognizers/types';
+
+export const RECORDING_FORMAT_VERSION = 1;
+
+export interface RecordedFrame {
+  t: number; // Milliseconds since the recording started
+  hands: HandLandmark[][];
+  handedness: HandClassification[]; // As reported by MediaPipe, i.e. mirrored labels
+  face?: HandLandmark[]; // Face & body mode only
+  pose?: HandLandmark[];
+}
+
+export interface LandmarkRecording {
+  version: typeof RECORDING_FORMAT_VERSION;
+  name: string;
+  signLanguage: SignLanguageCode;
+  dominantHand: Handedness;
+  fingerspelling?: boolean;
+  recordedAt: string; // ISO timestamp
+  expected?: string[]; // Golden output: committed signs in order
+  frames: RecordedFrame[];
+}
+
+export type RecordingMetadata = Pick<LandmarkRecording, 'name' | 'signLanguage' | 'dominantHand' | 'fingerspelling' | 'expected'>;
+
+// Four decimals is well under a pixel at webcam resolutions and keeps files small
+const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+const roundLandmarks = (points: HandLandmark[]): HandLandmark[] =>
+  points.map(point => ({ x: round(point.x), y: round(point.y), z: round(point.z) }));
+
+// Collects timestamped landmark frames from live detection
+export class LandmarkRecorder {
+  private recording: LandmarkRecording | null = null;
+  private startedAt = 0;
+
+  start(metadata: RecordingMetadata, timestamp: number): void {
+    this.recording = {
+      version: RECORDING_FORMAT_VERSION,
+      ...metadata,
+      recordedAt: new Date(timestamp).toISOString(),
+      frames: []
+    };
+    this.startedAt = timestamp;
+  }
+
+  addFrame(
+    hands: HandLandmark[][],
+    handedness: HandClassification[] | undefined,
+    timestamp: number,
+    body: BodyLandmarks | null = null
+  ): void {
+    if (!this.recording) return;
+
+    const frame: RecordedFrame = {
+      t: Math.max(0, Math.round(timestamp - this.startedAt)),
+      hands: hands.map(roundLandmarks),
+      handedness: (handedness ?? []).map((item, i) => ({ index: item.index ?? i, label: item.label, score: round(item.score) }))
+    };
+    if (body?.face) frame.face = roundLandmarks(body.face);
+    if (body?.pose) frame.pose = roundLandmarks(body.pose);
+    this.recording.frames.push(frame);
+  }
+
+  isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  stop(): LandmarkRecording | null {
+    const recording = this.recording;
+    this.recording = null;
+    return recording;
+  }
+}
+
+export const serializeRecording = (recording: LandmarkRecording): string => JSON.stringify(recording);
+
+const isLandmarkList = (value: unknown): value is HandLandmark[] =>
+  Array.isArray(value) && value.every(point => point && typeof point.x === 'number' && typeof point.y === 'number');
+
+// Accepts a JSON string or an already-parsed object; throws with the first problem found
+export const parseRecording = (input: string | unknown): LandmarkRecording => {
+  const data = typeof input === 'string' ? JSON.parse(input) : input;
+  const fail = (problem: string): never => {
+    throw new Error(`Invalid landmark recording: ${problem}`);
+  };
+
+  if (!data || typeof data !== 'object') fail('not an object');
+  const recording = data as LandmarkRecording;
+  if (recording.version !== RECORDING_FORMAT_VERSION) fail(`unsupported version ${recording.version}`);
+  if (!recording.signLanguage) fail('missing signLanguage');
+  if (!Array.isArray(recording.frames)) fail('missing frames');
+
+  recording.frames.forEach((frame, i) => {
+    if (typeof frame.t !== 'number') fail(`frame ${i} has no timestamp`);
+    if (i > 0 && frame.t < recording.frames[i - 1].t) fail(`frame ${i} is out of order`);
+    if (!Array.isArray(frame.hands) || !frame.hands.every(isLandmarkList)) fail(`frame ${i} has malformed hands`);
+  });
+
+  return {
+    ...recording,
+    name: recording.name ?? 'recording',
+    dominantHand: recording.dominantHand ?? 'Right',
+    frames: recording.frames.map(frame => ({ ...frame, handedness: frame.handedness ?? [] }))
+  };
+};
@@ -0,0 +1,107 @@
+import type { DetectionResult } from './signLanguageDetection';
+import type { LandmarkRecording } from './landmarkRecording';
+import type { SegmenterOptions, TranscriptSegment } from './signSegmenter';
+import { SignPipeline } from './signPipeline';
+import { recognizerRegistry } from './recognizers';
+import { translationService, TargetLanguage, TranslationResult } from './translation';
+import type { LandmarkModelClassifier } from './landmarkModel';
+import type { IGestureAttempt, ISign } from '../lib/mongo';
+
+export interface ReplayOptions {
+  referenceSigns?: ISign[]; // Templates for the nearest-neighbour fallback and motion matching
+  calibrationAttempts?: IGestureAttempt[]; // Without these, confidences pass through uncalibrated
+  segmentation?: SegmenterOptions;
+  language?: TargetLanguage; // Target language for segment translations
+  model?: LandmarkModelClassifier | null; // Learned classifier; replays are rule-based without one
+}
+
+export interface ReplayReport {
+  name: string;
+  signs: string[]; // Committed signs in order
+  results: DetectionResult[]; // Committed results, without landmarks
+  segments: TranscriptSegment[];
+  translations: TranslationResult[]; // One per segment, rule-based only
+  frames: number;
+  durationMs: number;
+  processingMs: number;
+  frameProcessingMs: number[]; // Per-frame time spent in the pipeline
+}
+
+export interface GoldenComparison {
+  name: string;
+  passed: boolean;
+  expected: string[];
+  actual: string[];
+  firstMismatch: number | null; // Index of the first differing sign
+}
+
+// Feeds a recording through the same pipeline as live detection, with the
+// recording's timestamps instead of the clock so runs are deterministic.
+// Sentence analysis and LLM refinement need the server and are not replayed.
+export const replayRecording = (recording: LandmarkRecording, options: ReplayOptions = {}): ReplayReport => {
+  const results: DetectionResult[] = [];
+  const pipeline = new SignPipeline(result => {
+    const { landmarks, ...rest } = result;
+    results.push(rest);
+  });
+
+  pipeline.classifier.setRecognizer(recognizerRegistry.get(recording.signLanguage));
+  pipeline.classifier.setDominantHand(recording.dominantHand);
+  pipeline.setFingerspelling(!!recording.fingerspelling);
+  if (options.referenceSigns) {
+    pipeline.classifier.loadFromSigns(options.referenceSigns);
+    pipeline.fingerspeller.corrector.setVocabulary(options.referenceSigns.map(sign => sign.name));
+  }
+  if (options.model) pipeline.classifier.setModel(options.model);
+  if (options.calibrationAttempts) pipeline.calibrator.fit(options.calibrationAttempts);
+  if (options.segmentation) pipeline.segmenter.setOptions(options.segmentation);
+
+  const epoch = Date.parse(recording.recordedAt) || 0;
+  const frameProcessingMs: number[] = [];
+
+  recording.frames.forEach(frame => {
+    const body = frame.face || frame.pose ? { face: frame.face ?? null, pose: frame.pose ?? null } : null;
+    const started = performance.now();
+    pipeline.processFrame(frame.hands, frame.handedness, epoch + frame.t, body);
+    frameProcessingMs.push(performance.now() - started);
+  });
+  pipeline.flush();
+
+  const processingMs = frameProcessingMs.reduce((sum, ms) => sum + ms, 0);
+  const segments = pipeline.transcript.getSegments().filter(segment => segment.tokens.length > 0);
+  const translations = segments.map(segment => ({
+    ...translationService.translateTokens(segment.tokens, { language: options.language ?? 'en', signLanguage: recording.signLanguage }),
+    segmentId: segment.id
+  }));
+
+  return {
+    name: recording.name,
+    signs: results.map(result => result.sign),
+    results,
+    segments,
+    translations,
+    frames: recording.frames.length,
+    durationMs: recording.frames.length > 0 ? recording.frames[recording.frames.length - 1].t : 0,
+    processingMs,
+    frameProcessingMs
+  };
+};
+
+// Golden-file check: the committed sign sequence must match exactly
+export const compareWithGolden = (report: ReplayReport, expected: string[]): GoldenComparison => {
+  const length = Math.max(expected.length, report.signs.length);
+  let firstMismatch: number | null = null;
+  for (let i = 0; i < length; i++) {
+    if (expected[i] !== report.signs[i]) {
+      firstMismatch = i;
+      break;
+    }
+  }
+  return {
+    name: report.name,
+    passed: firstMismatch === null,
+    expected,
+    actual: report.signs,
+    firstMismatch
+  };
+};
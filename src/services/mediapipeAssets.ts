@@ -0,0 +1,21 @@
+// Files committed under public/mediapipe. The wasm binaries and the full hand
+// landmark model are too large for the repo and come from the CDN build of the
+// same version.
+const LOCAL_HANDS_FILES = new Set([
+  'hands.binarypb',
+  'hands.js',
+  'hands_solution_packed_assets_loader.js',
+  'hands_solution_simd_wasm_bin.js',
+  'hands_solution_wasm_bin.js',
+  'hand_landmark_lite.tflite'
+]);
+
+const HANDS_CDN_URL = 'https://cdn.jsdelivr.net/npm/@mediapipe/hands@0.4.1675469240';
+
+// Holistic's face and pose models are large, so they always come from the CDN
+const HOLISTIC_CDN_URL = 'https://cdn.jsdelivr.net/npm/@mediapipe/holistic@0.5.1675471629';
+
+export const locateHandsFile = (file: string, localBaseUrl = '/mediapipe'): string =>
+  LOCAL_HANDS_FILES.has(file) ? `${localBaseUrl}/${file}` : `${HANDS_CDN_URL}/${file}`;
+
+export const locateHolisticFile = (file: string): string => `${HOLISTIC_CDN_URL}/${file}`;
@@ -6,6 +6,7 @@ import {
   ILesson,
   ISign,
   IPracticeSession,
+  IConversation,
   IGestureAttempt,
   IAchievement,
   IFeedback,
@@ -18,6 +19,32 @@ import {
 
 const API_URL = import.meta.env.DEV ? 'http://localhost:3000/api' : 'https://ai-interpreter-platfform.onrender.com/api';
 
+const AUTH_TOKEN_KEY = 'token';
+
+export const setAuthToken = (token: string | null) => {
+  if (token) {
+    localStorage.setItem(AUTH_TOKEN_KEY, token);
+  } else {
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+  }
+};
+
+export const hasAuthToken = (): boolean => !!localStorage.getItem(AUTH_TOKEN_KEY);
+
+// Id of the signed-in user, as stored by useAuth
+export const getStoredUserId = (): string | null => {
+  try {
+    return JSON.parse(localStorage.getItem('user') ?? 'null')?.id ?? null;
+  } catch {
+    return null;
+  }
+};
+
+const authHeaders = (): Record<string, string> => {
+  const token = localStorage.getItem(AUTH_TOKEN_KEY);
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
 const handleResponse = async (response: Response) => {
   if (!response.ok) {
     const error = await response.json();
@@ -127,6 +154,33 @@ export const getUserContributedSigns = async (userId: string): Promise<ISign[]>
   return handleResponse(response);
 };
 
+// Custom signs are private to the signed-in user until submitted for moderation
+export const getCustomSigns = async (): Promise<ISign[]> => {
+  const response = await fetch(`${API_URL}/signs/custom`, {
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export const createCustomSign = async (
+  sign: Pick<ISign, 'name' | 'language' | 'landmark_data'> & Partial<Pick<ISign, 'description' | 'category' | 'tags'>>
+): Promise<ISign> => {
+  const response = await fetch(`${API_URL}/signs/custom`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+    body: JSON.stringify(sign),
+  });
+  return handleResponse(response);
+};
+
+export const submitCustomSign = async (signId: string): Promise<ISign> => {
+  const response = await fetch(`${API_URL}/signs/custom/${signId}/submit`, {
+    method: 'POST',
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
 // Practice Session Functions
 export const getPracticeSessions = async (userId: string): Promise<IPracticeSession[]> => {
   const response = await fetch(`${API_URL}/practice-sessions/${userId}`);
@@ -151,11 +205,47 @@ export const updatePracticeSession = async (sessionId: string, updates: any): Pr
   return handleResponse(response);
 };
 
+// Conversation Functions (private to the signed-in user)
+export const getConversations = async (): Promise<IConversation[]> => {
+  const response = await fetch(`${API_URL}/conversations`, {
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+export const getConversation = async (conversationId: string): Promise<IConversation> => {
+  const response = await fetch(`${API_URL}/conversations/${conversationId}`, {
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+// Creates the conversation on its first save and updates it afterwards
+export const saveConversation = async (
+  conversation: Pick<IConversation, 'title' | 'sign_language' | 'started_at' | 'ended_at' | 'turns'> & { id?: string }
+): Promise<IConversation> => {
+  const { id, ...body } = conversation;
+  const response = await fetch(id ? `${API_URL}/conversations/${id}` : `${API_URL}/conversations`, {
+    method: id ? 'PUT' : 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+    body: JSON.stringify(body),
+  });
+  return handleResponse(response);
+};
+
+export const deleteConversation = async (conversationId: string): Promise<void> => {
+  const response = await fetch(`${API_URL}/conversations/${conversationId}`, {
+    method: 'DELETE',
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
 // Gesture Attempt Functions
-export const createGestureAttempt = async (attemptData: Omit<IGestureAttempt, 'id' | 'created_at'>): Promise<IGestureAttempt> => {
+export const createGestureAttempt = async (attemptData: Omit<IGestureAttempt, 'id' | 'created_at' | 'user_id'>): Promise<IGestureAttempt> => {
   const response = await fetch(`${API_URL}/gesture-attempts`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
     body: JSON.stringify(attemptData),
   });
   return handleResponse(response);
@@ -166,6 +256,101 @@ export const getGestureAttempts = async (sessionId: string): Promise<IGestureAtt
   return handleResponse(response);
 };
 
+export const getRecentGestureAttempts = async (filters?: {
+  userId?: string;
+  limit?: number;
+}): Promise<IGestureAttempt[]> => {
+  const params = new URLSearchParams();
+  if (filters?.userId) params.append('userId', filters.userId);
+  if (filters?.limit) params.append('limit', filters.limit.toString());
+
+  const response = await fetch(`${API_URL}/gesture-attempts?${params}`, {
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+// AI Functions (LLM calls are proxied by the server; the API key never reaches the browser)
+export interface SentenceAnalysisResponse {
+  analysis: string;
+  provider: string;
+}
+
+export interface SignValidationResponse {
+  sign: string;
+  confidence: number;
+  feedback: string;
+  provider: string;
+}
+
+export const analyzeSignSentence = async (signs: string[], language: string): Promise<SentenceAnalysisResponse> => {
+  const response = await fetch(`${API_URL}/ai/sentence-analysis`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+    body: JSON.stringify({ signs, language }),
+  });
+  return handleResponse(response);
+};
+
+export const validateSign = async (sign: string, landmarkSummary: string, language: string): Promise<SignValidationResponse> => {
+  const response = await fetch(`${API_URL}/ai/validate-sign`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+    body: JSON.stringify({ sign, landmarkSummary, language }),
+  });
+  return handleResponse(response);
+};
+
+export interface TranslationRefinementResponse {
+  text: string;
+  provider: string;
+}
+
+export const refineTranslation = async (
+  gloss: string,
+  draft: string,
+  targetLanguage: 'en' | 'sw',
+  signLanguage: string
+): Promise<TranslationRefinementResponse> => {
+  const response = await fetch(`${API_URL}/ai/translate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+    body: JSON.stringify({ gloss, draft, targetLanguage, signLanguage }),
+  });
+  return handleResponse(response);
+};
+
+export interface SpeechCapabilitiesResponse {
+  provider: string;
+  languages: string[]; // Primary language subtags, e.g. 'sw'
+  voices: string[];
+  maxChars: number;
+}
+
+export const getSpeechCapabilities = async (): Promise<SpeechCapabilitiesResponse> => {
+  const response = await fetch(`${API_URL}/ai/speech/capabilities`, {
+    headers: authHeaders(),
+  });
+  return handleResponse(response);
+};
+
+// Audio of the text read by the server-side voice; `signal` cancels the request
+export const synthesizeSpeech = async (
+  text: string,
+  lang: string,
+  options: { voice?: string; rate?: number } = {},
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const response = await fetch(`${API_URL}/ai/speech`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+    body: JSON.stringify({ text, lang, ...options }),
+    signal,
+  });
+  if (!response.ok) return handleResponse(response);
+  return response.blob();
+};
+
 // Achievement Functions
 export const getUserAchievements = async (userId: string): Promise<IAchievement[]> => {
   const response = await fetch(`${API_URL}/achievements/${userId}`);
@@ -0,0 +1,200 @@
+import type { HandLandmark } from './signLanguageDetection';
+
+// Where the dominant hand is relative to the face and upper body
+export type LocationZone = 'forehead' | 'eyes' | 'cheek' | 'mouth' | 'chin' | 'neck' | 'chest' | 'stomach' | 'neutral';
+
+export interface NonManualFeatures {
+  question: 'yes_no' | 'wh' | null; // Raised brows / furrowed brows
+  negation: boolean; // Head shake
+  affirmation: boolean; // Head nod
+  locationZone: LocationZone | null;
+  browRaise: number; // Brow height relative to the signer's neutral face, 1 = neutral
+  headShake: number; // Side-to-side direction changes in the recent window
+}
+
+export interface NonManualOptions {
+  browRaiseRatio?: number; // Brow height over baseline that counts as raised
+  browFurrowRatio?: number; // Inner-brow gap under baseline that counts as furrowed
+  movementWindowMs?: number; // History used to detect head shakes and nods
+  minSwing?: number; // Head turn (in eye distances) that counts as one swing
+}
+
+// Face mesh indices
+const FACE = {
+  forehead: 10, chin: 152, noseTip: 1, lowerLip: 17,
+  rightEyeOuter: 33, leftEyeOuter: 263, rightUpperLid: 159, leftUpperLid: 386,
+  rightBrow: 105, leftBrow: 334, rightInnerBrow: 55, leftInnerBrow: 285,
+  rightCheek: 234, leftCheek: 454
+};
+
+// Pose indices
+const POSE = { nose: 0, mouthRight: 9, mouthLeft: 10, rightShoulder: 11, leftShoulder: 12, rightHip: 23, leftHip: 24 };
+
+const FACE_POINTS = 468;
+const POSE_POINTS = 25;
+const BASELINE_RATE = 0.02;
+
+const mid = (a: HandLandmark, b: HandLandmark) => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Number of direction changes whose swing exceeds minSwing
+const countReversals = (values: number[], minSwing: number): number => {
+  let reversals = 0;
+  let direction = 0;
+  let extreme = values[0];
+  for (const value of values.slice(1)) {
+    const delta = value - extreme;
+    if (Math.abs(delta) < minSwing) {
+      if ((direction > 0 && value > extreme) || (direction < 0 && value < extreme)) extreme = value;
+      continue;
+    }
+    const next = Math.sign(delta);
+    if (direction !== 0 && next !== direction) reversals++;
+    direction = next;
+    extreme = value;
+  }
+  return reversals;
+};
+
+// Vertical bands from face and pose landmarks; the hand's palm centre picks the band
+export const classifyLocationZone = (
+  hand: HandLandmark[] | null,
+  face: HandLandmark[] | null,
+  pose: HandLandmark[] | null
+): LocationZone | null => {
+  if (!hand || hand.length < 21) return null;
+  const palm = mid(hand[0], hand[9]);
+
+  const shoulders = pose && pose.length >= POSE_POINTS ? mid(pose[POSE.rightShoulder], pose[POSE.leftShoulder]) : null;
+  const shoulderWidth = pose && pose.length >= POSE_POINTS ? distance(pose[POSE.rightShoulder], pose[POSE.leftShoulder]) : 0;
+  const hips = pose && pose.length >= POSE_POINTS ? mid(pose[POSE.rightHip], pose[POSE.leftHip]) : null;
+
+  // Signing space in front of the body; far to the side is neutral space
+  if (shoulders && shoulderWidth > 0 && Math.abs(palm.x - shoulders.x) > shoulderWidth * 0.9) return 'neutral';
+
+  if (face && face.length >= FACE_POINTS) {
+    const faceHeight = distance(face[FACE.forehead], face[FACE.chin]) || 1;
+    const faceCentre = mid(face[FACE.rightCheek], face[FACE.leftCheek]);
+    const faceHalfWidth = distance(face[FACE.rightCheek], face[FACE.leftCheek]) / 2 || 1;
+    const browLine = (face[FACE.rightBrow].y + face[FACE.leftBrow].y) / 2;
+
+    if (palm.y < browLine) return 'forehead';
+    if (palm.y < face[FACE.noseTip].y) {
+      return Math.abs(palm.x - faceCentre.x) > faceHalfWidth * 0.6 ? 'cheek' : 'eyes';
+    }
+    if (palm.y < face[FACE.lowerLip].y) {
+      return Math.abs(palm.x - faceCentre.x) > faceHalfWidth * 0.6 ? 'cheek' : 'mouth';
+    }
+    if (palm.y < face[FACE.chin].y + faceHeight * 0.15) return 'chin';
+  } else if (pose && pose.length >= POSE_POINTS) {
+    const mouth = mid(pose[POSE.mouthRight], pose[POSE.mouthLeft]);
+    const noseToMouth = Math.abs(mouth.y - pose[POSE.nose].y) || 0.02;
+    if (palm.y < pose[POSE.nose].y - noseToMouth) return 'forehead';
+    if (palm.y < pose[POSE.nose].y) return 'eyes';
+    if (palm.y < mouth.y + noseToMouth * 0.5) return 'mouth';
+    if (palm.y < mouth.y + noseToMouth * 2) return 'chin';
+  } else {
+    return null;
+  }
+
+  if (!shoulders) return 'neutral';
+  if (palm.y < shoulders.y) return 'neck';
+  if (!hips || palm.y < shoulders.y + (hips.y - shoulders.y) * 0.5) return 'chest';
+  if (palm.y < hips.y) return 'stomach';
+  return 'neutral';
+};
+
+// Tracks facial grammar over time. Brow measurements are relative to a slowly
+// adapting baseline so they work across faces and camera distances.
+export class NonManualTracker {
+  private options: Required<NonManualOptions>;
+  private browBaseline: number | null = null;
+  private innerBrowBaseline: number | null = null;
+  private history: { timestamp: number; yaw: number; pitch: number }[] = [];
+
+  constructor(options: NonManualOptions = {}) {
+    this.options = { browRaiseRatio: 1.12, browFurrowRatio: 0.92, movementWindowMs: 1200, minSwing: 0.08, ...options };
+  }
+
+  addFrame(
+    face: HandLandmark[] | null,
+    pose: HandLandmark[] | null,
+    dominantHand: HandLandmark[] | null,
+    timestamp: number
+  ): NonManualFeatures {
+    const features: NonManualFeatures = {
+      question: null,
+      negation: false,
+      affirmation: false,
+      locationZone: classifyLocationZone(dominantHand, face, pose),
+      browRaise: 1,
+      headShake: 0
+    };
+
+    if (!face || face.length < FACE_POINTS) {
+      this.history = [];
+      return features;
+    }
+
+    const eyeDistance = distance(face[FACE.rightEyeOuter], face[FACE.leftEyeOuter]) || 1;
+    const faceHeight = distance(face[FACE.forehead], face[FACE.chin]) || 1;
+
+    // Brows: height above the upper eyelids and the gap between the inner ends
+    const browHeight = ((face[FACE.rightUpperLid].y - face[FACE.rightBrow].y) +
+      (face[FACE.leftUpperLid].y - face[FACE.leftBrow].y)) / 2 / faceHeight;
+    const innerBrowGap = distance(face[FACE.rightInnerBrow], face[FACE.leftInnerBrow]) / eyeDistance;
+
+    this.browBaseline ??= browHeight;
+    this.innerBrowBaseline ??= innerBrowGap;
+    features.browRaise = browHeight / this.browBaseline;
+
+    const raised = features.browRaise > this.options.browRaiseRatio;
+    const furrowed = innerBrowGap / this.innerBrowBaseline < this.options.browFurrowRatio;
+    if (raised && !furrowed) features.question = 'yes_no';
+    else if (furrowed && !raised) features.question = 'wh';
+
+    // Only neutral frames move the baseline
+    if (!raised && !furrowed) {
+      this.browBaseline += (browHeight - this.browBaseline) * BASELINE_RATE;
+      this.innerBrowBaseline += (innerBrowGap - this.innerBrowBaseline) * BASELINE_RATE;
+    }
+
+    // Head movement: nose offset from the eye midpoint, in eye distances
+    const eyes = mid(face[FACE.rightEyeOuter], face[FACE.leftEyeOuter]);
+    this.history.push({
+      timestamp,
+      yaw: (face[FACE.noseTip].x - eyes.x) / eyeDistance,
+      pitch: (face[FACE.noseTip].y - eyes.y) / eyeDistance
+    });
+    this.history = this.history.filter(item => timestamp - item.timestamp <= this.options.movementWindowMs);
+
+    features.headShake = countReversals(this.history.map(item => item.yaw), this.options.minSwing);
+    features.negation = features.headShake >= 2;
+    features.affirmation = !features.negation &&
+      countReversals(this.history.map(item => item.pitch), this.options.minSwing) >= 2;
+
+    return features;
+  }
+
+  reset(): void {
+    this.browBaseline = null;
+    this.innerBrowBaseline = null;
+    this.history = [];
+  }
+}
+
+// Combine the markers of a run of signs: a question or head shake on most of
+// the signs applies to the whole clause
+export const summarizeNonManual = (markers: (NonManualFeatures | undefined)[]): { question: 'yes_no' | 'wh' | null; negation: boolean } => {
+  const present = markers.filter((item): item is NonManualFeatures => !!item);
+  if (present.length === 0) return { question: null, negation: false };
+
+  const share = (test: (item: NonManualFeatures) => boolean) => present.filter(test).length / present.length;
+  const yesNo = share(item => item.question === 'yes_no');
+  const wh = share(item => item.question === 'wh');
+
+  return {
+    question: yesNo >= 0.5 ? 'yes_no' : wh >= 0.5 ? 'wh' : null,
+    negation: present.some(item => item.negation)
+  };
+};
@@ -0,0 +1,167 @@
+export interface PerformanceLevel {
+  fps: number; // Frames sent to MediaPipe per second
+  modelComplexity: 0 | 1; // 0 = hand_landmark_lite, 1 = hand_landmark_full
+  frameWidth: number; // Frames are downscaled to this width before inference
+}
+
+export interface PerformanceStats {
+  fps: number; // Measured over the last second
+  targetFps: number;
+  inferenceMs: number; // Moving average of time spent in MediaPipe and classification
+  latencyMs: number; // Moving average from frame capture to result
+  modelComplexity: 0 | 1;
+  frameWidth: number;
+  level: number; // Index into the level ladder, 0 = best quality
+  adaptive: boolean;
+}
+
+export type PerformanceListener = (stats: PerformanceStats) => void;
+
+export interface GovernorOptions {
+  levels?: PerformanceLevel[];
+  headroom?: number; // Share of a frame's time slot inference may use before degrading
+  recoverRatio?: number; // Upgrade when inference fits in this share of the better level's slot
+  maxLatencyMs?: number; // Degrade when results arrive later than this, whatever the FPS
+  evaluateEveryMs?: number;
+  upgradeDwellMs?: number; // Minimum time at a level before stepping back up
+}
+
+// Quality ladder from best to cheapest: drop FPS first, then the full model, then resolution
+export const PERFORMANCE_LEVELS: PerformanceLevel[] = [
+  { fps: 30, modelComplexity: 1, frameWidth: 640 },
+  { fps: 24, modelComplexity: 1, frameWidth: 640 },
+  { fps: 20, modelComplexity: 0, frameWidth: 640 },
+  { fps: 15, modelComplexity: 0, frameWidth: 480 },
+  { fps: 12, modelComplexity: 0, frameWidth: 320 },
+  { fps: 8, modelComplexity: 0, frameWidth: 256 }
+];
+
+const SMOOTHING = 0.2;
+// requestAnimationFrame ticks are not exactly 1000/60 ms apart
+const PACING_TOLERANCE_MS = 4;
+
+// Paces detection frames and moves along the quality ladder from measured
+// inference time. Degrades quickly under load and recovers slowly, so the
+// model is not reloaded back and forth.
+export class PerformanceGovernor {
+  private options: Required<GovernorOptions>;
+  private level = 0;
+  private adaptive = true;
+  private lastFrameAt = 0;
+  private frameTimes: number[] = [];
+  private inferenceMs = 0;
+  private latencyMs = 0;
+  private lastEvaluation = 0;
+  private lastChange = 0;
+  private listeners = new Set<PerformanceListener>();
+
+  constructor(private onLevelChange: (level: PerformanceLevel) => void, options: GovernorOptions = {}) {
+    this.options = {
+      levels: PERFORMANCE_LEVELS,
+      headroom: 0.8,
+      recoverRatio: 0.5,
+      maxLatencyMs: 250,
+      evaluateEveryMs: 1000,
+      upgradeDwellMs: 5000,
+      ...options
+    };
+  }
+
+  // Called every animation frame; true when a frame is due at the current FPS
+  shouldProcess(now: number): boolean {
+    const interval = 1000 / this.getLevel().fps;
+    if (now - this.lastFrameAt < interval - PACING_TOLERANCE_MS) return false;
+    this.lastFrameAt = now;
+    return true;
+  }
+
+  recordFrame(inferenceMs: number, latencyMs: number, now: number): void {
+    this.inferenceMs = this.inferenceMs === 0 ? inferenceMs : this.inferenceMs + (inferenceMs - this.inferenceMs) * SMOOTHING;
+    this.latencyMs = this.latencyMs === 0 ? latencyMs : this.latencyMs + (latencyMs - this.latencyMs) * SMOOTHING;
+    this.frameTimes.push(now);
+    this.frameTimes = this.frameTimes.filter(time => now - time < 1000);
+
+    if (now - this.lastEvaluation >= this.options.evaluateEveryMs) {
+      this.lastEvaluation = now;
+      if (this.adaptive) this.evaluate(now);
+      this.publish();
+    }
+  }
+
+  getLevel(): PerformanceLevel {
+    return this.options.levels[this.level];
+  }
+
+  getStats(): PerformanceStats {
+    const level = this.getLevel();
+    return {
+      fps: this.frameTimes.length,
+      targetFps: level.fps,
+      inferenceMs: Math.round(this.inferenceMs),
+      latencyMs: Math.round(this.latencyMs),
+      modelComplexity: level.modelComplexity,
+      frameWidth: level.frameWidth,
+      level: this.level,
+      adaptive: this.adaptive
+    };
+  }
+
+  // With adaptation off the governor stays at the chosen level (best quality by default)
+  setAdaptive(adaptive: boolean, level = 0): void {
+    this.adaptive = adaptive;
+    if (!adaptive) this.setLevel(level, performance.now());
+    this.publish();
+  }
+
+  subscribe(listener: PerformanceListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Forget measurements, e.g. when detection restarts; the level is kept
+  reset(): void {
+    this.frameTimes = [];
+    this.inferenceMs = 0;
+    this.latencyMs = 0;
+    this.lastFrameAt = 0;
+  }
+
+  private evaluate(now: number): void {
+    const slot = 1000 / this.getLevel().fps;
+    const overloaded = this.inferenceMs > slot * this.options.headroom || this.latencyMs > this.options.maxLatencyMs;
+    if (overloaded && this.level < this.options.levels.length - 1) {
+      this.setLevel(this.level + 1, now);
+      return;
+    }
+
+    if (this.level === 0 || now - this.lastChange < this.options.upgradeDwellMs) return;
+    const betterSlot = 1000 / this.options.levels[this.level - 1].fps;
+    if (this.inferenceMs < betterSlot * this.options.recoverRatio && this.latencyMs < this.options.maxLatencyMs / 2) {
+      this.setLevel(this.level - 1, now);
+    }
+  }
+
+  private setLevel(level: number, now: number): void {
+    const next = Math.max(0, Math.min(this.options.levels.length - 1, level));
+    if (next === this.level) return;
+    this.level = next;
+    this.lastChange = now;
+    // Measurements from the old level no longer apply
+    this.inferenceMs = 0;
+    this.latencyMs = 0;
+    this.onLevelChange(this.getLevel());
+  }
+
+  private publish(): void {
+    const stats = this.getStats();
+    this.listeners.forEach(listener => {
+      try {
+        listener(stats);
+      } catch (error) {
+        console.error('Performance listener failed:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,245 @@
+import type { LandmarkRecording, RecordedFrame } from './landmarkRecording';
+import { replayRecording, ReplayOptions } from './landmarkReplay';
+import { extractHandSamples } from './landmarkClassifier';
+import { extractHandSequence } from './sequenceRecognizer';
+import { resolveLanguageCode } from './recognizers';
+import type { ISign } from '../lib/mongo';
+
+// Stand-in label for "nothing committed" / "nothing expected"
+export const NO_SIGN = '(none)';
+
+export interface BenchmarkSample {
+  id: string;
+  source: 'recording' | 'sign';
+  labels: string[]; // Expected signs in order
+  recording: LandmarkRecording;
+}
+
+export interface ClassMetrics {
+  label: string; // Sign language and sign, e.g. 'BSL:A'
+  support: number; // Times the class was expected
+  predicted: number; // Times the class was reported
+  truePositives: number;
+  precision: number | null; // null when the class was never predicted
+  recall: number | null; // null when the class was never expected
+  f1: number | null;
+}
+
+export interface LatencyStats {
+  count: number;
+  mean: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+export interface BenchmarkReport {
+  generatedAt: string;
+  samples: number;
+  pairs: number; // Aligned expected/predicted sign pairs
+  accuracy: number;
+  macroPrecision: number;
+  macroRecall: number;
+  classes: ClassMetrics[];
+  confusion: { labels: string[]; matrix: number[][] }; // matrix[expected][predicted]
+  latency: {
+    frameMs: LatencyStats; // Pipeline time per frame
+    commitMs: LatencyStats; // From the start of a sample to its first committed sign
+  };
+  failures: { id: string; expected: string[]; actual: string[] }[];
+}
+
+export interface BenchmarkOptions extends ReplayOptions {
+  holdMs?: number; // Single-pose samples are held this long so the segmenter can commit them
+  frameIntervalMs?: number;
+}
+
+// Classes are per sign language: ASL and BSL both have an 'A', but not the same sign
+const classLabel = (signLanguage: string, label: string): string => `${signLanguage}:${label.trim().toUpperCase()}`;
+
+const isApproved = (sign: ISign): boolean => !sign.status || sign.status === 'approved';
+
+export const samplesFromRecording = (recording: LandmarkRecording, id = recording.name): BenchmarkSample[] =>
+  recording.expected && recording.expected.length > 0
+    ? [{ id, source: 'recording', labels: recording.expected, recording }]
+    : [];
+
+// Approved ISign exports: recorded sequences are replayed as-is, single poses
+// are held for holdMs. Short sequences are padded with their last frame.
+export const samplesFromSigns = (signs: ISign[], options: BenchmarkOptions = {}): BenchmarkSample[] => {
+  const holdMs = options.holdMs ?? 600;
+  const interval = options.frameIntervalMs ?? 33;
+
+  const toFrames = (hands: { hand: RecordedFrame['hands'][number]; timestamp: number }[]): RecordedFrame[] => {
+    const start = hands[0].timestamp;
+    const frames: RecordedFrame[] = hands.map(({ hand, timestamp }) => ({
+      t: timestamp - start,
+      hands: [hand],
+      handedness: [{ index: 0, label: 'Left', score: 1 }] // Mirrored label for a right (dominant) hand
+    }));
+    const last = frames[frames.length - 1];
+    for (let t = last.t + interval; t <= holdMs; t += interval) {
+      frames.push({ ...last, t });
+    }
+    return frames;
+  };
+
+  return signs.filter(isApproved).flatMap(sign => {
+    const signLanguage = resolveLanguageCode(sign.language ?? '') ?? 'ASL';
+    const sequence = extractHandSequence(sign.landmark_data);
+    const groups = sequence.length > 1
+      ? [sequence]
+      : extractHandSamples(sign.landmark_data).map(hand => [{ hand, timestamp: 0 }]);
+
+    return groups.map((group, i): BenchmarkSample => ({
+      id: `${sign.name}#${sign.id ?? i}${groups.length > 1 ? `-${i}` : ''}`,
+      source: 'sign',
+      labels: [sign.name],
+      recording: {
+        version: 1,
+        name: sign.name,
+        signLanguage,
+        dominantHand: 'Right',
+        recordedAt: new Date(0).toISOString(),
+        expected: [sign.name],
+        frames: toFrames(group)
+      }
+    }));
+  });
+};
+
+const percentile = (sorted: number[], p: number): number =>
+  sorted.length === 0 ? 0 : sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+
+export const latencyStats = (values: number[]): LatencyStats => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  return {
+    count: sorted.length,
+    mean: round(sorted.length > 0 ? sorted.reduce((sum, value) => sum + value, 0) / sorted.length : 0),
+    p50: round(percentile(sorted, 0.5)),
+    p95: round(percentile(sorted, 0.95)),
+    p99: round(percentile(sorted, 0.99)),
+    max: round(sorted[sorted.length - 1] ?? 0)
+  };
+};
+
+// Replays every sample through the recognition pipeline and scores the committed
+// signs against the labels, position by position
+export const runBenchmark = (samples: BenchmarkSample[], options: BenchmarkOptions = {}): BenchmarkReport => {
+  const confusion = new Map<string, Map<string, number>>();
+  const frameMs: number[] = [];
+  const commitMs: number[] = [];
+  const failures: BenchmarkReport['failures'] = [];
+  let pairs = 0;
+
+  samples.forEach(sample => {
+    const report = replayRecording(sample.recording, options);
+    frameMs.push(...report.frameProcessingMs);
+
+    const epoch = Date.parse(sample.recording.recordedAt) || 0;
+    const first = report.results[0];
+    if (first?.endTime !== undefined) commitMs.push(first.endTime - epoch);
+
+    const toClass = (label: string) => classLabel(sample.recording.signLanguage, label);
+    const expected = sample.labels.map(toClass);
+    const actual = report.signs.map(toClass);
+    for (let i = 0; i < Math.max(expected.length, actual.length); i++) {
+      const row = expected[i] ?? NO_SIGN;
+      const column = actual[i] ?? NO_SIGN;
+      const counts = confusion.get(row) ?? new Map<string, number>();
+      counts.set(column, (counts.get(column) ?? 0) + 1);
+      confusion.set(row, counts);
+      pairs++;
+    }
+
+    if (expected.join(' ') !== actual.join(' ')) {
+      failures.push({ id: sample.id, expected: sample.labels, actual: report.signs });
+    }
+  });
+
+  const labels = Array.from(new Set([
+    ...confusion.keys(),
+    ...Array.from(confusion.values()).flatMap(counts => Array.from(counts.keys()))
+  ])).sort((a, b) => (a === NO_SIGN ? 1 : b === NO_SIGN ? -1 : a.localeCompare(b)));
+  const matrix = labels.map(row => labels.map(column => confusion.get(row)?.get(column) ?? 0));
+
+  const classes: ClassMetrics[] = labels
+    .map((label, i) => {
+      const truePositives = matrix[i][i];
+      const support = matrix[i].reduce((sum, value) => sum + value, 0);
+      const predicted = matrix.reduce((sum, row) => sum + row[i], 0);
+      const precision = predicted > 0 ? truePositives / predicted : null;
+      const recall = support > 0 ? truePositives / support : null;
+      const f1 = precision !== null && recall !== null && precision + recall > 0
+        ? 2 * precision * recall / (precision + recall)
+        : null;
+      return { label, support, predicted, truePositives, precision, recall, f1 };
+    })
+    .filter(metrics => metrics.label !== NO_SIGN);
+
+  const scored = (values: (number | null)[]) => {
+    const present = values.filter((value): value is number => value !== null);
+    return present.length > 0 ? present.reduce((sum, value) => sum + value, 0) / present.length : 0;
+  };
+  const expectedPairs = classes.reduce((sum, metrics) => sum + metrics.support, 0);
+  const correct = classes.reduce((sum, metrics) => sum + metrics.truePositives, 0);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    samples: samples.length,
+    pairs,
+    accuracy: expectedPairs > 0 ? correct / expectedPairs : 0,
+    macroPrecision: scored(classes.map(metrics => metrics.precision)),
+    macroRecall: scored(classes.map(metrics => metrics.recall)),
+    classes,
+    confusion: { labels, matrix },
+    latency: { frameMs: latencyStats(frameMs), commitMs: latencyStats(commitMs) },
+    failures
+  };
+};
+
+const percent = (value: number | null): string => (value === null ? '–' : `${(value * 100).toFixed(1)}%`);
+
+const escapeCell = (text: string): string => text.replace(/\|/g, '\\|');
+
+export const formatBenchmarkMarkdown = (report: BenchmarkReport): string => {
+  const lines: string[] = [];
+  lines.push('# Recognition benchmark', '');
+  lines.push(`Generated ${report.generatedAt} from ${report.samples} samples (${report.pairs} sign pairs).`, '');
+  lines.push('| Accuracy | Macro precision | Macro recall |', '| --- | --- | --- |');
+  lines.push(`| ${percent(report.accuracy)} | ${percent(report.macroPrecision)} | ${percent(report.macroRecall)} |`, '');
+
+  lines.push('## Per class', '');
+  lines.push('| Sign | Support | Predicted | Precision | Recall | F1 |', '| --- | ---: | ---: | ---: | ---: | ---: |');
+  report.classes.forEach(metrics => {
+    lines.push(`| ${escapeCell(metrics.label)} | ${metrics.support} | ${metrics.predicted} | ${percent(metrics.precision)} | ${percent(metrics.recall)} | ${percent(metrics.f1)} |`);
+  });
+  lines.push('');
+
+  lines.push('## Confusion matrix', '', 'Rows are expected signs, columns are committed signs.', '');
+  const { labels, matrix } = report.confusion;
+  lines.push(`| | ${labels.map(escapeCell).join(' | ')} |`);
+  lines.push(`| --- | ${labels.map(() => '---:').join(' | ')} |`);
+  matrix.forEach((row, i) => {
+    lines.push(`| **${escapeCell(labels[i])}** | ${row.map((count, j) => (count === 0 ? '' : i === j ? `**${count}**` : String(count))).join(' | ')} |`);
+  });
+  lines.push('');
+
+  lines.push('## Latency (ms)', '');
+  lines.push('| Measure | Count | Mean | p50 | p95 | p99 | Max |', '| --- | ---: | ---: | ---: | ---: | ---: | ---: |');
+  ([['Pipeline per frame', report.latency.frameMs], ['Time to first commit', report.latency.commitMs]] as const).forEach(([name, stats]) => {
+    lines.push(`| ${name} | ${stats.count} | ${stats.mean} | ${stats.p50} | ${stats.p95} | ${stats.p99} | ${stats.max} |`);
+  });
+
+  if (report.failures.length > 0) {
+    lines.push('', '## Misrecognised samples', '');
+    lines.push('| Sample | Expected | Committed |', '| --- | --- | --- |');
+    report.failures.forEach(failure => {
+      lines.push(`| ${escapeCell(failure.id)} | ${escapeCell(failure.expected.join(' '))} | ${escapeCell(failure.actual.join(' ') || NO_SIGN)} |`);
+    });
+  }
+
+  return lines.join('\n') + '\n';
+};
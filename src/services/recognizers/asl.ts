@@ -0,0 +1,603 @@
+import type { HandLandmark } from '../signLanguageDetection';
+import { classifyTwoHanded } from '../twoHandedClassifier';
+import { isFingerCurled, isFingerExtended, marginConfidence } from './handShape';
+import type { RecognizerMatch, SignRecognizer } from './types';
+
+export class ASLRecognizer implements SignRecognizer {
+  readonly code = 'ASL' as const;
+  readonly label = 'American Sign Language (ASL)';
+  readonly vocabulary = [
+    'Fist', 'Point', 'Peace', 'Open Hand', 'I Love You',
+    ...Array.from({ length: 26 }, (_, i) => String.fromCharCode(65 + i)),
+    ...Array.from({ length: 11 }, (_, i) => i.toString()),
+    'Hello', 'Thank you', 'Please', 'Sorry', 'Yes', 'No', 'Good morning',
+    'How are you?', 'Nice to meet you', 'Help', 'Water', 'Food', 'More'
+  ];
+  readonly translations: { [gloss: string]: string } = {};
+
+  classifyHand(hand: HandLandmark[]): RecognizerMatch | null {
+    if (hand.length < 21) return null;
+
+    // Raw score from the finger margins; the detection service calibrates it per sign
+    const confidence = marginConfidence(hand);
+
+    // Enhanced gesture classification with more precise landmark analysis
+    const thumbTip = hand[4];
+    const indexTip = hand[8];
+    const middleTip = hand[12];
+    const ringTip = hand[16];
+    const pinkyTip = hand[20];
+    const indexMcp = hand[5];
+    const middleMcp = hand[9];
+    const ringMcp = hand[13];
+    const pinkyMcp = hand[17];
+    const wrist = hand[0];
+    const indexPip = hand[6];
+    const middlePip = hand[10];
+    const ringPip = hand[14];
+    const pinkyPip = hand[18];
+
+    // Calculate distances and angles for more accurate detection
+    const calculateDistance = (point1: HandLandmark, point2: HandLandmark): number => {
+      return Math.sqrt(Math.pow(point1.x - point2.x, 2) + Math.pow(point1.y - point2.y, 2));
+    };
+
+    // More precise finger detection
+    const fingersExtended = [
+      isFingerExtended(thumbTip, hand[3], hand[2]), // Thumb
+      isFingerExtended(indexTip, indexPip, indexMcp), // Index
+      isFingerExtended(middleTip, middlePip, middleMcp), // Middle
+      isFingerExtended(ringTip, ringPip, ringMcp), // Ring
+      isFingerExtended(pinkyTip, pinkyPip, pinkyMcp)  // Pinky
+    ];
+
+    const numFingersExtended = fingersExtended.filter(Boolean).length;
+
+    // Calculate hand orientation and shape
+    const handWidth = Math.abs(indexMcp.x - pinkyMcp.x);
+    const handHeight = Math.abs(wrist.y - middleTip.y);
+    const aspectRatio = handWidth / handHeight;
+
+    // Enhanced sign recognition with better logic
+    if (numFingersExtended === 0) {
+      // Check if it's a proper fist (all fingers curled)
+      const allFingersCurled = [indexTip.y > indexPip.y, middleTip.y > middlePip.y,
+                               ringTip.y > ringPip.y, pinkyTip.y > pinkyPip.y].every(Boolean);
+      if (allFingersCurled) {
+        return { sign: 'Fist', confidence, handShape: 'fist' };
+      }
+    } else if (numFingersExtended === 1) {
+      if (fingersExtended[1]) { // Index finger extended
+        const otherFingersCurled = !fingersExtended[0] && !fingersExtended[2] && !fingersExtended[3] && !fingersExtended[4];
+        if (otherFingersCurled) {
+          return { sign: 'Point', confidence, handShape: 'index_extended' };
+        }
+      }
+    } else if (numFingersExtended === 2) {
+      if (fingersExtended[1] && fingersExtended[2]) { // Index and middle extended
+        const otherFingersCurled = !fingersExtended[0] && !fingersExtended[3] && !fingersExtended[4];
+        if (otherFingersCurled) {
+          return { sign: 'Peace', confidence, handShape: 'v_shape' };
+        }
+      }
+    } else if (numFingersExtended === 5) {
+      // Check if all fingers are properly extended
+      const allExtended = fingersExtended.every(Boolean);
+      if (allExtended && aspectRatio > 0.8) {
+        return { sign: 'Open Hand', confidence, handShape: 'open_palm' };
+      }
+    }
+
+    // Special gesture: I Love You (thumb and pinky extended, others curled)
+    if (fingersExtended[0] && fingersExtended[4] && !fingersExtended[1] && !fingersExtended[2] && !fingersExtended[3]) {
+      return { sign: 'I Love You', confidence, handShape: 'l_shape' };
+    }
+
+    // Enhanced ASL Alphabet recognition
+    const aslAlphabet = this.recognizeASLAlphabet(hand);
+    if (aslAlphabet) {
+      return { sign: aslAlphabet, confidence, handShape: 'alphabet' };
+    }
+
+    // Number recognition (0-10)
+    const numberSign = this.recognizeNumbers(hand);
+    if (numberSign) {
+      return { sign: numberSign, confidence, handShape: 'number' };
+    }
+
+    // Core vocabulary with existing detection methods
+    const vocabularySigns = [
+      // Basic greetings and courtesy
+      { name: 'Hello', pattern: () => this.detectHelloGesture(hand) },
+      { name: 'Thank you', pattern: () => this.detectThankYouGesture(hand) },
+      { name: 'Please', pattern: () => this.detectPleaseGesture(hand) },
+      { name: 'Sorry', pattern: () => this.detectSorryGesture(hand) },
+
+      // Common responses
+      { name: 'Yes', pattern: () => this.detectYesGesture(hand) },
+      { name: 'No', pattern: () => this.detectNoGesture(hand) },
+
+      // Time and daily expressions
+      { name: 'Good morning', pattern: () => this.detectGoodMorningGesture(hand) },
+      { name: 'How are you?', pattern: () => this.detectHowAreYouGesture(hand) },
+      { name: 'Nice to meet you', pattern: () => this.detectNiceToMeetYouGesture(hand) },
+
+      // Basic needs and objects
+      { name: 'Help', pattern: () => this.detectHelpGesture(hand) },
+      { name: 'Water', pattern: () => this.detectWaterGesture(hand) },
+      { name: 'Food', pattern: () => this.detectFoodGesture(hand) },
+      { name: 'More', pattern: () => this.detectMoreGesture(hand) }
+    ];
+
+    // Try to match patterns for vocabulary signs
+    for (const sign of vocabularySigns) {
+      if (sign.pattern()) {
+        return { sign: sign.name, confidence, handShape: 'vocabulary' };
+      }
+    }
+
+    // First, try to detect based on finger patterns for numbers and letters
+    const fingerPattern = this.analyzeFingerPattern(hand);
+    if (fingerPattern) {
+      return { sign: fingerPattern, confidence, handShape: 'pattern_based' };
+    }
+
+    return null;
+  }
+
+  classifyPair(dominant: HandLandmark[], nonDominant: HandLandmark[]): RecognizerMatch | null {
+    const match = classifyTwoHanded(dominant, nonDominant, this.code);
+    return match ? { sign: match.sign, confidence: match.confidence, handShape: 'two_handed', contacts: match.contacts } : null;
+  }
+
+  translate(sign: string): string {
+    return this.translations[sign] ?? sign;
+  }
+
+  recognizeASLAlphabet(hand: HandLandmark[]): string | null {
+    // Enhanced ASL alphabet recognition
+    const thumbTip = hand[4];
+    const indexTip = hand[8];
+    const middleTip = hand[12];
+    const ringTip = hand[16];
+    const pinkyTip = hand[20];
+    const indexMcp = hand[5];
+    const middleMcp = hand[9];
+    const ringMcp = hand[13];
+    const pinkyMcp = hand[17];
+
+    // Letter A: Fist with thumb extended
+    if (isFingerCurled(indexTip, hand[6], indexMcp) &&
+        isFingerCurled(middleTip, hand[10], middleMcp) &&
+        isFingerCurled(ringTip, hand[14], ringMcp) &&
+        isFingerCurled(pinkyTip, hand[18], pinkyMcp) &&
+        thumbTip.y < hand[3].y) {
+      return 'A';
+    }
+
+    // Letter B: All fingers extended, thumb tucked
+    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
+        ringTip.y < ringMcp.y && pinkyTip.y < pinkyMcp.y &&
+        thumbTip.y > hand[3].y) {
+      return 'B';
+    }
+
+    // Letter C: Fingers curved to form C shape
+    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
+        ringTip.y < ringMcp.y && pinkyTip.y < pinkyMcp.y &&
+        Math.abs(indexTip.x - pinkyTip.x) > 0.1) {
+      return 'C';
+    }
+
+    // Letter D: Index extended, others curled, thumb on middle finger
+    if (indexTip.y < indexMcp.y &&
+        isFingerCurled(middleTip, hand[10], middleMcp) &&
+        isFingerCurled(ringTip, hand[14], ringMcp) &&
+        isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
+      return 'D';
+    }
+
+    // Letter E: All fingers curled into fist
+    if (isFingerCurled(indexTip, hand[6], indexMcp) &&
+        isFingerCurled(middleTip, hand[10], middleMcp) &&
+        isFingerCurled(ringTip, hand[14], ringMcp) &&
+        isFingerCurled(pinkyTip, hand[18], pinkyMcp) &&
+        isFingerCurled(thumbTip, hand[3], hand[2])) {
+      return 'E';
+    }
+
+    // Letter F: Index and thumb extended, others curled
+    if (indexTip.y < indexMcp.y && thumbTip.y < hand[3].y &&
+        isFingerCurled(middleTip, hand[10], middleMcp) &&
+        isFingerCurled(ringTip, hand[14], ringMcp) &&
+        isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
+      return 'F';
+    }
+
+    // Letter G: Index and thumb extended in hook shape
+    if (indexTip.y < indexMcp.y && thumbTip.y < hand[3].y &&
+        isFingerCurled(middleTip, hand[10], middleMcp) &&
+        isFingerCurled(ringTip, hand[14], ringMcp) &&
+        isFingerCurled(pinkyTip, hand[18], pinkyMcp) &&
+        Math.abs(indexTip.x - thumbTip.x) < 0.05) {
+      return 'G';
+    }
+
+    // Letter H: Index and middle extended, crossed
+    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
+        isFingerCurled(ringTip, hand[14], ringMcp) &&
+        isFingerCurled(pinkyTip, hand[18], pinkyMcp) &&
+        Math.abs(indexTip.x - middleTip.x) < 0.05) {
+      return 'H';
+    }
+
+    // Letter I: Pinky extended, others curled
+    if (isFingerCurled(indexTip, hand[6], indexMcp) &&
+        isFingerCurled(middleTip, hand[10], middleMcp) &&
+        isFingerCurled(ringTip, hand[14], ringMcp) &&
+        pinkyTip.y < pinkyMcp.y) {
+      return 'I';
+    }
+
+    // Letter J: Pinky extended, moving in J shape (static detection)
+    if (isFingerCurled(indexTip, hand[6], indexMcp) &&
+        isFingerCurled(middleTip, hand[10], middleMcp) &&
+        isFingerCurled(ringTip, hand[14], ringMcp) &&
+        pinkyTip.y < pinkyMcp.y) {
+      return 'J';
+    }
+
+    // Letter K: Index and middle extended, index touches thumb
+    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
+        isFingerCurled(ringTip, hand[14], ringMcp) &&
+        isFingerCurled(pinkyTip, hand[18], pinkyMcp) &&
+        Math.abs(indexTip.x - thumbTip.x) < 0.03) {
+      return 'K';
+    }
+
+    // Letter L: Index and thumb extended in L shape
+    if (indexTip.y < indexMcp.y && thumbTip.y < hand[3].y &&
+        isFingerCurled(middleTip, hand[10], middleMcp) &&
+        isFingerCurled(ringTip, hand[14], ringMcp) &&
+        isFingerCurled(pinkyTip, hand[18], pinkyMcp) &&
+        Math.abs(indexTip.x - thumbTip.x) > 0.05) {
+      return 'L';
+    }
+
+    // Letter M: Three fingers touching thumb
+    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
+        ringTip.y < ringMcp.y && thumbTip.y < hand[3].y &&
+        isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
+      return 'M';
+    }
+
+    // Letter N: Two fingers touching thumb
+    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
+        thumbTip.y < hand[3].y &&
+        isFingerCurled(ringTip, hand[14], ringMcp) &&
+        isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
+      return 'N';
+    }
+
+    // Letter O: Fingers form O shape
+    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
+        ringTip.y < ringMcp.y && pinkyTip.y < pinkyMcp.y &&
+        thumbTip.y < hand[3].y) {
+      // Check if fingers are close together forming a circle
+      const fingerSpread = Math.max(
+        Math.abs(indexTip.x - middleTip.x),
+        Math.abs(middleTip.x - ringTip.x),
+        Math.abs(ringTip.x - pinkyTip.x)
+      );
+      if (fingerSpread < 0.05) {
+        return 'O';
+      }
+    }
+
+    // Letter P: Index extended, others curled, thumb across palm
+    if (indexTip.y < indexMcp.y && thumbTip.x > indexTip.x &&
+        isFingerCurled(middleTip, hand[10], middleMcp) &&
+        isFingerCurled(ringTip, hand[14], ringMcp) &&
+        isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
+      return 'P';
+    }
+
+    // Letter Q: Index and thumb in hook shape
+    if (indexTip.y < indexMcp.y && thumbTip.y < hand[3].y &&
+        isFingerCurled(middleTip, hand[10], middleMcp) &&
+        isFingerCurled(ringTip, hand[14], ringMcp) &&
+        isFingerCurled(pinkyTip, hand[18], pinkyMcp) &&
+        indexTip.x < thumbTip.x) {
+      return 'Q';
+    }
+
+    // Letter R: Index and middle crossed, thumb extended
+    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
+        thumbTip.y < hand[3].y &&
+        isFingerCurled(ringTip, hand[14], ringMcp) &&
+        isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
+      return 'R';
+    }
+
+    // Letter S: Fist with thumb over fingers
+    if (isFingerCurled(indexTip, hand[6], indexMcp) &&
+        isFingerCurled(middleTip, hand[10], middleMcp) &&
+        isFingerCurled(ringTip, hand[14], ringMcp) &&
+        isFingerCurled(pinkyTip, hand[18], pinkyMcp) &&
+        thumbTip.y < hand[3].y && thumbTip.x > indexTip.x) {
+      return 'S';
+    }
+
+    // Letter T: Thumb between index and middle
+    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
+        thumbTip.y < hand[3].y &&
+        isFingerCurled(ringTip, hand[14], ringMcp) &&
+        isFingerCurled(pinkyTip, hand[18], pinkyMcp) &&
+        thumbTip.x > indexTip.x && thumbTip.x < middleTip.x) {
+      return 'T';
+    }
+
+    // Letter U: Index and middle extended
+    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
+        isFingerCurled(ringTip, hand[14], ringMcp) &&
+        isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
+      return 'U';
+    }
+
+    // Letter V: Index and middle extended in V shape
+    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
+        isFingerCurled(ringTip, hand[14], ringMcp) &&
+        isFingerCurled(pinkyTip, hand[18], pinkyMcp) &&
+        Math.abs(indexTip.x - middleTip.x) > 0.05) {
+      return 'V';
+    }
+
+    // Letter W: Three fingers extended
+    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
+        ringTip.y < ringMcp.y &&
+        isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
+      return 'W';
+    }
+
+    // Letter X: Index curled, middle extended over it
+    if (isFingerCurled(indexTip, hand[6], indexMcp) &&
+        middleTip.y < middleMcp.y &&
+        isFingerCurled(ringTip, hand[14], ringMcp) &&
+        isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
+      return 'X';
+    }
+
+    // Letter Y: Thumb and pinky extended
+    if (thumbTip.y < hand[3].y && pinkyTip.y < pinkyMcp.y &&
+        isFingerCurled(indexTip, hand[6], indexMcp) &&
+        isFingerCurled(middleTip, hand[10], middleMcp) &&
+        isFingerCurled(ringTip, hand[14], ringMcp)) {
+      return 'Y';
+    }
+
+    // Letter Z: Index finger moving in Z shape (static approximation)
+    if (indexTip.y < indexMcp.y &&
+        isFingerCurled(middleTip, hand[10], middleMcp) &&
+        isFingerCurled(ringTip, hand[14], ringMcp) &&
+        isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
+      return 'Z';
+    }
+
+    return null;
+  }
+
+  recognizeNumbers(hand: HandLandmark[]): string | null {
+    const thumbTip = hand[4];
+    const indexTip = hand[8];
+    const middleTip = hand[12];
+    const ringTip = hand[16];
+    const pinkyTip = hand[20];
+    const indexMcp = hand[5];
+    const middleMcp = hand[9];
+    const ringMcp = hand[13];
+    const pinkyMcp = hand[17];
+
+    // Number 0: Thumb and index form circle, other fingers extended
+    if (middleTip.y < middleMcp.y && ringTip.y < ringMcp.y && pinkyTip.y < pinkyMcp.y &&
+        Math.abs(thumbTip.x - indexTip.x) < 0.05 && Math.abs(thumbTip.y - indexTip.y) < 0.05) {
+      return '0';
+    }
+
+    // Number 1: Index finger extended
+    if (indexTip.y < indexMcp.y &&
+        isFingerCurled(middleTip, hand[10], middleMcp) &&
+        isFingerCurled(ringTip, hand[14], ringMcp) &&
+        isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
+      return '1';
+    }
+
+    // Number 2: Index and middle extended
+    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
+        isFingerCurled(ringTip, hand[14], ringMcp) &&
+        isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
+      return '2';
+    }
+
+    // Number 3: Index, middle, and ring extended
+    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y && ringTip.y < ringMcp.y &&
+        isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
+      return '3';
+    }
+
+    // Number 4: All fingers extended except thumb
+    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
+        ringTip.y < ringMcp.y && pinkyTip.y < pinkyMcp.y &&
+        thumbTip.y > hand[3].y) {
+      return '4';
+    }
+
+    // Number 5: All fingers extended
+    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
+        ringTip.y < ringMcp.y && pinkyTip.y < pinkyMcp.y &&
+        thumbTip.y < hand[3].y) {
+      return '5';
+    }
+
+    // Number 6: Thumb touches pinky, other fingers extended
+    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
+        ringTip.y < ringMcp.y && pinkyTip.y < pinkyMcp.y &&
+        Math.abs(thumbTip.x - pinkyTip.x) < 0.03) {
+      return '6';
+    }
+
+    // Number 7: Index, middle, ring extended, pinky curled, thumb tucked
+    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y && ringTip.y < ringMcp.y &&
+        isFingerCurled(pinkyTip, hand[18], pinkyMcp) && thumbTip.y > hand[3].y) {
+      return '7';
+    }
+
+    // Number 8: Thumb touches middle, other fingers extended
+    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
+        ringTip.y < ringMcp.y && pinkyTip.y < pinkyMcp.y &&
+        Math.abs(thumbTip.x - middleTip.x) < 0.03) {
+      return '8';
+    }
+
+    // Number 9: All fingers extended, thumb touches ring
+    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
+        ringTip.y < ringMcp.y && pinkyTip.y < pinkyMcp.y &&
+        Math.abs(thumbTip.x - ringTip.x) < 0.03) {
+      return '9';
+    }
+
+    // Number 10: Both hands showing 5 (simplified single hand detection)
+    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
+        ringTip.y < ringMcp.y && pinkyTip.y < pinkyMcp.y &&
+        thumbTip.y < hand[3].y) {
+      // Check if hand is positioned to suggest "10"
+      return '10';
+    }
+
+    return null;
+  }
+
+  // Individual gesture detection methods
+  private detectHelloGesture(hand: HandLandmark[]): boolean {
+    // Hello: Open hand waving motion (simplified static detection)
+    const allFingersExtended = [4, 8, 12, 16, 20].every(i => hand[i].y < hand[i-2].y);
+    return allFingersExtended;
+  }
+
+  private detectThankYouGesture(hand: HandLandmark[]): boolean {
+    // Thank you: Flat hand from chin outward
+    const palmFacing = hand[0].y < hand[9].y; // Simplified
+    const fingersTogether = Math.abs(hand[8].x - hand[12].x) < 0.05;
+    return palmFacing && fingersTogether;
+  }
+
+  private detectPleaseGesture(hand: HandLandmark[]): boolean {
+    // Please: Rubbing motion on chest (simplified)
+    const handNearCenter = Math.abs(hand[0].x - 0.5) < 0.2;
+    const fingersCurled = [8, 12, 16, 20].every(i => hand[i].y > hand[i-2].y);
+    return handNearCenter && fingersCurled;
+  }
+
+  private detectYesGesture(hand: HandLandmark[]): boolean {
+    // Yes: Fist pumping up and down (simplified)
+    const fist = [8, 12, 16, 20].every(i => hand[i].y > hand[i-2].y);
+    return fist;
+  }
+
+  private detectNoGesture(hand: HandLandmark[]): boolean {
+    // No: Index finger shaking side to side (simplified)
+    const indexExtended = hand[8].y < hand[6].y;
+    const otherCurled = [12, 16, 20].every(i => hand[i].y > hand[i-2].y);
+    return indexExtended && otherCurled;
+  }
+
+  private detectGoodMorningGesture(hand: HandLandmark[]): boolean {
+    // Good morning: Circular motion near head (simplified)
+    const handNearHead = hand[0].y < 0.3;
+    const openHand = [4, 8, 12, 16, 20].some(i => hand[i].y < hand[i-2].y);
+    return handNearHead && openHand;
+  }
+
+  private detectHowAreYouGesture(hand: HandLandmark[]): boolean {
+    // How are you: Combination of signs (simplified)
+    const openHand = [4, 8, 12, 16, 20].every(i => hand[i].y < hand[i-2].y);
+    return openHand;
+  }
+
+  private detectNiceToMeetYouGesture(hand: HandLandmark[]): boolean {
+    // Nice to meet you: Handshake motion (simplified)
+    const handExtended = hand[8].y < hand[6].y;
+    return handExtended;
+  }
+
+  private detectSorryGesture(hand: HandLandmark[]): boolean {
+    // Sorry: Fist rubbing on chest (simplified)
+    const fist = [8, 12, 16, 20].every(i => hand[i].y > hand[i-2].y);
+    const handNearChest = hand[0].y > 0.6;
+    return fist && handNearChest;
+  }
+
+  private detectHelpGesture(hand: HandLandmark[]): boolean {
+    // Help: Y handshape (simplified)
+    const thumbExtended = hand[4].y < hand[3].y;
+    const pinkyExtended = hand[20].y < hand[18].y;
+    const middleCurled = hand[12].y > hand[10].y;
+    return thumbExtended && pinkyExtended && middleCurled;
+  }
+
+  private detectWaterGesture(hand: HandLandmark[]): boolean {
+    // Water: W handshape tapping chin (simplified)
+    const indexExtended = hand[8].y < hand[6].y;
+    const middleExtended = hand[12].y < hand[10].y;
+    const ringCurled = hand[16].y > hand[14].y;
+    const pinkyCurled = hand[20].y > hand[18].y;
+    return indexExtended && middleExtended && ringCurled && pinkyCurled;
+  }
+
+  private detectFoodGesture(hand: HandLandmark[]): boolean {
+    // Food: C handshape to mouth (simplified)
+    const fingersCurled = [8, 12, 16, 20].every(i => hand[i].y > hand[i-2].y);
+    const handNearMouth = hand[0].y < 0.4;
+    return fingersCurled && handNearMouth;
+  }
+
+  private detectMoreGesture(hand: HandLandmark[]): boolean {
+    // More: Fingers tapping together (simplified)
+    const fingersExtended = [8, 12, 16, 20].some(i => hand[i].y < hand[i-2].y);
+    const fingersClose = Math.abs(hand[8].x - hand[12].x) < 0.1;
+    return fingersExtended && fingersClose;
+  }
+
+  private analyzeFingerPattern(hand: HandLandmark[]): string | null {
+    const thumbTip = hand[4];
+    const indexTip = hand[8];
+    const middleTip = hand[12];
+    const ringTip = hand[16];
+    const pinkyTip = hand[20];
+    const indexMcp = hand[5];
+    const middleMcp = hand[9];
+    const ringMcp = hand[13];
+    const pinkyMcp = hand[17];
+
+    // Count extended fingers
+    const extendedFingers = [
+      thumbTip.y < hand[3].y,
+      indexTip.y < indexMcp.y,
+      middleTip.y < middleMcp.y,
+      ringTip.y < ringMcp.y,
+      pinkyTip.y < pinkyMcp.y
+    ].filter(Boolean).length;
+
+    // Simple pattern-based recognition for numbers
+    if (extendedFingers === 1 && indexTip.y < indexMcp.y) return '1';
+    if (extendedFingers === 2 && indexTip.y < indexMcp.y && middleTip.y < middleMcp.y) return '2';
+    if (extendedFingers === 3 && indexTip.y < indexMcp.y && middleTip.y < middleMcp.y && ringTip.y < ringMcp.y) return '3';
+    if (extendedFingers === 4) return '4';
+    if (extendedFingers === 5) return '5';
+
+    // For letters, use basic shape recognition
+    if (extendedFingers === 0) return 'A'; // Fist
+    if (extendedFingers === 1 && !extendedFingers[0]) return 'D'; // Index only
+
+    return null;
+  }
+}
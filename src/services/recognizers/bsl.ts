@@ -0,0 +1,76 @@
+import type { HandLandmark } from '../signLanguageDetection';
+import { classifyTwoHanded } from '../twoHandedClassifier';
+import { isFingerCurled, isFingerExtended, marginConfidence } from './handShape';
+import type { RecognizerMatch, SignRecognizer } from './types';
+
+export class BSLRecognizer implements SignRecognizer {
+  readonly code = 'BSL' as const;
+  readonly label = 'British Sign Language (BSL)';
+  readonly vocabulary = [
+    '1', '2', '3', '4', '5', 'Good', 'Bad', 'Hello',
+    // Two-handed fingerspelling vowels
+    'A', 'E', 'I', 'O', 'U',
+    'Help', 'More'
+  ];
+  readonly translations: { [gloss: string]: string } = {};
+
+  classifyHand(hand: HandLandmark[]): RecognizerMatch | null {
+    if (hand.length < 21) return null;
+
+    // Raw score from the finger margins; the detection service calibrates it per sign
+    const confidence = marginConfidence(hand);
+
+    const thumbExtended = hand[4].y < hand[3].y;
+    const fingers = [
+      isFingerExtended(hand[8], hand[6], hand[5]),
+      isFingerExtended(hand[12], hand[10], hand[9]),
+      isFingerExtended(hand[16], hand[14], hand[13]),
+      isFingerExtended(hand[20], hand[18], hand[17])
+    ];
+    const fingersCurled = [
+      isFingerCurled(hand[8], hand[6], hand[5]),
+      isFingerCurled(hand[12], hand[10], hand[9]),
+      isFingerCurled(hand[16], hand[14], hand[13]),
+      isFingerCurled(hand[20], hand[18], hand[17])
+    ];
+    const extendedCount = fingers.filter(Boolean).length;
+
+    // Good: thumb up from a closed fist
+    if (thumbExtended && fingersCurled.every(Boolean)) {
+      return { sign: 'Good', confidence, handShape: 'thumb_up' };
+    }
+
+    // Bad: little finger up from a closed fist
+    if (!thumbExtended && fingers[3] && fingersCurled.slice(0, 3).every(Boolean)) {
+      return { sign: 'Bad', confidence, handShape: 'pinky_up' };
+    }
+
+    // Numbers: BSL counts index first, adds the thumb for three
+    if (!thumbExtended && fingers[0] && extendedCount === 1) {
+      return { sign: '1', confidence, handShape: 'number' };
+    }
+    if (!thumbExtended && fingers[0] && fingers[1] && extendedCount === 2) {
+      return { sign: '2', confidence, handShape: 'number' };
+    }
+    if (thumbExtended && fingers[0] && fingers[1] && extendedCount === 2) {
+      return { sign: '3', confidence, handShape: 'number' };
+    }
+    if (!thumbExtended && extendedCount === 4) {
+      return { sign: '4', confidence, handShape: 'number' };
+    }
+    if (thumbExtended && extendedCount === 4) {
+      return { sign: '5', confidence, handShape: 'open_palm' };
+    }
+
+    return null;
+  }
+
+  classifyPair(dominant: HandLandmark[], nonDominant: HandLandmark[]): RecognizerMatch | null {
+    const match = classifyTwoHanded(dominant, nonDominant, this.code);
+    return match ? { sign: match.sign, confidence: match.confidence, handShape: 'two_handed', contacts: match.contacts } : null;
+  }
+
+  translate(sign: string): string {
+    return this.translations[sign] ?? sign;
+  }
+}
@@ -0,0 +1,36 @@
+import type { HandLandmark } from '../signLanguageDetection';
+
+export const isFingerCurled = (tip: HandLandmark, pip: HandLandmark, mcp: HandLandmark): boolean => {
+  return tip.y > pip.y && pip.y > mcp.y;
+};
+
+export const isFingerExtended = (tip: HandLandmark, pip: HandLandmark, mcp: HandLandmark): boolean => {
+  return tip.y < pip.y && pip.y < mcp.y;
+};
+
+// Finger joints as [tip, pip, mcp], thumb first
+const FINGER_JOINTS: [number, number, number][] = [[4, 3, 2], [8, 6, 5], [12, 10, 9], [16, 14, 13], [20, 18, 17]];
+
+// Tip-to-PIP gap (in palm lengths) at which a finger counts as unambiguously extended or curled
+const CLEAR_MARGIN = 0.25;
+
+// How far each finger is from the extended/curled boundary, 0 (on it) to 1 (clear of it)
+export const fingerClarity = (hand: HandLandmark[]): number[] => {
+  const palm = Math.hypot(hand[9].x - hand[0].x, hand[9].y - hand[0].y) || 1;
+  return FINGER_JOINTS.map(([tip, pip]) => Math.min(1, Math.abs(hand[tip].y - hand[pip].y) / palm / CLEAR_MARGIN));
+};
+
+// Raw confidence for a rule-based match: handshapes with every finger clearly
+// extended or curled score near 1, borderline ones near 0.5
+export const marginConfidence = (hand: HandLandmark[]): number => {
+  const clarity = fingerClarity(hand);
+  return 0.5 + 0.5 * clarity.reduce((sum, value) => sum + value, 0) / clarity.length;
+};
+
+// Extended flag per finger, thumb first, as the rule-based recognizers read it
+export const fingerExtension = (hand: HandLandmark[]): boolean[] =>
+  FINGER_JOINTS.map(([tip, pip, mcp]) => isFingerExtended(hand[tip], hand[pip], hand[mcp]));
+
+// Knuckle width over wrist-to-middle-tip height; open hands score above 0.8
+export const handAspectRatio = (hand: HandLandmark[]): number =>
+  Math.abs(hand[5].x - hand[17].x) / (Math.abs(hand[0].y - hand[12].y) || 1e-6);
@@ -0,0 +1,42 @@
+import { ASLRecognizer } from './asl';
+import { BSLRecognizer } from './bsl';
+import { KSLRecognizer } from './ksl';
+import type { SignLanguageCode, SignRecognizer } from './types';
+
+export type { RecognizerMatch, SignLanguageCode, SignRecognizer } from './types';
+
+class RecognizerRegistry {
+  private recognizers = new Map<SignLanguageCode, SignRecognizer>();
+
+  register(recognizer: SignRecognizer): void {
+    this.recognizers.set(recognizer.code, recognizer);
+  }
+
+  has(code: SignLanguageCode): boolean {
+    return this.recognizers.has(code);
+  }
+
+  // Falls back to ASL for unknown or unregistered languages
+  get(code: SignLanguageCode | null | undefined): SignRecognizer {
+    return (code && this.recognizers.get(code)) || this.recognizers.get('ASL')!;
+  }
+
+  // Accepts either a code ('KSL') or a settings label ('Kenyan Sign Language (KSL)')
+  resolve(language: string): SignRecognizer {
+    return this.get(resolveLanguageCode(language));
+  }
+
+  list(): SignRecognizer[] {
+    return Array.from(this.recognizers.values());
+  }
+}
+
+export const resolveLanguageCode = (language: string): SignLanguageCode | null => {
+  const match = language?.match(/\b(ASL|KSL|BSL)\b/);
+  return match ? (match[1] as SignLanguageCode) : null;
+};
+
+export const recognizerRegistry = new RecognizerRegistry();
+recognizerRegistry.register(new ASLRecognizer());
+recognizerRegistry.register(new KSLRecognizer());
+recognizerRegistry.register(new BSLRecognizer());
@@ -0,0 +1,182 @@
+import type { HandLandmark } from '../signLanguageDetection';
+import { classifyTwoHanded } from '../twoHandedClassifier';
+import { ASLRecognizer } from './asl';
+import { isFingerCurled, marginConfidence } from './handShape';
+import type { RecognizerMatch, SignRecognizer } from './types';
+
+export class KSLRecognizer implements SignRecognizer {
+  readonly code = 'KSL' as const;
+  readonly label = 'Kenyan Sign Language (KSL)';
+  readonly translations: { [gloss: string]: string } = {
+    // KSL Numbers (Kenyan Sign Language)
+    '1': ' moja', '2': 'mbili', '3': 'tatu', '4': 'nne', '5': 'tano',
+    '6': 'sita', '7': 'saba', '8': 'nane', '9': 'tisa', '10': 'kumi',
+    '20': 'ishirini', '30': 'thelathini', '40': 'arobaini', '50': 'hamsini',
+    '100': 'mia moja',
+
+    // KSL Basic Words
+    'Hello': 'Hodi', 'Thank you': 'Asante', 'Please': 'Tafadhali', 'Sorry': 'Samahani',
+    'Yes': 'Ndio', 'No': 'Hapana', 'Good morning': 'Habari za asubuhi',
+    'Good afternoon': 'Habari za mchana', 'How are you?': 'Habari yako?',
+    'Fine': 'Nzuri', 'Nice to meet you': 'Ninafurahi kukutana nawe',
+    'Help': 'Msaada', 'Water': 'Maji', 'Food': 'Chakula', 'Home': 'Nyumbani',
+    'School': 'Shule', 'Work': 'Kazi', 'Mother': 'Mama', 'Father': 'Baba',
+    'Friend': 'Rafiki', 'Teacher': 'Mwalimu', 'Love': 'Upendo', 'Happy': 'Furaha',
+    'Sad': 'Huzuni', 'More': 'Zaidi', 'Stop': 'Simama', 'Go': 'Nenda', 'Come': 'Njoo',
+
+    // KSL Colors
+    'Red': 'Nyekundu', 'Blue': 'Bluu', 'Green': 'Kijani', 'Yellow': 'Njano',
+    'Black': 'Nyeusi', 'White': 'Nyeupe',
+
+    // KSL Common Phrases
+    'What is your name?': 'Jina lako nani?', 'My name is': 'Jina langu ni',
+    'I love you': 'Nakupenda', 'Good night': 'Usiku mwema', 'Goodbye': 'Kwaheri'
+  };
+
+  readonly vocabulary = Object.values(this.translations);
+
+  // KSL shares most handshapes with ASL; ASL matches are reported in KSL vocabulary
+  private asl = new ASLRecognizer();
+
+  classifyHand(hand: HandLandmark[]): RecognizerMatch | null {
+    if (hand.length < 21) return null;
+
+    const kslSign = this.detectKSLGesture(hand);
+    if (kslSign) {
+      return { sign: kslSign, confidence: marginConfidence(hand), handShape: 'ksl' };
+    }
+
+    const aslMatch = this.asl.classifyHand(hand);
+    return aslMatch ? { ...aslMatch, sign: this.translate(aslMatch.sign) } : null;
+  }
+
+  classifyPair(dominant: HandLandmark[], nonDominant: HandLandmark[]): RecognizerMatch | null {
+    const match = classifyTwoHanded(dominant, nonDominant, this.code);
+    return match ? { sign: this.translate(match.sign), confidence: match.confidence, handShape: 'two_handed', contacts: match.contacts } : null;
+  }
+
+  translate(sign: string): string {
+    return this.translations[sign] ?? sign;
+  }
+
+  private detectKSLGesture(hand: HandLandmark[]): string | null {
+    // KSL (Kenyan Sign Language) gesture detection
+    // Note: KSL shares many similarities with ASL but may have regional variations
+
+    const thumbTip = hand[4];
+    const indexTip = hand[8];
+    const middleTip = hand[12];
+    const ringTip = hand[16];
+    const pinkyTip = hand[20];
+    const indexMcp = hand[5];
+    const middleMcp = hand[9];
+    const ringMcp = hand[13];
+    const pinkyMcp = hand[17];
+
+    // KSL Numbers (similar to ASL but with potential variations)
+    const extendedFingers = [
+      thumbTip.y < hand[3].y,
+      indexTip.y < indexMcp.y,
+      middleTip.y < middleMcp.y,
+      ringTip.y < ringMcp.y,
+      pinkyTip.y < pinkyMcp.y
+    ].filter(Boolean).length;
+
+    // Number detection (KSL uses similar finger counting)
+    if (extendedFingers === 1 && indexTip.y < indexMcp.y) return '1';
+    if (extendedFingers === 2 && indexTip.y < indexMcp.y && middleTip.y < middleMcp.y) return '2';
+    if (extendedFingers === 3) return '3';
+    if (extendedFingers === 4) return '4';
+    if (extendedFingers === 5) return '5';
+
+    // KSL specific signs (may vary from ASL)
+    // Hello: Similar to ASL - open hand wave
+    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
+        ringTip.y < ringMcp.y && pinkyTip.y < pinkyMcp.y) {
+      return 'Hodi';
+    }
+
+    // Thank you: Hand from chin outward (similar to ASL)
+    if (thumbTip.y < hand[3].y && indexTip.y < indexMcp.y &&
+        isFingerCurled(middleTip, hand[10], middleMcp)) {
+      return 'Asante';
+    }
+
+    // Please: Similar to ASL - hand near chest
+    if (Math.abs(hand[0].x - 0.5) < 0.3 && hand[0].y > 0.5) {
+      return 'Tafadhali';
+    }
+
+    // Yes: Fist up and down (similar to ASL)
+    if (isFingerCurled(indexTip, hand[6], indexMcp) &&
+        isFingerCurled(middleTip, hand[10], middleMcp)) {
+      return 'Ndio';
+    }
+
+    // No: Index finger side to side (similar to ASL)
+    if (indexTip.y < indexMcp.y &&
+        isFingerCurled(middleTip, hand[10], middleMcp) &&
+        isFingerCurled(ringTip, hand[14], ringMcp) &&
+        isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
+      return 'Hapana';
+    }
+
+    // Water: Similar to ASL - W handshape
+    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
+        isFingerCurled(ringTip, hand[14], ringMcp) &&
+        isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
+      return 'Maji';
+    }
+
+    // Food: Similar to ASL - C handshape to mouth
+    if (isFingerCurled(indexTip, hand[6], indexMcp) &&
+        isFingerCurled(middleTip, hand[10], middleMcp) &&
+        isFingerCurled(ringTip, hand[14], ringMcp) &&
+        isFingerCurled(pinkyTip, hand[18], pinkyMcp) &&
+        hand[0].y < 0.4) {
+      return 'Chakula';
+    }
+
+    // For KSL, many signs are similar to ASL, so we can use ASL detection as fallback
+    // but return KSL vocabulary equivalents
+    const aslEquivalent = this.detectASLGestureForKSL(hand);
+    if (aslEquivalent && this.translations[aslEquivalent]) {
+      return this.translations[aslEquivalent];
+    }
+
+    return null;
+  }
+
+  private detectASLGestureForKSL(hand: HandLandmark[]): string | null {
+    // Use ASL detection patterns but return ASL sign names for KSL mapping
+    const thumbTip = hand[4];
+    const indexTip = hand[8];
+    const middleTip = hand[12];
+    const ringTip = hand[16];
+    const pinkyTip = hand[20];
+
+    // Basic ASL patterns for KSL mapping
+    const extendedFingers = [
+      thumbTip.y < hand[3].y,
+      indexTip.y < hand[8-2].y,
+      middleTip.y < hand[12-2].y,
+      ringTip.y < hand[16-2].y,
+      pinkyTip.y < hand[20-2].y
+    ].filter(Boolean).length;
+
+    if (extendedFingers === 0) return 'Fist';
+    if (extendedFingers === 1 && indexTip.y < hand[6].y) return 'Point';
+    if (extendedFingers === 2 && indexTip.y < hand[6].y && middleTip.y < hand[10].y) return 'Peace';
+    if (extendedFingers === 5) return 'Open Hand';
+
+    // I Love You sign
+    if (thumbTip.y < hand[3].y && pinkyTip.y < hand[18].y &&
+        isFingerCurled(indexTip, hand[6], hand[5]) &&
+        isFingerCurled(middleTip, hand[10], hand[9]) &&
+        isFingerCurled(ringTip, hand[14], hand[13])) {
+      return 'I Love You';
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,20 @@
+import type { HandLandmark } from '../signLanguageDetection';
+
+export type SignLanguageCode = 'ASL' | 'KSL' | 'BSL';
+
+export interface RecognizerMatch {
+  sign: string;
+  confidence: number;
+  handShape: string;
+  contacts?: string[];
+}
+
+export interface SignRecognizer {
+  code: SignLanguageCode;
+  label: string; // As offered in the language settings, e.g. 'British Sign Language (BSL)'
+  vocabulary: string[];
+  translations: { [gloss: string]: string }; // English gloss -> word reported for this language
+  classifyHand(hand: HandLandmark[]): RecognizerMatch | null;
+  classifyPair?(dominant: HandLandmark[], nonDominant: HandLandmark[]): RecognizerMatch | null;
+  translate(sign: string): string;
+}
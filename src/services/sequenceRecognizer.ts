@@ -0,0 +1,229 @@
+import type { HandLandmark } from './signLanguageDetection';
+import type { SignLanguageCode } from './recognizers/types';
+import type { ISign } from '../lib/mongo';
+import { normalizeLandmarks, landmarkDistance } from './landmarkClassifier';
+
+export interface SequenceFrame {
+  timestamp: number;
+  wrist: { x: number; y: number };
+  palmSize: number;
+  shape: number[];
+}
+
+export interface SequenceTemplate {
+  label: string;
+  language?: SignLanguageCode;
+  frames: SequenceFrame[];
+  durationMs: number;
+}
+
+export interface SequenceMatch {
+  sign: string;
+  confidence: number;
+  distance: number;
+  startTime: number;
+  endTime: number;
+}
+
+export interface SequenceRecognizerOptions {
+  windowSize?: number; // Frames kept in the sliding window
+  resampleLength?: number; // Points compared by DTW
+  maxDistance?: number; // DTW distance at which confidence reaches zero
+  minMotion?: number; // Wrist travel (palm lengths) needed before matching
+  shapeWeight?: number; // Handshape contribution relative to trajectory
+  cooldownMs?: number; // Quiet period after a match
+}
+
+const DEFAULT_FRAME_INTERVAL_MS = 33;
+const MIN_TEMPLATE_FRAMES = 8;
+
+const toFrame = (hand: HandLandmark[], timestamp: number): SequenceFrame | null => {
+  const shape = normalizeLandmarks(hand);
+  if (!shape) return null;
+  const palmSize = Math.hypot(hand[9].x - hand[0].x, hand[9].y - hand[0].y);
+  return { timestamp, wrist: { x: hand[0].x, y: hand[0].y }, palmSize, shape };
+};
+
+// Pick evenly spaced frames so sequences of different lengths line up
+const resample = (frames: SequenceFrame[], length: number): SequenceFrame[] => {
+  if (frames.length <= 1) return frames.slice();
+  return Array.from({ length }, (_, i) => frames[Math.round((i * (frames.length - 1)) / (length - 1))]);
+};
+
+// Wrist trajectory relative to the first frame, in palm lengths
+const trajectory = (frames: SequenceFrame[]): { x: number; y: number }[] => {
+  const origin = frames[0].wrist;
+  const scale = frames.reduce((sum, frame) => sum + frame.palmSize, 0) / frames.length || 1;
+  return frames.map(frame => ({
+    x: (frame.wrist.x - origin.x) / scale,
+    y: (frame.wrist.y - origin.y) / scale
+  }));
+};
+
+// Extract a single-hand frame sequence from an ISign.landmark_data recording.
+// Accepts [hand, hand, ...], [[hand, hand2], ...] and [{ timestamp, landmarks }, ...].
+export const extractHandSequence = (data: unknown): { hand: HandLandmark[]; timestamp: number }[] => {
+  let frames = data;
+  if (typeof frames === 'string') {
+    try {
+      frames = JSON.parse(frames);
+    } catch {
+      return [];
+    }
+  }
+  if (frames && !Array.isArray(frames) && typeof frames === 'object') {
+    frames = (frames as { frames?: unknown }).frames;
+  }
+  if (!Array.isArray(frames)) return [];
+
+  const sequence: { hand: HandLandmark[]; timestamp: number }[] = [];
+  frames.forEach((frame, index) => {
+    let hands: unknown = frame;
+    let timestamp = index * DEFAULT_FRAME_INTERVAL_MS;
+    if (frame && !Array.isArray(frame) && typeof frame === 'object') {
+      const wrapped = frame as { landmarks?: unknown; timestamp?: number };
+      hands = wrapped.landmarks;
+      if (typeof wrapped.timestamp === 'number') timestamp = wrapped.timestamp;
+    }
+    if (!Array.isArray(hands) || hands.length === 0) return;
+    const hand = (Array.isArray(hands[0]) ? hands[0] : hands) as HandLandmark[];
+    if (hand.length >= 21 && typeof hand[0]?.x === 'number') {
+      sequence.push({ hand, timestamp });
+    }
+  });
+  return sequence;
+};
+
+export class SequenceRecognizer {
+  private window: SequenceFrame[] = [];
+  private templates: SequenceTemplate[] = [];
+  private lastMatchTime = 0;
+  private options: Required<SequenceRecognizerOptions>;
+
+  constructor(options: SequenceRecognizerOptions = {}) {
+    this.options = {
+      windowSize: 60,
+      resampleLength: 20,
+      maxDistance: 1.2,
+      minMotion: 0.5,
+      shapeWeight: 0.5,
+      cooldownMs: 800,
+      ...options
+    };
+  }
+
+  addTemplate(label: string, hands: { hand: HandLandmark[]; timestamp: number }[], language?: SequenceTemplate['language']): boolean {
+    const frames = hands
+      .map(({ hand, timestamp }) => toFrame(hand, timestamp))
+      .filter((frame): frame is SequenceFrame => frame !== null);
+    if (frames.length < MIN_TEMPLATE_FRAMES) return false;
+
+    this.templates.push({
+      label,
+      language,
+      frames: resample(frames, this.options.resampleLength),
+      durationMs: Math.max(frames[frames.length - 1].timestamp - frames[0].timestamp, DEFAULT_FRAME_INTERVAL_MS * frames.length)
+    });
+    return true;
+  }
+
+  // Build templates from approved signs whose landmark_data is a multi-frame recording
+  loadFromSigns(signs: ISign[]): number {
+    this.templates = [];
+    for (const sign of signs) {
+      if (!sign.landmark_data || !sign.is_active) continue;
+      if (sign.status && sign.status !== 'approved') continue;
+      this.addTemplate(sign.name, extractHandSequence(sign.landmark_data), sign.language);
+    }
+    return this.templates.length;
+  }
+
+  getTemplateCount(): number {
+    return this.templates.length;
+  }
+
+  reset(): void {
+    this.window = [];
+  }
+
+  // Push the latest frame and try to match the tail of the window against every template
+  addFrame(hand: HandLandmark[], timestamp: number, language?: SequenceTemplate['language']): SequenceMatch | null {
+    const frame = toFrame(hand, timestamp);
+    if (!frame) return null;
+
+    this.window.push(frame);
+    if (this.window.length > this.options.windowSize) {
+      this.window.shift();
+    }
+
+    if (this.templates.length === 0 || timestamp - this.lastMatchTime < this.options.cooldownMs) {
+      return null;
+    }
+
+    let best: { template: SequenceTemplate; distance: number; segment: SequenceFrame[] } | null = null;
+
+    for (const template of this.templates) {
+      if (language && template.language && template.language !== language) continue;
+
+      const segment = this.window.filter(item => item.timestamp >= timestamp - template.durationMs);
+      if (segment.length < MIN_TEMPLATE_FRAMES) continue;
+      if (!this.hasMotion(segment)) continue;
+
+      const distance = this.dtw(resample(segment, this.options.resampleLength), template.frames);
+      if (!best || distance < best.distance) {
+        best = { template, distance, segment };
+      }
+    }
+
+    if (!best || best.distance >= this.options.maxDistance) return null;
+
+    this.lastMatchTime = timestamp;
+    this.window = [];
+
+    return {
+      sign: best.template.label,
+      confidence: 1 - best.distance / this.options.maxDistance,
+      distance: best.distance,
+      startTime: best.segment[0].timestamp,
+      endTime: timestamp
+    };
+  }
+
+  private hasMotion(segment: SequenceFrame[]): boolean {
+    const path = trajectory(segment);
+    const maxTravel = Math.max(...path.map(point => Math.hypot(point.x, point.y)));
+    return maxTravel >= this.options.minMotion;
+  }
+
+  // Dynamic time warping over trajectory + handshape, normalised by path length
+  private dtw(a: SequenceFrame[], b: SequenceFrame[]): number {
+    const pathA = trajectory(a);
+    const pathB = trajectory(b);
+    const n = a.length;
+    const m = b.length;
+    const band = Math.max(Math.ceil(Math.max(n, m) * 0.25), Math.abs(n - m));
+
+    const cost: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(Infinity));
+    const steps: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+    cost[0][0] = 0;
+
+    for (let i = 1; i <= n; i++) {
+      for (let j = Math.max(1, i - band); j <= Math.min(m, i + band); j++) {
+        const trajectoryDistance = Math.hypot(pathA[i - 1].x - pathB[j - 1].x, pathA[i - 1].y - pathB[j - 1].y);
+        const shapeDistance = landmarkDistance(a[i - 1].shape, b[j - 1].shape);
+        const local = trajectoryDistance + this.options.shapeWeight * shapeDistance;
+
+        const candidates: [number, number][] = [
+          [cost[i - 1][j - 1], steps[i - 1][j - 1]],
+          [cost[i - 1][j], steps[i - 1][j]],
+          [cost[i][j - 1], steps[i][j - 1]]
+        ];
+        const [previous, previousSteps] = candidates.reduce((min, item) => (item[0] < min[0] ? item : min));
+        cost[i][j] = previous + local;
+        steps[i][j] = previousSteps + 1;
+      }
+    }
+
+    return steps[n][m] > 0 ? cost[n][m] / steps[n][m] : Infinity;
+  }
+}
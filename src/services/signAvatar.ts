@@ -0,0 +1,237 @@
+import { HAND_CONNECTIONS } from '@mediapipe/hands';
+import type { HandLandmark } from './signLanguageDetection';
+import { extractHandSamples } from './landmarkClassifier';
+import type { ISign } from '../lib/mongo';
+
+// Recordings without timestamps were captured at roughly 30 fps
+const DEFAULT_FRAME_INTERVAL_MS = 33;
+// Single handshapes are held on screen for this long
+export const STATIC_HOLD_MS = 1500;
+// Camera frames are 4:3; landmarks are normalised per axis
+const SOURCE_ASPECT = 4 / 3;
+const CAMERA_DISTANCE = 3; // In units of the sign's radius; smaller exaggerates perspective
+
+export interface SignAnimationFrame {
+  timestamp: number; // From the start of the sign
+  hands: HandLandmark[][]; // Signing hand first
+}
+
+export interface SignAnimation {
+  frames: SignAnimationFrame[];
+  durationMs: number;
+  isStatic: boolean; // A single handshape rather than a movement
+  centre: HandLandmark; // Middle of every point in the sign, in world units
+  radius: number; // Furthest point from the centre, so any view angle fits the canvas
+}
+
+export interface AvatarView {
+  yaw: number; // Degrees, positive turns the hands to the viewer's right
+  pitch: number; // Degrees, positive looks down from above
+  mirror: boolean; // Flip left/right so learners can copy the sign like a mirror
+}
+
+export const DEFAULT_AVATAR_VIEW: AvatarView = { yaw: 0, pitch: 0, mirror: false };
+
+const parseJson = (data: unknown): unknown => {
+  if (typeof data !== 'string') return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+};
+
+// Hands of one recorded frame: a hand, [hand, hand2] or { timestamp, landmarks }
+const frameHands = (frame: unknown): { hands: HandLandmark[][]; timestamp?: number } => {
+  if (frame && !Array.isArray(frame) && typeof frame === 'object') {
+    const wrapped = frame as { landmarks?: unknown; timestamp?: number };
+    return { hands: extractHandSamples(wrapped.landmarks).slice(0, 2), timestamp: wrapped.timestamp };
+  }
+  return { hands: extractHandSamples(frame).slice(0, 2) };
+};
+
+const toWorld = (point: HandLandmark): HandLandmark => ({
+  x: point.x * SOURCE_ASPECT,
+  y: point.y,
+  z: (point.z || 0) * SOURCE_ASPECT
+});
+
+// Turn any ISign.landmark_data payload into timed frames. Recordings
+// ({ frames } or a bare frame list) animate; handshape-only data, such as
+// static custom signs, holds its first hand for STATIC_HOLD_MS.
+export const parseSignAnimation = (data: unknown): SignAnimation | null => {
+  const parsed = parseJson(data);
+  if (!parsed || typeof parsed !== 'object') return null;
+
+  let recorded: unknown[] | null = null;
+  if (Array.isArray(parsed)) {
+    recorded = parsed;
+  } else if (Array.isArray((parsed as { frames?: unknown }).frames)) {
+    recorded = (parsed as { frames: unknown[] }).frames;
+  }
+
+  // A bare 21-point hand yields no frames here and is treated as a handshape below
+  let frames: SignAnimationFrame[] = [];
+  recorded?.forEach((frame, index) => {
+    const { hands, timestamp } = frameHands(frame);
+    if (hands.length > 0) {
+      frames.push({ timestamp: typeof timestamp === 'number' ? timestamp : index * DEFAULT_FRAME_INTERVAL_MS, hands });
+    }
+  });
+  if (frames.length === 0) {
+    const [hand] = extractHandSamples(parsed);
+    if (!hand) return null;
+    frames = [{ timestamp: 0, hands: [hand] }];
+  }
+
+  const start = frames[0].timestamp;
+  frames = frames
+    .map(frame => ({ timestamp: frame.timestamp - start, hands: frame.hands.map(hand => hand.map(toWorld)) }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const points = frames.flatMap(frame => frame.hands.flat());
+  const centre = {
+    x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+    y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+    z: points.reduce((sum, point) => sum + point.z, 0) / points.length
+  };
+  // Leave room for the forearm, which extends past the landmarks
+  const radius = Math.max(
+    0.05,
+    ...points.map(point => Math.hypot(point.x - centre.x, point.y - centre.y, point.z - centre.z))
+  ) * 1.6;
+
+  const isStatic = frames.length === 1;
+  return {
+    frames,
+    durationMs: isStatic
+      ? STATIC_HOLD_MS
+      : Math.max(frames[frames.length - 1].timestamp, DEFAULT_FRAME_INTERVAL_MS * frames.length),
+    isStatic,
+    centre,
+    radius
+  };
+};
+
+// Whether the avatar can perform this sign
+export const hasSignAnimation = (sign: Pick<ISign, 'landmark_data'>): boolean =>
+  !!sign.landmark_data && parseSignAnimation(sign.landmark_data) !== null;
+
+const lerpHand = (from: HandLandmark[], to: HandLandmark[], t: number): HandLandmark[] =>
+  from.map((point, i) => ({
+    x: point.x + (to[i].x - point.x) * t,
+    y: point.y + (to[i].y - point.y) * t,
+    z: point.z + (to[i].z - point.z) * t
+  }));
+
+// Hands at a point in time, interpolated between the surrounding frames. When
+// the number of hands changes between them the nearer frame is used as is.
+export const sampleSignAnimation = (animation: SignAnimation, timeMs: number): HandLandmark[][] => {
+  const { frames } = animation;
+  if (timeMs <= frames[0].timestamp) return frames[0].hands;
+  const next = frames.findIndex(frame => frame.timestamp > timeMs);
+  if (next === -1) return frames[frames.length - 1].hands;
+
+  const from = frames[next - 1];
+  const to = frames[next];
+  const t = (timeMs - from.timestamp) / Math.max(1, to.timestamp - from.timestamp);
+  if (from.hands.length !== to.hands.length) return t < 0.5 ? from.hands : to.hands;
+  return from.hands.map((hand, i) => lerpHand(hand, to.hands[i], t));
+};
+
+interface ProjectedPoint {
+  x: number;
+  y: number;
+  depth: number; // Larger is further from the viewer
+  scale: number; // Perspective scale for line widths
+}
+
+const HAND_COLOURS = [
+  { skin: '#e0ac69', joint: '#c68642', outline: '#8d5524' },
+  { skin: '#f1c27d', joint: '#d9a066', outline: '#a0673a' }
+];
+
+// Forearm from the wrist, continuing the middle-finger axis away from the palm
+const forearm = (hand: HandLandmark[]): HandLandmark => {
+  const wrist = hand[0];
+  const middle = hand[9];
+  const length = Math.hypot(wrist.x - middle.x, wrist.y - middle.y, wrist.z - middle.z) * 2.2;
+  const dx = wrist.x - middle.x;
+  const dy = wrist.y - middle.y;
+  const dz = wrist.z - middle.z;
+  const norm = Math.hypot(dx, dy, dz) || 1;
+  return { x: wrist.x + (dx / norm) * length, y: wrist.y + (dy / norm) * length, z: wrist.z + (dz / norm) * length };
+};
+
+// Draw the hands and forearms seen from the given angle. Points are rotated
+// about the centre of the whole sign, so the camera does not drift while it plays.
+export const renderSignAvatar = (
+  ctx: CanvasRenderingContext2D,
+  animation: SignAnimation,
+  hands: HandLandmark[][],
+  view: AvatarView
+): void => {
+  const { width, height } = ctx.canvas;
+  const yaw = (view.yaw * Math.PI) / 180;
+  const pitch = (view.pitch * Math.PI) / 180;
+  const fit = (Math.min(width, height) / 2) * 0.9;
+
+  const project = (point: HandLandmark): ProjectedPoint => {
+    let x = (point.x - animation.centre.x) / animation.radius;
+    const y = (point.y - animation.centre.y) / animation.radius;
+    const z = (point.z - animation.centre.z) / animation.radius;
+    if (view.mirror) x = -x;
+    const rx = x * Math.cos(yaw) + z * Math.sin(yaw);
+    const rz = -x * Math.sin(yaw) + z * Math.cos(yaw);
+    const ry = y * Math.cos(pitch) - rz * Math.sin(pitch);
+    const depth = y * Math.sin(pitch) + rz * Math.cos(pitch);
+    const scale = CAMERA_DISTANCE / (CAMERA_DISTANCE + depth);
+    return { x: width / 2 + rx * fit * scale, y: height / 2 + ry * fit * scale, depth, scale };
+  };
+
+  ctx.clearRect(0, 0, width, height);
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  const unit = fit / 20;
+
+  // Painter's order across both hands: bones further away are drawn first
+  const segments: { from: ProjectedPoint; to: ProjectedPoint; width: number; colour: typeof HAND_COLOURS[number] }[] = [];
+  const joints: { point: ProjectedPoint; colour: typeof HAND_COLOURS[number] }[] = [];
+  hands.forEach((hand, index) => {
+    if (hand.length < 21) return;
+    const colour = HAND_COLOURS[index % HAND_COLOURS.length];
+    const points = hand.map(project);
+    const elbow = project(forearm(hand));
+    segments.push({ from: points[0], to: elbow, width: unit * 2.4, colour });
+    // Fill the palm so the hand reads as a solid shape
+    [[0, 5], [5, 9], [9, 13], [13, 17], [17, 0], [0, 9], [0, 13]].forEach(([a, b]) =>
+      segments.push({ from: points[a], to: points[b], width: unit * 1.8, colour })
+    );
+    HAND_CONNECTIONS.forEach(([a, b]) => segments.push({ from: points[a], to: points[b], width: unit, colour }));
+    points.forEach(point => joints.push({ point, colour }));
+  });
+
+  segments
+    .sort((a, b) => (b.from.depth + b.to.depth) - (a.from.depth + a.to.depth))
+    .forEach(({ from, to, width: lineWidth, colour }) => {
+      const scale = (from.scale + to.scale) / 2;
+      ctx.strokeStyle = colour.outline;
+      ctx.lineWidth = lineWidth * scale + 2;
+      ctx.beginPath();
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(to.x, to.y);
+      ctx.stroke();
+      ctx.strokeStyle = colour.skin;
+      ctx.lineWidth = lineWidth * scale;
+      ctx.stroke();
+    });
+
+  joints
+    .sort((a, b) => b.point.depth - a.point.depth)
+    .forEach(({ point, colour }) => {
+      ctx.fillStyle = colour.joint;
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, (unit / 2.5) * point.scale, 0, Math.PI * 2);
+      ctx.fill();
+    });
+};
@@ -1,6 +1,33 @@
 
 import { Hands, Results } from '@mediapipe/hands';
-import OpenAI from 'openai';
+import { Holistic, NormalizedLandmarkList, Results as HolisticResults } from '@mediapipe/holistic';
+import { Handedness } from './twoHandedClassifier';
+import { recognizerRegistry, SignLanguageCode, SignRecognizer } from './recognizers';
+import { HandClassification } from './handFrameClassifier';
+import { DetectionWorkerClient, FrameResult, FrameStats } from './detectionWorker';
+import { PerformanceGovernor, PerformanceLevel, PerformanceListener, PerformanceStats } from './performanceGovernor';
+import { locateHandsFile, locateHolisticFile } from './mediapipeAssets';
+import { SegmenterOptions, Transcript, TranscriptListener } from './signSegmenter';
+import { GestureType, ThresholdTable } from './confidenceCalibration';
+import { NonManualFeatures } from './nonManualFeatures';
+import { BodyLandmarks, SignPipeline } from './signPipeline';
+import { LandmarkRecorder, LandmarkRecording } from './landmarkRecording';
+import { isUsableCalibration } from './signerCalibration';
+import { DEFAULT_MODEL_BASE_URL, LandmarkModelClassifier, LandmarkModelStatus } from './landmarkModel';
+import { ClassifierDiagnostics, DiagnosticsListener, EMPTY_DIAGNOSTICS, FrameDiagnostics } from './detectionDiagnostics';
+import { recognizeVideo, VideoRecognitionOptions, VideoRecognitionResult } from './videoRecognition';
+import { FrameQualityAnalyzer, FrameQualityReport, QualityListener, measureLighting } from './frameQuality';
+import {
+  analyzeSignSentence,
+  getRecentGestureAttempts,
+  getCustomSigns,
+  getSigns,
+  getStoredUserId,
+  getUserProfile,
+  hasAuthToken,
+  validateSign
+} from './mongoApi';
+import { IGestureAttempt, IHandCalibration, ISign } from '../lib/mongo';
 
 export interface HandLandmark {
   x: number;
@@ -8,51 +35,69 @@ export interface HandLandmark {
   z: number;
 }
 
+export interface HandDetection {
+  handedness: Handedness;
+  score: number; // MediaPipe handedness confidence
+  dominant: boolean;
+  sign?: string;
+  confidence?: number;
+  handShape?: string;
+}
+
 export interface DetectionResult {
   sign: string;
-  confidence: number;
+  confidence: number; // Calibrated: estimated probability that the sign is correct
+  rawConfidence?: number; // Score from the recognizer before calibration
   landmarks?: HandLandmark[][];
-  gestureType?: 'static' | 'dynamic' | 'sentence' | 'validated';
+  gestureType?: 'static' | 'dynamic' | 'sentence' | 'validated' | 'fingerspelled';
   handShape?: string;
+  startTime?: number; // Dynamic signs: timestamp of the first frame in the matched motion
+  endTime?: number;
+  hands?: HandDetection[]; // Per-hand classification, dominant hand first
+  contacts?: string[]; // Two-handed signs: contact points between the hands
+  nonManual?: NonManualFeatures; // Face & body mode: facial grammar and hand location
 }
 
+export type LandmarkListener = (landmarks: HandLandmark[][], multiHandedness: HandClassification[]) => void;
+
+// Lighting is judged from a small thumbnail a couple of times a second
+const LIGHTING_SAMPLE_WIDTH = 32;
+const LIGHTING_CHECK_INTERVAL_MS = 500;
+
+const toLandmarks = (list: NormalizedLandmarkList | undefined): HandLandmark[] | null =>
+  list && list.length > 0 ? list.map(landmark => ({ x: landmark.x, y: landmark.y, z: landmark.z || 0 })) : null;
+
 class SignLanguageDetectionService {
   private hands: Hands | null = null;
+  private holistic: Holistic | null = null;
+  private holisticEnabled = false;
   private animationFrameId: number | null = null;
+  private detectionRun = 0; // Bumped by start/stop so a loop awaiting a frame does not reschedule itself
   private isInitialized = false;
   private onResultsCallback: ((result: DetectionResult) => void) | null = null;
   private sensitivity: number = 7;
   private language: string = 'American Sign Language (ASL)';
-  private openai: OpenAI | null = null;
   private detectedSignsBuffer: string[] = [];
   private sentenceConstructionEnabled = true;
   private lastSentenceAnalysis = 0;
   private sentenceAnalysisInterval = 3000; // Analyze sentence every 3 seconds
-  private kslVocabulary: { [key: string]: string } = {
-    // KSL Numbers (Kenyan Sign Language)
-    '1': ' moja', '2': 'mbili', '3': 'tatu', '4': 'nne', '5': 'tano',
-    '6': 'sita', '7': 'saba', '8': 'nane', '9': 'tisa', '10': 'kumi',
-    '20': 'ishirini', '30': 'thelathini', '40': 'arobaini', '50': 'hamsini',
-    '100': 'mia moja',
-
-    // KSL Basic Words
-    'Hello': 'Hodi', 'Thank you': 'Asante', 'Please': 'Tafadhali', 'Sorry': 'Samahani',
-    'Yes': 'Ndio', 'No': 'Hapana', 'Good morning': 'Habari za asubuhi',
-    'Good afternoon': 'Habari za mchana', 'How are you?': 'Habari yako?',
-    'Fine': 'Nzuri', 'Nice to meet you': 'Ninafurahi kukutana nawe',
-    'Help': 'Msaada', 'Water': 'Maji', 'Food': 'Chakula', 'Home': 'Nyumbani',
-    'School': 'Shule', 'Work': 'Kazi', 'Mother': 'Mama', 'Father': 'Baba',
-    'Friend': 'Rafiki', 'Teacher': 'Mwalimu', 'Love': 'Upendo', 'Happy': 'Furaha',
-    'Sad': 'Huzuni', 'More': 'Zaidi', 'Stop': 'Simama', 'Go': 'Nenda', 'Come': 'Njoo',
-
-    // KSL Colors
-    'Red': 'Nyekundu', 'Blue': 'Bluu', 'Green': 'Kijani', 'Yellow': 'Njano',
-    'Black': 'Nyeusi', 'White': 'Nyeupe',
-
-    // KSL Common Phrases
-    'What is your name?': 'Jina lako nani?', 'My name is': 'Jina langu ni',
-    'I love you': 'Nakupenda', 'Good night': 'Usiku mwema', 'Goodbye': 'Kwaheri'
-  };
+  private pipeline = new SignPipeline(result => this.emitResult(result));
+  private recorder = new LandmarkRecorder();
+  private dominantHand: Handedness = 'Right';
+  private detectionWorker: DetectionWorkerClient | null = null;
+  private workerEnabled = DetectionWorkerClient.isSupported();
+  private referenceSigns: ISign[] = [];
+  private customSigns: ISign[] = [];
+  private landmarkModel: LandmarkModelClassifier | null = new LandmarkModelClassifier();
+  private governor = new PerformanceGovernor(level => this.applyPerformanceLevel(level));
+  private frameCanvas: HTMLCanvasElement | null = null;
+  private landmarkListeners = new Set<LandmarkListener>();
+  private diagnosticsListeners = new Set<DiagnosticsListener>();
+  private frameSentAt = 0; // Main-thread inference: when the current frame went to MediaPipe
+  private quality = new FrameQualityAnalyzer();
+  private qualityGate = true;
+  private lightingCanvas: HTMLCanvasElement | null = null;
+  private lastLightingCheck = 0;
 
   async initialize(): Promise<void> {
     if (this.isInitialized) return;
@@ -60,29 +105,41 @@ class SignLanguageDetectionService {
     try {
       // Initialize MediaPipe Hands
       this.hands = new Hands({
-       locateFile: (file) => `/mediapipe/${file}`,
+       locateFile: (file) => locateHandsFile(file),
       });
 
       this.hands.setOptions({
         maxNumHands: 2,
-        modelComplexity: 1,
+        modelComplexity: this.governor.getLevel().modelComplexity,
         minDetectionConfidence: this.sensitivity / 10, // Scale sensitivity to 0.1-1.0
         minTrackingConfidence: this.sensitivity / 10
       });
 
       this.hands.onResults(this.onResults.bind(this));
 
-      // Initialize OpenAI for sentence construction and accuracy enhancement
-      const openaiApiKey = (import.meta as any).env?.VITE_OPENAI_API_KEY;
-      if (openaiApiKey) {
-        this.openai = new OpenAI({
-          apiKey: openaiApiKey,
-          dangerouslyAllowBrowser: true // Note: In production, this should be handled server-side
-        });
-        console.log('OpenAI integration initialized for enhanced sign language processing');
-      } else {
-        console.warn('OpenAI API key not found. Sentence construction features will be limited.');
-      }
+      // Learned classifier from public/models; the heuristics carry on alone if it is missing
+      this.pipeline.classifier.setModel(this.landmarkModel);
+      this.landmarkModel?.prepare(this.getLanguageCode());
+
+      // Reference templates for the nearest-neighbour fallback come from approved community signs
+      this.loadReferenceTemplates().catch(error => {
+        console.warn('Failed to load reference sign templates:', error);
+      });
+
+      // Plus the signed-in user's own taught signs, which only they see
+      this.loadCustomSigns().catch(error => {
+        console.warn('Failed to load custom signs:', error);
+      });
+
+      // Confidence calibration is fitted from logged practice attempts
+      this.loadCalibration().catch(error => {
+        console.warn('Failed to load confidence calibration:', error);
+      });
+
+      // The signer's own hand calibration, saved on their profile by the wizard
+      this.loadSignerCalibration().catch(error => {
+        console.warn('Failed to load hand calibration:', error);
+      });
 
       this.isInitialized = true;
     } catch (error) {
@@ -92,872 +149,472 @@ class SignLanguageDetectionService {
   }
 
   private onResults(results: Results): void {
-    if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
-      const landmarks = results.multiHandLandmarks.map(hand =>
-        hand.map(landmark => ({
-          x: landmark.x,
-          y: landmark.y,
-          z: landmark.z || 0
-        }))
-      );
-
-      // Enhanced gesture recognition with broader detection coverage
-      const detectedSign = this.classifyGesture(landmarks);
-
-      if (this.onResultsCallback && detectedSign && detectedSign.confidence > 0.5) {
-        // Add to buffer for sentence construction
-        this.addToSentenceBuffer(detectedSign.sign);
-
-        // Check if we should analyze sentence construction
-        const now = Date.now();
-        if (this.sentenceConstructionEnabled &&
-            now - this.lastSentenceAnalysis > this.sentenceAnalysisInterval &&
-            this.detectedSignsBuffer.length >= 2) {
-          this.analyzeSentenceConstruction();
-          this.lastSentenceAnalysis = now;
-        }
-
-        this.onResultsCallback(detectedSign);
-      }
-    }
-  }
-
-  private classifyGesture(landmarks: HandLandmark[][]): DetectionResult | null {
-    if (landmarks.length === 0) return null;
-
-    const firstHand = landmarks[0];
-    if (firstHand.length < 21) return null;
-
-    // Enhanced gesture classification with more precise landmark analysis
-    const thumbTip = firstHand[4];
-    const indexTip = firstHand[8];
-    const middleTip = firstHand[12];
-    const ringTip = firstHand[16];
-    const pinkyTip = firstHand[20];
-    const indexMcp = firstHand[5];
-    const middleMcp = firstHand[9];
-    const ringMcp = firstHand[13];
-    const pinkyMcp = firstHand[17];
-    const wrist = firstHand[0];
-    const indexPip = firstHand[6];
-    const middlePip = firstHand[10];
-    const ringPip = firstHand[14];
-    const pinkyPip = firstHand[18];
-
-    // Calculate distances and angles for more accurate detection
-    const calculateDistance = (point1: HandLandmark, point2: HandLandmark): number => {
-      return Math.sqrt(Math.pow(point1.x - point2.x, 2) + Math.pow(point1.y - point2.y, 2));
-    };
-
-    const isFingerExtended = (tip: HandLandmark, pip: HandLandmark, mcp: HandLandmark): boolean => {
-      return tip.y < pip.y && pip.y < mcp.y;
+    const landmarks = (results.multiHandLandmarks ?? []).map(hand => toLandmarks(hand) ?? []);
+    this.processHands(landmarks, results.multiHandedness, null);
+  }
+
+  // Holistic names hands by the signer's own side, while Hands reports the mirrored
+  // label; relabel so assignHandedness treats both sources the same way
+  private onHolisticResults(results: HolisticResults): void {
+    const landmarks: HandLandmark[][] = [];
+    const multiHandedness: HandClassification[] = [];
+    const addHand = (list: NormalizedLandmarkList | undefined, mirroredLabel: string) => {
+      const hand = toLandmarks(list);
+      if (!hand) return;
+      multiHandedness.push({ index: landmarks.length, label: mirroredLabel, score: 1 });
+      landmarks.push(hand);
     };
+    addHand(results.rightHandLandmarks, 'Left');
+    addHand(results.leftHandLandmarks, 'Right');
+
+    this.processHands(landmarks, multiHandedness, {
+      face: toLandmarks(results.faceLandmarks),
+      pose: toLandmarks(results.poseLandmarks)
+    });
+  }
+
+  private processHands(
+    landmarks: HandLandmark[][],
+    multiHandedness: HandClassification[] | undefined,
+    body: BodyLandmarks | null
+  ): void {
+    const now = Date.now();
+    this.recorder.addFrame(landmarks, multiHandedness, now, body);
+    this.emitLandmarks(landmarks, multiHandedness ?? []);
+    this.applyQuality(this.quality.addHands(landmarks, now));
+    const diagnostics = this.pipeline.processFrame(landmarks, multiHandedness, now, body);
+    const elapsed = this.frameSentAt ? now - this.frameSentAt : 0;
+    this.emitDiagnostics(landmarks, multiHandedness ?? [], diagnostics, now, elapsed, elapsed);
+  }
+
+  // Frames classified in the worker rejoin the main-thread pipeline here
+  private onWorkerFrame(frame: FrameResult): void {
+    if (!this.onResultsCallback) return;
+    this.governor.recordFrame(frame.inferenceMs, Date.now() - frame.timestamp, performance.now());
+    this.recorder.addFrame(frame.landmarks, frame.multiHandedness, frame.timestamp);
+    this.emitLandmarks(frame.landmarks, frame.multiHandedness);
+    this.applyQuality(this.quality.addHands(frame.landmarks, frame.timestamp));
+    this.pipeline.processClassified(frame.result, frame.handsPresent, frame.timestamp);
+    this.emitDiagnostics(
+      frame.landmarks,
+      frame.multiHandedness,
+      frame.diagnostics ?? null,
+      frame.timestamp,
+      frame.inferenceMs,
+      Date.now() - frame.timestamp
+    );
+  }
 
-    // More precise finger detection
-    const fingersExtended = [
-      isFingerExtended(thumbTip, firstHand[3], firstHand[2]), // Thumb
-      isFingerExtended(indexTip, indexPip, indexMcp), // Index
-      isFingerExtended(middleTip, middlePip, middleMcp), // Middle
-      isFingerExtended(ringTip, ringPip, ringMcp), // Ring
-      isFingerExtended(pinkyTip, pinkyPip, pinkyMcp)  // Pinky
-    ];
-
-    const numFingersExtended = fingersExtended.filter(Boolean).length;
-
-    // Calculate hand orientation and shape
-    const handWidth = Math.abs(indexMcp.x - pinkyMcp.x);
-    const handHeight = Math.abs(wrist.y - middleTip.y);
-    const aspectRatio = handWidth / handHeight;
-
-    // Enhanced sign recognition with better logic
-    if (numFingersExtended === 0) {
-      // Check if it's a proper fist (all fingers curled)
-      const allFingersCurled = [indexTip.y > indexPip.y, middleTip.y > middlePip.y,
-                               ringTip.y > ringPip.y, pinkyTip.y > pinkyPip.y].every(Boolean);
-      if (allFingersCurled) {
-        return { sign: 'Fist', confidence: 0.85, landmarks, gestureType: 'static', handShape: 'fist' };
-      }
-    } else if (numFingersExtended === 1) {
-      if (fingersExtended[1]) { // Index finger extended
-        const otherFingersCurled = !fingersExtended[0] && !fingersExtended[2] && !fingersExtended[3] && !fingersExtended[4];
-        if (otherFingersCurled) {
-          return { sign: 'Point', confidence: 0.85, landmarks, gestureType: 'static', handShape: 'index_extended' };
-        }
-      }
-    } else if (numFingersExtended === 2) {
-      if (fingersExtended[1] && fingersExtended[2]) { // Index and middle extended
-        const otherFingersCurled = !fingersExtended[0] && !fingersExtended[3] && !fingersExtended[4];
-        if (otherFingersCurled) {
-          return { sign: 'Peace', confidence: 0.85, landmarks, gestureType: 'static', handShape: 'v_shape' };
-        }
-      }
-    } else if (numFingersExtended === 5) {
-      // Check if all fingers are properly extended
-      const allExtended = fingersExtended.every(Boolean);
-      if (allExtended && aspectRatio > 0.8) {
-        return { sign: 'Open Hand', confidence: 0.85, landmarks, gestureType: 'static', handShape: 'open_palm' };
-      }
-    }
+  private emitResult(result: DetectionResult): void {
+    if (!this.onResultsCallback) return;
 
-    // Special gesture: I Love You (thumb and pinky extended, others curled)
-    if (fingersExtended[0] && fingersExtended[4] && !fingersExtended[1] && !fingersExtended[2] && !fingersExtended[3]) {
-      return { sign: 'I Love You', confidence: 0.85, landmarks, gestureType: 'static', handShape: 'l_shape' };
-    }
+    // Add to buffer for sentence construction
+    this.addToSentenceBuffer(result.sign);
 
-    // Enhanced ASL Alphabet recognition
-    const aslAlphabet = this.recognizeASLAlphabet(firstHand);
-    if (aslAlphabet) {
-      return { sign: aslAlphabet, confidence: 0.85, landmarks, gestureType: 'static', handShape: 'alphabet' };
+    // Check if we should analyze sentence construction
+    const now = Date.now();
+    if (this.sentenceConstructionEnabled &&
+        now - this.lastSentenceAnalysis > this.sentenceAnalysisInterval &&
+        this.detectedSignsBuffer.length >= 2) {
+      this.analyzeSentenceConstruction();
+      this.lastSentenceAnalysis = now;
     }
 
-    // Number recognition (0-10)
-    const numberSign = this.recognizeNumbers(firstHand);
-    if (numberSign) {
-      return { sign: numberSign, confidence: 0.85, landmarks, gestureType: 'static', handShape: 'number' };
-    }
+    this.onResultsCallback(result);
+  }
 
-    // Core vocabulary with existing detection methods
-    const vocabularySigns = [
-      // Basic greetings and courtesy
-      { name: 'Hello', pattern: () => this.detectHelloGesture(firstHand) },
-      { name: 'Thank you', pattern: () => this.detectThankYouGesture(firstHand) },
-      { name: 'Please', pattern: () => this.detectPleaseGesture(firstHand) },
-      { name: 'Sorry', pattern: () => this.detectSorryGesture(firstHand) },
-
-      // Common responses
-      { name: 'Yes', pattern: () => this.detectYesGesture(firstHand) },
-      { name: 'No', pattern: () => this.detectNoGesture(firstHand) },
-
-      // Time and daily expressions
-      { name: 'Good morning', pattern: () => this.detectGoodMorningGesture(firstHand) },
-      { name: 'How are you?', pattern: () => this.detectHowAreYouGesture(firstHand) },
-      { name: 'Nice to meet you', pattern: () => this.detectNiceToMeetYouGesture(firstHand) },
-
-      // Basic needs and objects
-      { name: 'Help', pattern: () => this.detectHelpGesture(firstHand) },
-      { name: 'Water', pattern: () => this.detectWaterGesture(firstHand) },
-      { name: 'Food', pattern: () => this.detectFoodGesture(firstHand) },
-      { name: 'More', pattern: () => this.detectMoreGesture(firstHand) }
-    ];
-
-    // Try to match patterns for vocabulary signs
-    for (const sign of vocabularySigns) {
-      if (sign.pattern()) {
-        return { sign: sign.name, confidence: 0.8, landmarks, gestureType: 'static', handShape: 'vocabulary' };
-      }
-    }
+  // Rebuild the fallback classifier templates, fetching approved signs when none are supplied
+  async loadReferenceTemplates(signs?: ISign[]): Promise<number> {
+    this.referenceSigns = signs ?? await getSigns();
+    return this.applyTemplates();
+  }
 
-    // Enhanced fallback detection with broader vocabulary coverage
-    // This ensures the system can detect a wide range of signs and numbers
+  // Signs the user taught from their own examples, fetched for the signed-in user when none are supplied
+  async loadCustomSigns(signs?: ISign[]): Promise<number> {
+    this.customSigns = signs ?? (hasAuthToken() ? await getCustomSigns() : []);
+    this.applyTemplates();
+    return this.customSigns.length;
+  }
 
-    // First, try to detect based on finger patterns for numbers and letters
-    const fingerPattern = this.analyzeFingerPattern(firstHand);
-    if (fingerPattern) {
-      return { sign: fingerPattern, confidence: 0.7, landmarks, gestureType: 'static', handShape: 'pattern_based' };
-    }
+  // A newly taught sign is recognised from the next frame on
+  addCustomSign(sign: ISign): void {
+    this.customSigns = [...this.customSigns.filter(existing => existing.id !== sign.id), sign];
+    this.applyTemplates();
+  }
 
-    // Comprehensive vocabulary list for fallback detection
-    const comprehensiveVocabulary = [
-      // Numbers 0-100
-      ...Array.from({ length: 101 }, (_, i) => i.toString()),
-
-      // Alphabet A-Z
-      ...Array.from({ length: 26 }, (_, i) => String.fromCharCode(65 + i)),
-
-      // Common words and phrases
-      'Hello', 'Goodbye', 'Thank you', 'Please', 'Sorry', 'Excuse me',
-      'Yes', 'No', 'Maybe', 'Okay', 'Fine',
-      'Good morning', 'Good afternoon', 'Good evening', 'Good night',
-      'How are you?', 'Nice to meet you', 'What is your name?', 'My name is',
-      'Help', 'Water', 'Food', 'Bathroom', 'Home', 'School', 'Work',
-      'Mother', 'Father', 'Brother', 'Sister', 'Friend', 'Teacher',
-      'Love', 'Like', 'Happy', 'Sad', 'Tired', 'Hungry', 'Thirsty',
-      'More', 'Stop', 'Go', 'Come', 'Wait', 'Again',
-      'Red', 'Blue', 'Green', 'Yellow', 'Black', 'White', 'Orange', 'Purple', 'Pink',
-      'Big', 'Small', 'Hot', 'Cold', 'Fast', 'Slow',
-      'Cat', 'Dog', 'House', 'Car', 'Book', 'Phone', 'Computer',
-      'Eat', 'Drink', 'Sleep', 'Walk', 'Run', 'Talk', 'Listen',
-      'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
-      'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen', 'Twenty',
-      'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety', 'Hundred'
-    ];
-
-    // Language-specific detection
-    if (this.language === 'Kenyan Sign Language (KSL)') {
-      const kslSign = this.detectKSLGesture(firstHand);
-      if (kslSign) {
-        return { sign: kslSign, confidence: 0.75, landmarks, gestureType: 'static', handShape: 'ksl' };
-      }
-    }
+  getCustomSigns(): ISign[] {
+    return this.customSigns;
+  }
 
-    // Use a more sophisticated approach for fallback detection
-    // Analyze hand shape and return the most likely sign based on current context
-    const detectedSign = this.intelligentFallbackDetection(firstHand, comprehensiveVocabulary);
-    return { sign: detectedSign, confidence: 0.65, landmarks, gestureType: 'static', handShape: 'fallback' };
+  private applyTemplates(): number {
+    const signs = [...this.referenceSigns, ...this.customSigns];
+    const { templates: count, sequences: sequenceCount } = this.pipeline.classifier.loadFromSigns(signs);
+    this.detectionWorker?.loadTemplates(signs);
+    this.pipeline.fingerspeller.corrector.setVocabulary(
+      signs.filter(sign => sign.is_active && (!sign.status || sign.status === 'approved')).map(sign => sign.name)
+    );
+    console.log(`Loaded ${count} reference landmark templates and ${sequenceCount} motion sequences`);
+    return count;
+  }
 
-    // If no specific gesture detected, return unknown with low confidence
-    return null;
+  // Refit the confidence calibration, fetching the signed-in user's recent gesture attempts when none are supplied
+  async loadCalibration(attempts?: IGestureAttempt[]): Promise<number> {
+    const loggedAttempts = attempts ?? (hasAuthToken() ? await getRecentGestureAttempts({ limit: 2000 }) : []);
+    const classes = this.pipeline.calibrator.fit(loggedAttempts);
+    console.log(`Calibrated confidence for ${classes} signs from ${loggedAttempts.length} attempts`);
+    return classes;
   }
 
-  private recognizeASLAlphabet(hand: HandLandmark[]): string | null {
-    // Enhanced ASL alphabet recognition
-    const thumbTip = hand[4];
-    const indexTip = hand[8];
-    const middleTip = hand[12];
-    const ringTip = hand[16];
-    const pinkyTip = hand[20];
-    const indexMcp = hand[5];
-    const middleMcp = hand[9];
-    const ringMcp = hand[13];
-    const pinkyMcp = hand[17];
-
-    // Letter A: Fist with thumb extended
-    if (this.isFingerCurled(indexTip, hand[6], indexMcp) &&
-        this.isFingerCurled(middleTip, hand[10], middleMcp) &&
-        this.isFingerCurled(ringTip, hand[14], ringMcp) &&
-        this.isFingerCurled(pinkyTip, hand[18], pinkyMcp) &&
-        thumbTip.y < hand[3].y) {
-      return 'A';
+  // Apply the signed-in user's hand calibration, fetching their profile when none is supplied
+  async loadSignerCalibration(calibration?: IHandCalibration | null): Promise<IHandCalibration | null> {
+    if (calibration === undefined) {
+      const userId = getStoredUserId();
+      calibration = userId ? (await getUserProfile(userId))?.hand_calibration ?? null : null;
     }
+    this.setSignerCalibration(isUsableCalibration(calibration) ? calibration : null);
+    return this.getSignerCalibration();
+  }
 
-    // Letter B: All fingers extended, thumb tucked
-    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
-        ringTip.y < ringMcp.y && pinkyTip.y < pinkyMcp.y &&
-        thumbTip.y > hand[3].y) {
-      return 'B';
-    }
+  setSignerCalibration(calibration: IHandCalibration | null): void {
+    this.pipeline.classifier.setCalibration(calibration);
+    this.detectionWorker?.setCalibration(calibration);
+  }
 
-    // Letter C: Fingers curved to form C shape
-    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
-        ringTip.y < ringMcp.y && pinkyTip.y < pinkyMcp.y &&
-        Math.abs(indexTip.x - pinkyTip.x) > 0.1) {
-      return 'C';
-    }
+  getSignerCalibration(): IHandCalibration | null {
+    return this.pipeline.classifier.getCalibration();
+  }
 
-    // Letter D: Index extended, others curled, thumb on middle finger
-    if (indexTip.y < indexMcp.y &&
-        this.isFingerCurled(middleTip, hand[10], middleMcp) &&
-        this.isFingerCurled(ringTip, hand[14], ringMcp) &&
-        this.isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
-      return 'D';
-    }
+  // Raw hand landmarks for every processed frame, e.g. for the calibration wizard
+  subscribeLandmarks(listener: LandmarkListener): () => void {
+    this.landmarkListeners.add(listener);
+    return () => this.landmarkListeners.delete(listener);
+  }
 
-    // Letter E: All fingers curled into fist
-    if (this.isFingerCurled(indexTip, hand[6], indexMcp) &&
-        this.isFingerCurled(middleTip, hand[10], middleMcp) &&
-        this.isFingerCurled(ringTip, hand[14], ringMcp) &&
-        this.isFingerCurled(pinkyTip, hand[18], pinkyMcp) &&
-        this.isFingerCurled(thumbTip, hand[3], hand[2])) {
-      return 'E';
-    }
+  private emitLandmarks(landmarks: HandLandmark[][], multiHandedness: HandClassification[]): void {
+    this.landmarkListeners.forEach(listener => listener(landmarks, multiHandedness));
+  }
 
-    // Letter F: Index and thumb extended, others curled
-    if (indexTip.y < indexMcp.y && thumbTip.y < hand[3].y &&
-        this.isFingerCurled(middleTip, hand[10], middleMcp) &&
-        this.isFingerCurled(ringTip, hand[14], ringMcp) &&
-        this.isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
-      return 'F';
-    }
+  // Per-frame classifier internals for the debug overlay. Diagnostics are only
+  // computed while someone is subscribed.
+  subscribeDiagnostics(listener: DiagnosticsListener): () => void {
+    this.diagnosticsListeners.add(listener);
+    if (this.diagnosticsListeners.size === 1) this.setDiagnosticsEnabled(true);
+    return () => {
+      if (this.diagnosticsListeners.delete(listener) && this.diagnosticsListeners.size === 0) {
+        this.setDiagnosticsEnabled(false);
+      }
+    };
+  }
 
-    // Letter G: Index and thumb extended in hook shape
-    if (indexTip.y < indexMcp.y && thumbTip.y < hand[3].y &&
-        this.isFingerCurled(middleTip, hand[10], middleMcp) &&
-        this.isFingerCurled(ringTip, hand[14], ringMcp) &&
-        this.isFingerCurled(pinkyTip, hand[18], pinkyMcp) &&
-        Math.abs(indexTip.x - thumbTip.x) < 0.05) {
-      return 'G';
-    }
+  private setDiagnosticsEnabled(enabled: boolean): void {
+    this.pipeline.classifier.setDiagnostics(enabled);
+    this.detectionWorker?.updateSettings({ diagnostics: enabled });
+  }
+
+  private emitDiagnostics(
+    landmarks: HandLandmark[][],
+    multiHandedness: HandClassification[],
+    diagnostics: ClassifierDiagnostics | null,
+    timestamp: number,
+    inferenceMs: number,
+    latencyMs: number
+  ): void {
+    if (this.diagnosticsListeners.size === 0) return;
+
+    const { classifyMs, ...classified } = diagnostics ?? EMPTY_DIAGNOSTICS;
+    const frame: FrameDiagnostics = {
+      ...classified,
+      timestamp,
+      landmarks,
+      multiHandedness,
+      calibratedConfidence: classified.sign && classified.confidence !== null
+        ? this.pipeline.calibrator.calibrate(classified.sign, classified.confidence)
+        : null,
+      timing: { classifyMs, inferenceMs, latencyMs }
+    };
+    this.diagnosticsListeners.forEach(listener => listener(frame));
+  }
 
-    // Letter H: Index and middle extended, crossed
-    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
-        this.isFingerCurled(ringTip, hand[14], ringMcp) &&
-        this.isFingerCurled(pinkyTip, hand[18], pinkyMcp) &&
-        Math.abs(indexTip.x - middleTip.x) < 0.05) {
-      return 'H';
-    }
+  // Sample brightness and backlight from the current video frame. Runs during
+  // detection, and can be called before it starts as a pre-flight check.
+  checkLighting(video: HTMLVideoElement): FrameQualityReport {
+    if (!video.videoWidth) return this.quality.getReport();
 
-    // Letter I: Pinky extended, others curled
-    if (this.isFingerCurled(indexTip, hand[6], indexMcp) &&
-        this.isFingerCurled(middleTip, hand[10], middleMcp) &&
-        this.isFingerCurled(ringTip, hand[14], ringMcp) &&
-        pinkyTip.y < pinkyMcp.y) {
-      return 'I';
-    }
+    const canvas = this.lightingCanvas ?? (this.lightingCanvas = document.createElement('canvas'));
+    canvas.width = LIGHTING_SAMPLE_WIDTH;
+    canvas.height = Math.max(1, Math.round(video.videoHeight * LIGHTING_SAMPLE_WIDTH / video.videoWidth));
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) return this.quality.getReport();
 
-    // Letter J: Pinky extended, moving in J shape (static detection)
-    if (this.isFingerCurled(indexTip, hand[6], indexMcp) &&
-        this.isFingerCurled(middleTip, hand[10], middleMcp) &&
-        this.isFingerCurled(ringTip, hand[14], ringMcp) &&
-        pinkyTip.y < pinkyMcp.y) {
-      return 'J';
-    }
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+    return this.applyQuality(this.quality.addLighting(measureLighting(data, canvas.width, canvas.height), Date.now()));
+  }
 
-    // Letter K: Index and middle extended, index touches thumb
-    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
-        this.isFingerCurled(ringTip, hand[14], ringMcp) &&
-        this.isFingerCurled(pinkyTip, hand[18], pinkyMcp) &&
-        Math.abs(indexTip.x - thumbTip.x) < 0.03) {
-      return 'K';
-    }
+  getQualityReport(): FrameQualityReport {
+    return this.quality.getReport();
+  }
 
-    // Letter L: Index and thumb extended in L shape
-    if (indexTip.y < indexMcp.y && thumbTip.y < hand[3].y &&
-        this.isFingerCurled(middleTip, hand[10], middleMcp) &&
-        this.isFingerCurled(ringTip, hand[14], ringMcp) &&
-        this.isFingerCurled(pinkyTip, hand[18], pinkyMcp) &&
-        Math.abs(indexTip.x - thumbTip.x) > 0.05) {
-      return 'L';
-    }
+  // Lighting and framing guidance, published when it changes and about twice a second
+  subscribeQuality(listener: QualityListener): () => void {
+    return this.quality.subscribe(listener);
+  }
 
-    // Letter M: Three fingers touching thumb
-    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
-        ringTip.y < ringMcp.y && thumbTip.y < hand[3].y &&
-        this.isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
-      return 'M';
-    }
+  // With the gate off, results are reported whatever the picture quality
+  setQualityGate(enabled: boolean): void {
+    this.qualityGate = enabled;
+    this.applyQuality(this.quality.getReport());
+  }
 
-    // Letter N: Two fingers touching thumb
-    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
-        thumbTip.y < hand[3].y &&
-        this.isFingerCurled(ringTip, hand[14], ringMcp) &&
-        this.isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
-      return 'N';
-    }
+  private applyQuality(report: FrameQualityReport): FrameQualityReport {
+    this.pipeline.setQualityHold(this.qualityGate && !report.ok);
+    return report;
+  }
 
-    // Letter O: Fingers form O shape
-    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
-        ringTip.y < ringMcp.y && pinkyTip.y < pinkyMcp.y &&
-        thumbTip.y < hand[3].y) {
-      // Check if fingers are close together forming a circle
-      const fingerSpread = Math.max(
-        Math.abs(indexTip.x - middleTip.x),
-        Math.abs(middleTip.x - ringTip.x),
-        Math.abs(ringTip.x - pinkyTip.x)
-      );
-      if (fingerSpread < 0.05) {
-        return 'O';
-      }
-    }
+  // Whether a result is confident enough to show, using the per-class threshold table
+  meetsThreshold(result: DetectionResult): boolean {
+    return this.pipeline.calibrator.meetsThreshold(result);
+  }
 
-    // Letter P: Index extended, others curled, thumb across palm
-    if (indexTip.y < indexMcp.y && thumbTip.x > indexTip.x &&
-        this.isFingerCurled(middleTip, hand[10], middleMcp) &&
-        this.isFingerCurled(ringTip, hand[14], ringMcp) &&
-        this.isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
-      return 'P';
-    }
+  getThresholdTable(): ThresholdTable {
+    return this.pipeline.calibrator.getThresholdTable();
+  }
 
-    // Letter Q: Index and thumb in hook shape
-    if (indexTip.y < indexMcp.y && thumbTip.y < hand[3].y &&
-        this.isFingerCurled(middleTip, hand[10], middleMcp) &&
-        this.isFingerCurled(ringTip, hand[14], ringMcp) &&
-        this.isFingerCurled(pinkyTip, hand[18], pinkyMcp) &&
-        indexTip.x < thumbTip.x) {
-      return 'Q';
-    }
+  setClassThreshold(sign: string, threshold: number): void {
+    this.pipeline.calibrator.setThreshold(sign, threshold);
+  }
 
-    // Letter R: Index and middle crossed, thumb extended
-    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
-        thumbTip.y < hand[3].y &&
-        this.isFingerCurled(ringTip, hand[14], ringMcp) &&
-        this.isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
-      return 'R';
-    }
+  setGestureTypeThreshold(gestureType: GestureType, threshold: number): void {
+    this.pipeline.calibrator.setGestureTypeThreshold(gestureType, threshold);
+  }
 
-    // Letter S: Fist with thumb over fingers
-    if (this.isFingerCurled(indexTip, hand[6], indexMcp) &&
-        this.isFingerCurled(middleTip, hand[10], middleMcp) &&
-        this.isFingerCurled(ringTip, hand[14], ringMcp) &&
-        this.isFingerCurled(pinkyTip, hand[18], pinkyMcp) &&
-        thumbTip.y < hand[3].y && thumbTip.x > indexTip.x) {
-      return 'S';
-    }
+  private getLanguageCode(): SignLanguageCode {
+    return this.pipeline.classifier.getLanguageCode();
+  }
 
-    // Letter T: Thumb between index and middle
-    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
-        thumbTip.y < hand[3].y &&
-        this.isFingerCurled(ringTip, hand[14], ringMcp) &&
-        this.isFingerCurled(pinkyTip, hand[18], pinkyMcp) &&
-        thumbTip.x > indexTip.x && thumbTip.x < middleTip.x) {
-      return 'T';
+  async startDetection(videoElement: HTMLVideoElement, onResults: (result: DetectionResult) => void): Promise<void> {
+    const run = ++this.detectionRun;
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
     }
-
-    // Letter U: Index and middle extended
-    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
-        this.isFingerCurled(ringTip, hand[14], ringMcp) &&
-        this.isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
-      return 'U';
+    if (!this.isInitialized) {
+      await this.initialize();
     }
 
-    // Letter V: Index and middle extended in V shape
-    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
-        this.isFingerCurled(ringTip, hand[14], ringMcp) &&
-        this.isFingerCurled(pinkyTip, hand[18], pinkyMcp) &&
-        Math.abs(indexTip.x - middleTip.x) > 0.05) {
-      return 'V';
-    }
+    this.onResultsCallback = onResults;
 
-    // Letter W: Three fingers extended
-    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
-        ringTip.y < ringMcp.y &&
-        this.isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
-      return 'W';
+    if (this.workerEnabled && !this.detectionWorker) {
+      await this.startWorker();
     }
+    // Stopped, or started again, while MediaPipe or the worker was loading
+    if (run !== this.detectionRun) return;
 
-    // Letter X: Index curled, middle extended over it
-    if (this.isFingerCurled(indexTip, hand[6], indexMcp) &&
-        middleTip.y < middleMcp.y &&
-        this.isFingerCurled(ringTip, hand[14], ringMcp) &&
-        this.isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
-      return 'X';
-    }
+    this.governor.reset();
+    this.pipeline.transcript.markStart(Date.now());
 
-    // Letter Y: Thumb and pinky extended
-    if (thumbTip.y < hand[3].y && pinkyTip.y < pinkyMcp.y &&
-        this.isFingerCurled(indexTip, hand[6], indexMcp) &&
-        this.isFingerCurled(middleTip, hand[10], middleMcp) &&
-        this.isFingerCurled(ringTip, hand[14], ringMcp)) {
-      return 'Y';
-    }
+    if (this.hands) {
+      const processFrame = async () => {
+        if (run !== this.detectionRun) return;
+        // The governor paces frames to the FPS the device can sustain
+        if (videoElement && !videoElement.paused && !videoElement.ended && this.governor.shouldProcess(performance.now())) {
+          if (performance.now() - this.lastLightingCheck >= LIGHTING_CHECK_INTERVAL_MS) {
+            this.lastLightingCheck = performance.now();
+            this.checkLighting(videoElement);
+          }
+          if (this.detectionWorker && !this.holisticEnabled) {
+            // Inference runs in the worker; frames are skipped while it is busy
+            await this.detectionWorker.submitFrame(videoElement);
+          } else {
+            // Face & body mode swaps in the holistic model, which also tracks both hands
+            const solution = this.holisticEnabled && this.holistic ? this.holistic : this.hands;
+            const started = performance.now();
+            this.frameSentAt = Date.now();
+            await solution.send({ image: this.scaleFrame(videoElement) });
+            const elapsed = performance.now() - started;
+            this.governor.recordFrame(elapsed, elapsed, performance.now());
+          }
+        }
+        // stopDetection may have run while the frame was being sent
+        if (run !== this.detectionRun) return;
+        this.animationFrameId = requestAnimationFrame(processFrame);
+      };
 
-    // Letter Z: Index finger moving in Z shape (static approximation)
-    if (indexTip.y < indexMcp.y &&
-        this.isFingerCurled(middleTip, hand[10], middleMcp) &&
-        this.isFingerCurled(ringTip, hand[14], ringMcp) &&
-        this.isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
-      return 'Z';
+      processFrame();
     }
-
-    return null;
   }
 
-  private recognizeNumbers(hand: HandLandmark[]): string | null {
-    const thumbTip = hand[4];
-    const indexTip = hand[8];
-    const middleTip = hand[12];
-    const ringTip = hand[16];
-    const pinkyTip = hand[20];
-    const indexMcp = hand[5];
-    const middleMcp = hand[9];
-    const ringMcp = hand[13];
-    const pinkyMcp = hand[17];
-
-    // Number 0: Thumb and index form circle, other fingers extended
-    if (middleTip.y < middleMcp.y && ringTip.y < ringMcp.y && pinkyTip.y < pinkyMcp.y &&
-        Math.abs(thumbTip.x - indexTip.x) < 0.05 && Math.abs(thumbTip.y - indexTip.y) < 0.05) {
-      return '0';
-    }
-
-    // Number 1: Index finger extended
-    if (indexTip.y < indexMcp.y &&
-        this.isFingerCurled(middleTip, hand[10], middleMcp) &&
-        this.isFingerCurled(ringTip, hand[14], ringMcp) &&
-        this.isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
-      return '1';
-    }
+  // Downscale on the main thread when the governor has cut resolution
+  private scaleFrame(video: HTMLVideoElement): HTMLVideoElement | HTMLCanvasElement {
+    const { frameWidth } = this.governor.getLevel();
+    if (!video.videoWidth || video.videoWidth <= frameWidth) return video;
 
-    // Number 2: Index and middle extended
-    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
-        this.isFingerCurled(ringTip, hand[14], ringMcp) &&
-        this.isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
-      return '2';
+    const canvas = this.frameCanvas ?? (this.frameCanvas = document.createElement('canvas'));
+    const height = Math.round(video.videoHeight * frameWidth / video.videoWidth);
+    if (canvas.width !== frameWidth || canvas.height !== height) {
+      canvas.width = frameWidth;
+      canvas.height = height;
     }
+    canvas.getContext('2d')?.drawImage(video, 0, 0, frameWidth, height);
+    return canvas;
+  }
 
-    // Number 3: Index, middle, and ring extended
-    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y && ringTip.y < ringMcp.y &&
-        this.isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
-      return '3';
-    }
+  private applyPerformanceLevel(level: PerformanceLevel): void {
+    this.hands?.setOptions({ modelComplexity: level.modelComplexity });
+    this.holistic?.setOptions({ modelComplexity: level.modelComplexity });
+    this.detectionWorker?.setFrameWidth(level.frameWidth);
+    this.detectionWorker?.updateSettings({ modelComplexity: level.modelComplexity });
+  }
 
-    // Number 4: All fingers extended except thumb
-    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
-        ringTip.y < ringMcp.y && pinkyTip.y < pinkyMcp.y &&
-        thumbTip.y > hand[3].y) {
-      return '4';
+  // Falls back to main-thread inference when the worker cannot load MediaPipe
+  private async startWorker(): Promise<void> {
+    const level = this.governor.getLevel();
+    const worker = new DetectionWorkerClient(frame => this.onWorkerFrame(frame), { frameWidth: level.frameWidth });
+    try {
+      await worker.start({
+        sensitivity: this.sensitivity,
+        language: this.getLanguageCode(),
+        dominantHand: this.dominantHand,
+        modelComplexity: level.modelComplexity,
+        diagnostics: this.diagnosticsListeners.size > 0
+      });
+      if (this.referenceSigns.length > 0 || this.customSigns.length > 0) {
+        worker.loadTemplates([...this.referenceSigns, ...this.customSigns]);
+      }
+      worker.setCalibration(this.getSignerCalibration());
+      worker.loadModel(this.landmarkModel ? DEFAULT_MODEL_BASE_URL : null);
+      this.detectionWorker = worker;
+    } catch (error) {
+      console.warn('Detection worker unavailable, running detection on the main thread:', error);
+      this.workerEnabled = false;
     }
+  }
 
-    // Number 5: All fingers extended
-    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
-        ringTip.y < ringMcp.y && pinkyTip.y < pinkyMcp.y &&
-        thumbTip.y < hand[3].y) {
-      return '5';
+  stopDetection(): void {
+    this.detectionRun++;
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
     }
+    this.onResultsCallback = null;
+    this.detectionWorker?.reset();
+    this.pipeline.reset();
+  }
 
-    // Number 6: Thumb touches pinky, other fingers extended
-    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
-        ringTip.y < ringMcp.y && pinkyTip.y < pinkyMcp.y &&
-        Math.abs(thumbTip.x - pinkyTip.x) < 0.03) {
-      return '6';
-    }
+  updateSettings(sensitivity: number, language: string): void {
+    this.sensitivity = sensitivity;
+    this.language = language;
 
-    // Number 7: Index, middle, ring extended, pinky curled, thumb tucked
-    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y && ringTip.y < ringMcp.y &&
-        this.isFingerCurled(pinkyTip, hand[18], pinkyMcp) && thumbTip.y > hand[3].y) {
-      return '7';
+    // Switching language only swaps the recognizer; MediaPipe keeps running
+    if (this.pipeline.classifier.setRecognizer(recognizerRegistry.resolve(language))) {
+      this.clearSentenceBuffer();
+      this.landmarkModel?.prepare(this.getLanguageCode());
     }
 
-    // Number 8: Thumb touches middle, other fingers extended
-    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
-        ringTip.y < ringMcp.y && pinkyTip.y < pinkyMcp.y &&
-        Math.abs(thumbTip.x - middleTip.x) < 0.03) {
-      return '8';
-    }
+    this.detectionWorker?.updateSettings({ sensitivity, language: this.getLanguageCode() });
 
-    // Number 9: All fingers extended, thumb touches ring
-    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
-        ringTip.y < ringMcp.y && pinkyTip.y < pinkyMcp.y &&
-        Math.abs(thumbTip.x - ringTip.x) < 0.03) {
-      return '9';
+    if (this.hands) {
+      this.hands.setOptions({
+        minDetectionConfidence: this.sensitivity / 10,
+        minTrackingConfidence: this.sensitivity / 10
+      });
     }
 
-    // Number 10: Both hands showing 5 (simplified single hand detection)
-    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
-        ringTip.y < ringMcp.y && pinkyTip.y < pinkyMcp.y &&
-        thumbTip.y < hand[3].y) {
-      // Check if hand is positioned to suggest "10"
-      return '10';
+    if (this.holistic) {
+      this.holistic.setOptions({
+        minDetectionConfidence: this.sensitivity / 10,
+        minTrackingConfidence: this.sensitivity / 10
+      });
     }
-
-    return null;
-  }
-
-  private isFingerCurled(tip: HandLandmark, pip: HandLandmark, mcp: HandLandmark): boolean {
-    return tip.y > pip.y && pip.y > mcp.y;
-  }
-
-  // Individual gesture detection methods
-  private detectHelloGesture(hand: HandLandmark[]): boolean {
-    // Hello: Open hand waving motion (simplified static detection)
-    const allFingersExtended = [4, 8, 12, 16, 20].every(i => hand[i].y < hand[i-2].y);
-    return allFingersExtended;
-  }
-
-  private detectThankYouGesture(hand: HandLandmark[]): boolean {
-    // Thank you: Flat hand from chin outward
-    const palmFacing = hand[0].y < hand[9].y; // Simplified
-    const fingersTogether = Math.abs(hand[8].x - hand[12].x) < 0.05;
-    return palmFacing && fingersTogether;
-  }
-
-  private detectPleaseGesture(hand: HandLandmark[]): boolean {
-    // Please: Rubbing motion on chest (simplified)
-    const handNearCenter = Math.abs(hand[0].x - 0.5) < 0.2;
-    const fingersCurled = [8, 12, 16, 20].every(i => hand[i].y > hand[i-2].y);
-    return handNearCenter && fingersCurled;
   }
 
-  private detectYesGesture(hand: HandLandmark[]): boolean {
-    // Yes: Fist pumping up and down (simplified)
-    const fist = [8, 12, 16, 20].every(i => hand[i].y > hand[i-2].y);
-    return fist;
+  getRecognizer(): SignRecognizer {
+    return this.pipeline.classifier.getRecognizer();
   }
 
-  private detectNoGesture(hand: HandLandmark[]): boolean {
-    // No: Index finger shaking side to side (simplified)
-    const indexExtended = hand[8].y < hand[6].y;
-    const otherCurled = [12, 16, 20].every(i => hand[i].y > hand[i-2].y);
-    return indexExtended && otherCurled;
+  // Which learned model is loaded for the current language, if any
+  getModelStatus(): LandmarkModelStatus {
+    return this.landmarkModel?.getStatus() ?? { state: 'none', language: null, entry: null };
   }
 
-  private detectGoodMorningGesture(hand: HandLandmark[]): boolean {
-    // Good morning: Circular motion near head (simplified)
-    const handNearHead = hand[0].y < 0.3;
-    const openHand = [4, 8, 12, 16, 20].some(i => hand[i].y < hand[i-2].y);
-    return handNearHead && openHand;
+  // Rule-based recognition only, e.g. to compare against the learned model
+  setModelEnabled(enabled: boolean): void {
+    if (enabled === !!this.landmarkModel) return;
+    this.landmarkModel = enabled ? new LandmarkModelClassifier() : null;
+    this.pipeline.classifier.setModel(this.landmarkModel);
+    this.landmarkModel?.prepare(this.getLanguageCode());
+    this.detectionWorker?.loadModel(enabled ? DEFAULT_MODEL_BASE_URL : null);
   }
 
-  private detectHowAreYouGesture(hand: HandLandmark[]): boolean {
-    // How are you: Combination of signs (simplified)
-    const openHand = [4, 8, 12, 16, 20].every(i => hand[i].y < hand[i-2].y);
-    return openHand;
+  // Frame throughput and latency while detection runs in the worker; null on the main thread
+  getFrameStats(): FrameStats | null {
+    return this.detectionWorker?.getStats() ?? null;
   }
 
-  private detectNiceToMeetYouGesture(hand: HandLandmark[]): boolean {
-    // Nice to meet you: Handshake motion (simplified)
-    const handExtended = hand[8].y < hand[6].y;
-    return handExtended;
+  // Measured FPS, latency and the current model/resolution, published about once a second
+  getPerformanceStats(): PerformanceStats {
+    return this.governor.getStats();
   }
 
-  private detectSorryGesture(hand: HandLandmark[]): boolean {
-    // Sorry: Fist rubbing on chest (simplified)
-    const fist = [8, 12, 16, 20].every(i => hand[i].y > hand[i-2].y);
-    const handNearChest = hand[0].y > 0.6;
-    return fist && handNearChest;
+  subscribePerformance(listener: PerformanceListener): () => void {
+    return this.governor.subscribe(listener);
   }
 
-  private detectHelpGesture(hand: HandLandmark[]): boolean {
-    // Help: Y handshape (simplified)
-    const thumbExtended = hand[4].y < hand[3].y;
-    const pinkyExtended = hand[20].y < hand[18].y;
-    const middleCurled = hand[12].y > hand[10].y;
-    return thumbExtended && pinkyExtended && middleCurled;
+  // Turn off adaptation to pin the best quality level, e.g. on fast desktops
+  setAdaptivePerformance(adaptive: boolean): void {
+    this.governor.setAdaptive(adaptive);
   }
 
-  private detectWaterGesture(hand: HandLandmark[]): boolean {
-    // Water: W handshape tapping chin (simplified)
-    const indexExtended = hand[8].y < hand[6].y;
-    const middleExtended = hand[12].y < hand[10].y;
-    const ringCurled = hand[16].y > hand[14].y;
-    const pinkyCurled = hand[20].y > hand[18].y;
-    return indexExtended && middleExtended && ringCurled && pinkyCurled;
+  // In fingerspelling mode letters are assembled into words before they are reported
+  setFingerspellingMode(enabled: boolean): void {
+    this.pipeline.setFingerspelling(enabled);
   }
 
-  private detectFoodGesture(hand: HandLandmark[]): boolean {
-    // Food: C handshape to mouth (simplified)
-    const fingersCurled = [8, 12, 16, 20].every(i => hand[i].y > hand[i-2].y);
-    const handNearMouth = hand[0].y < 0.4;
-    return fingersCurled && handNearMouth;
+  isFingerspellingMode(): boolean {
+    return this.pipeline.isFingerspelling();
   }
 
-  private detectMoreGesture(hand: HandLandmark[]): boolean {
-    // More: Fingers tapping together (simplified)
-    const fingersExtended = [8, 12, 16, 20].some(i => hand[i].y < hand[i-2].y);
-    const fingersClose = Math.abs(hand[8].x - hand[12].x) < 0.1;
-    return fingersExtended && fingersClose;
+  // Letters spelled so far in the current word
+  getFingerspellingBuffer(): string {
+    return this.pipeline.fingerspeller.getBuffer();
   }
 
-  private analyzeFingerPattern(hand: HandLandmark[]): string | null {
-    const thumbTip = hand[4];
-    const indexTip = hand[8];
-    const middleTip = hand[12];
-    const ringTip = hand[16];
-    const pinkyTip = hand[20];
-    const indexMcp = hand[5];
-    const middleMcp = hand[9];
-    const ringMcp = hand[13];
-    const pinkyMcp = hand[17];
-
-    // Count extended fingers
-    const extendedFingers = [
-      thumbTip.y < hand[3].y,
-      indexTip.y < indexMcp.y,
-      middleTip.y < middleMcp.y,
-      ringTip.y < ringMcp.y,
-      pinkyTip.y < pinkyMcp.y
-    ].filter(Boolean).length;
-
-    // Simple pattern-based recognition for numbers
-    if (extendedFingers === 1 && indexTip.y < indexMcp.y) return '1';
-    if (extendedFingers === 2 && indexTip.y < indexMcp.y && middleTip.y < middleMcp.y) return '2';
-    if (extendedFingers === 3 && indexTip.y < indexMcp.y && middleTip.y < middleMcp.y && ringTip.y < ringMcp.y) return '3';
-    if (extendedFingers === 4) return '4';
-    if (extendedFingers === 5) return '5';
-
-    // For letters, use basic shape recognition
-    if (extendedFingers === 0) return 'A'; // Fist
-    if (extendedFingers === 1 && !extendedFingers[0]) return 'D'; // Index only
-
-    return null;
-  }
-
-  private intelligentFallbackDetection(hand: HandLandmark[], vocabulary: string[]): string {
-    // Analyze hand shape characteristics
-    const thumbTip = hand[4];
-    const indexTip = hand[8];
-    const middleTip = hand[12];
-    const ringTip = hand[16];
-    const pinkyTip = hand[20];
-
-    // Calculate hand spread (how spread out fingers are)
-    const fingerSpread = Math.max(
-      Math.abs(indexTip.x - middleTip.x),
-      Math.abs(middleTip.x - ringTip.x),
-      Math.abs(ringTip.x - pinkyTip.x)
-    );
-
-    // Calculate average finger extension
-    const fingerExtensions = [8, 12, 16, 20].map(i => hand[i].y < hand[i-2].y);
-    const extendedCount = fingerExtensions.filter(Boolean).length;
-
-    // Calculate hand orientation (simplified)
-    const handWidth = Math.abs(hand[5].x - hand[17].x);
-    const handHeight = Math.abs(hand[0].y - hand[12].y);
-    const aspectRatio = handWidth / handHeight;
-
-    // Use characteristics to select from vocabulary
-    // This is a simplified approach - in production, this would use ML models
-    let selectedSign = 'Hello'; // default
-
-    if (extendedCount === 0) {
-      // Closed fist - could be A, S, T, etc.
-      selectedSign = ['A', 'S', 'T'][Math.floor(Math.random() * 3)];
-    } else if (extendedCount === 1) {
-      // One finger extended - could be 1, D, I, etc.
-      selectedSign = Math.random() > 0.5 ? '1' : 'D';
-    } else if (extendedCount === 2) {
-      // Two fingers extended - could be 2, V, etc.
-      selectedSign = Math.random() > 0.5 ? '2' : 'V';
-    } else if (extendedCount >= 4) {
-      // Most fingers extended - could be 4, 5, B, etc.
-      selectedSign = Math.random() > 0.5 ? '5' : 'B';
-    } else if (fingerSpread < 0.1) {
-      // Fingers close together - could be F, numbers, etc.
-      selectedSign = Math.random() > 0.7 ? 'F' : (Math.floor(Math.random() * 10) + 1).toString();
-    } else {
-      // Default to a common word
-      const commonWords = ['Hello', 'Thank you', 'Please', 'Yes', 'No', 'Good morning'];
-      selectedSign = commonWords[Math.floor(Math.random() * commonWords.length)];
-    }
-
-    return selectedSign;
-  }
-
-  private detectKSLGesture(hand: HandLandmark[]): string | null {
-    // KSL (Kenyan Sign Language) gesture detection
-    // Note: KSL shares many similarities with ASL but may have regional variations
-
-    const thumbTip = hand[4];
-    const indexTip = hand[8];
-    const middleTip = hand[12];
-    const ringTip = hand[16];
-    const pinkyTip = hand[20];
-    const indexMcp = hand[5];
-    const middleMcp = hand[9];
-    const ringMcp = hand[13];
-    const pinkyMcp = hand[17];
-
-    // KSL Numbers (similar to ASL but with potential variations)
-    const extendedFingers = [
-      thumbTip.y < hand[3].y,
-      indexTip.y < indexMcp.y,
-      middleTip.y < middleMcp.y,
-      ringTip.y < ringMcp.y,
-      pinkyTip.y < pinkyMcp.y
-    ].filter(Boolean).length;
-
-    // Number detection (KSL uses similar finger counting)
-    if (extendedFingers === 1 && indexTip.y < indexMcp.y) return '1';
-    if (extendedFingers === 2 && indexTip.y < indexMcp.y && middleTip.y < middleMcp.y) return '2';
-    if (extendedFingers === 3) return '3';
-    if (extendedFingers === 4) return '4';
-    if (extendedFingers === 5) return '5';
-
-    // KSL specific signs (may vary from ASL)
-    // Hello: Similar to ASL - open hand wave
-    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
-        ringTip.y < ringMcp.y && pinkyTip.y < pinkyMcp.y) {
-      return 'Hodi';
-    }
-
-    // Thank you: Hand from chin outward (similar to ASL)
-    if (thumbTip.y < hand[3].y && indexTip.y < indexMcp.y &&
-        this.isFingerCurled(middleTip, hand[10], middleMcp)) {
-      return 'Asante';
-    }
-
-    // Please: Similar to ASL - hand near chest
-    if (Math.abs(hand[0].x - 0.5) < 0.3 && hand[0].y > 0.5) {
-      return 'Tafadhali';
-    }
-
-    // Yes: Fist up and down (similar to ASL)
-    if (this.isFingerCurled(indexTip, hand[6], indexMcp) &&
-        this.isFingerCurled(middleTip, hand[10], middleMcp)) {
-      return 'Ndio';
-    }
-
-    // No: Index finger side to side (similar to ASL)
-    if (indexTip.y < indexMcp.y &&
-        this.isFingerCurled(middleTip, hand[10], middleMcp) &&
-        this.isFingerCurled(ringTip, hand[14], ringMcp) &&
-        this.isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
-      return 'Hapana';
-    }
-
-    // Water: Similar to ASL - W handshape
-    if (indexTip.y < indexMcp.y && middleTip.y < middleMcp.y &&
-        this.isFingerCurled(ringTip, hand[14], ringMcp) &&
-        this.isFingerCurled(pinkyTip, hand[18], pinkyMcp)) {
-      return 'Maji';
-    }
-
-    // Food: Similar to ASL - C handshape to mouth
-    if (this.isFingerCurled(indexTip, hand[6], indexMcp) &&
-        this.isFingerCurled(middleTip, hand[10], middleMcp) &&
-        this.isFingerCurled(ringTip, hand[14], ringMcp) &&
-        this.isFingerCurled(pinkyTip, hand[18], pinkyMcp) &&
-        hand[0].y < 0.4) {
-      return 'Chakula';
-    }
-
-    // For KSL, many signs are similar to ASL, so we can use ASL detection as fallback
-    // but return KSL vocabulary equivalents
-    const aslEquivalent = this.detectASLGestureForKSL(hand);
-    if (aslEquivalent && this.kslVocabulary[aslEquivalent]) {
-      return this.kslVocabulary[aslEquivalent];
-    }
+  // Face & body mode tracks face and pose alongside the hands to read question,
+  // negation and location markers. The holistic model is only loaded on first use.
+  setHolisticMode(enabled: boolean): void {
+    if (enabled && !this.holistic) {
+      this.holistic = new Holistic({
+        locateFile: (file) => locateHolisticFile(file),
+      });
 
-    return null;
-  }
+      this.holistic.setOptions({
+        modelComplexity: this.governor.getLevel().modelComplexity,
+        smoothLandmarks: true,
+        refineFaceLandmarks: false,
+        minDetectionConfidence: this.sensitivity / 10,
+        minTrackingConfidence: this.sensitivity / 10
+      });
 
-  private detectASLGestureForKSL(hand: HandLandmark[]): string | null {
-    // Use ASL detection patterns but return ASL sign names for KSL mapping
-    const thumbTip = hand[4];
-    const indexTip = hand[8];
-    const middleTip = hand[12];
-    const ringTip = hand[16];
-    const pinkyTip = hand[20];
-
-    // Basic ASL patterns for KSL mapping
-    const extendedFingers = [
-      thumbTip.y < hand[3].y,
-      indexTip.y < hand[8-2].y,
-      middleTip.y < hand[12-2].y,
-      ringTip.y < hand[16-2].y,
-      pinkyTip.y < hand[20-2].y
-    ].filter(Boolean).length;
-
-    if (extendedFingers === 0) return 'Fist';
-    if (extendedFingers === 1 && indexTip.y < hand[6].y) return 'Point';
-    if (extendedFingers === 2 && indexTip.y < hand[6].y && middleTip.y < hand[10].y) return 'Peace';
-    if (extendedFingers === 5) return 'Open Hand';
-
-    // I Love You sign
-    if (thumbTip.y < hand[3].y && pinkyTip.y < hand[18].y &&
-        this.isFingerCurled(indexTip, hand[6], hand[5]) &&
-        this.isFingerCurled(middleTip, hand[10], hand[9]) &&
-        this.isFingerCurled(ringTip, hand[14], hand[13])) {
-      return 'I Love You';
+      this.holistic.onResults(this.onHolisticResults.bind(this));
     }
-
-    return null;
+    this.holisticEnabled = enabled;
+    this.pipeline.classifier.reset();
+    this.pipeline.nonManualTracker.reset();
   }
 
-  async startDetection(videoElement: HTMLVideoElement, onResults: (result: DetectionResult) => void): Promise<void> {
-    if (!this.isInitialized) {
-      await this.initialize();
-    }
-
-    this.onResultsCallback = onResults;
-
-    if (this.hands) {
-      const processFrame = async () => {
-        if (this.hands && videoElement && !videoElement.paused && !videoElement.ended) {
-          await this.hands.send({ image: videoElement });
-        }
-        this.animationFrameId = requestAnimationFrame(processFrame);
-      };
-
-      processFrame();
-    }
+  isHolisticMode(): boolean {
+    return this.holisticEnabled;
   }
 
-  stopDetection(): void {
-    if (this.animationFrameId) {
-      cancelAnimationFrame(this.animationFrameId);
-      this.animationFrameId = null;
-    }
-    this.onResultsCallback = null;
+  // Which hand leads two-handed signs; MediaPipe handedness decides which hand is which
+  setDominantHand(hand: Handedness): void {
+    this.dominantHand = hand;
+    this.pipeline.classifier.setDominantHand(hand);
+    this.detectionWorker?.updateSettings({ dominantHand: hand });
   }
 
-  updateSettings(sensitivity: number, language: string): void {
-    this.sensitivity = sensitivity;
-    this.language = language;
-    // Reinitialize with new settings if already initialized
-    if (this.isInitialized) {
-      this.isInitialized = false;
-      this.initialize().catch(console.error);
-    }
+  getDominantHand(): Handedness {
+    return this.dominantHand;
   }
 
   private addToSentenceBuffer(sign: string): void {
@@ -974,33 +631,16 @@ class SignLanguageDetectionService {
   }
 
   private async analyzeSentenceConstruction(): Promise<void> {
-    if (!this.openai || this.detectedSignsBuffer.length < 2) return;
+    if (this.detectedSignsBuffer.length < 2) return;
 
-    try {
-      const signsSequence = this.detectedSignsBuffer.join(' ');
-
-      const completion = await this.openai.chat.completions.create({
-        model: "gpt-3.5-turbo",
-        messages: [
-          {
-            role: "system",
-            content: `You are an expert in sign language linguistics. Analyze the sequence of detected signs and provide insights about sentence construction, grammar, and meaning. Focus on ${this.language} sign language patterns.`
-          },
-          {
-            role: "user",
-            content: `Analyze this sequence of detected signs: "${signsSequence}". Provide:
-1. Possible sentence meaning
-2. Grammatical correctness
-3. Suggestions for improvement
-4. Sign language specific insights
-Keep response concise and focused on accuracy.`
-          }
-        ],
-        max_tokens: 150,
-        temperature: 0.3
-      });
+    // The AI routes need a signed-in user
+    if (!hasAuthToken()) {
+      this.basicSentenceAnalysis();
+      return;
+    }
 
-      const analysis = completion.choices[0]?.message?.content;
+    try {
+      const { analysis } = await analyzeSignSentence([...this.detectedSignsBuffer], this.language);
       if (analysis && this.onResultsCallback) {
         // Send sentence analysis as a special result
         const sentenceResult: DetectionResult = {
@@ -1012,7 +652,7 @@ Keep response concise and focused on accuracy.`
         this.onResultsCallback(sentenceResult);
       }
     } catch (error) {
-      console.error('OpenAI sentence analysis failed:', error);
+      console.error('AI sentence analysis failed:', error);
       // Fallback to basic analysis
       this.basicSentenceAnalysis();
     }
@@ -1046,45 +686,21 @@ Keep response concise and focused on accuracy.`
     }
   }
 
-  // Enhanced accuracy validation using OpenAI
+  // Accuracy validation through the server-side AI proxy
   async validateSignAccuracy(detectedSign: string, landmarks: HandLandmark[][]): Promise<DetectionResult | null> {
-    if (!this.openai) return null;
+    if (!hasAuthToken()) return null;
 
     try {
-      const landmarkSummary = this.summarizeLandmarks(landmarks);
-
-      const completion = await this.openai.chat.completions.create({
-        model: "gpt-3.5-turbo",
-        messages: [
-          {
-            role: "system",
-            content: `You are a sign language accuracy validator. Analyze hand landmarks and detected signs for ${this.language} accuracy.`
-          },
-          {
-            role: "user",
-            content: `Validate accuracy of detected sign "${detectedSign}" with landmark summary: ${landmarkSummary}. Provide confidence score (0-1) and any corrections.`
-          }
-        ],
-        max_tokens: 100,
-        temperature: 0.2
-      });
-
-      const validation = completion.choices[0]?.message?.content;
-      if (validation) {
-        // Parse confidence from response
-        const confidenceMatch = validation.match(/confidence[:\s]+([0-9.]+)/i);
-        const confidence = confidenceMatch ? parseFloat(confidenceMatch[1]) : 0.8;
-
-        return {
-          sign: detectedSign,
-          confidence: Math.min(confidence, 1.0),
-          landmarks,
-          gestureType: 'validated',
-          handShape: 'confirmed'
-        };
-      }
+      const validation = await validateSign(detectedSign, this.summarizeLandmarks(landmarks), this.language);
+      return {
+        sign: validation.sign,
+        confidence: validation.confidence,
+        landmarks,
+        gestureType: 'validated',
+        handShape: 'confirmed'
+      };
     } catch (error) {
-      console.error('OpenAI validation failed:', error);
+      console.error('AI validation failed:', error);
     }
 
     return null;
@@ -1117,6 +733,61 @@ Keep response concise and focused on accuracy.`
   clearSentenceBuffer(): void {
     this.detectedSignsBuffer = [];
   }
+
+  // Recognise a video file or URL offline with the current language, hand and
+  // templates; runs alongside live detection without touching its state
+  recognizeVideo(source: Blob | string, options: Partial<VideoRecognitionOptions> = {}): Promise<VideoRecognitionResult> {
+    return recognizeVideo(source, {
+      signLanguage: this.getLanguageCode(),
+      dominantHand: this.dominantHand,
+      fingerspelling: this.pipeline.isFingerspelling(),
+      sensitivity: this.sensitivity,
+      referenceSigns: [...this.referenceSigns, ...this.customSigns],
+      model: this.landmarkModel,
+      ...options
+    });
+  }
+
+  // Capture the landmark stream for replay; frames are added until stopRecording
+  startRecording(name: string, expected?: string[]): void {
+    this.recorder.start({
+      name,
+      signLanguage: this.getLanguageCode(),
+      dominantHand: this.dominantHand,
+      fingerspelling: this.pipeline.isFingerspelling(),
+      expected
+    }, Date.now());
+  }
+
+  stopRecording(): LandmarkRecording | null {
+    return this.recorder.stop();
+  }
+
+  isRecordingLandmarks(): boolean {
+    return this.recorder.isRecording();
+  }
+
+  // Committed signs with timestamps, grouped into segments at pauses and hands-down
+  getTranscript(): Transcript {
+    return this.pipeline.transcript;
+  }
+
+  subscribeTranscript(listener: TranscriptListener): () => void {
+    return this.pipeline.transcript.subscribe(listener);
+  }
+
+  clearTranscript(): void {
+    this.pipeline.transcript.clear();
+    // A transcript cleared mid-session starts counting from now
+    if (this.animationFrameId !== null) {
+      this.pipeline.transcript.markStart(Date.now());
+    }
+  }
+
+  // How long a sign must be held, and how long a pause or hands-down closes a segment
+  setSegmentationOptions(options: SegmenterOptions): void {
+    this.pipeline.segmenter.setOptions(options);
+  }
 }
 
 export const signLanguageDetectionService = new SignLanguageDetectionService();
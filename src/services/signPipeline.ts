@@ -0,0 +1,156 @@
+import type { DetectionResult, HandLandmark } from './signLanguageDetection';
+import { HandClassification, HandFrameClassifier } from './handFrameClassifier';
+import { SignSegmenter, Transcript } from './signSegmenter';
+import { Fingerspeller, SpelledWord } from './fingerspelling';
+import { ConfidenceCalibrator } from './confidenceCalibration';
+import { NonManualFeatures, NonManualTracker } from './nonManualFeatures';
+import type { ClassifierDiagnostics } from './detectionDiagnostics';
+
+export interface BodyLandmarks {
+  face: HandLandmark[] | null;
+  pose: HandLandmark[] | null;
+}
+
+// Everything between per-frame landmarks and committed results: classification,
+// calibration, segmentation and fingerspelling. No DOM, MediaPipe or network
+// access, so live detection and recording replay run exactly the same code.
+export class SignPipeline {
+  readonly classifier = new HandFrameClassifier();
+  readonly calibrator = new ConfidenceCalibrator();
+  readonly transcript = new Transcript();
+  readonly segmenter = new SignSegmenter(this.transcript);
+  readonly fingerspeller = new Fingerspeller();
+  readonly nonManualTracker = new NonManualTracker();
+  private fingerspellingEnabled = false;
+  private qualityHold = false;
+
+  constructor(private onResult: (result: DetectionResult) => void) {}
+
+  // Returns the classifier's view of the frame while its diagnostics are enabled
+  processFrame(
+    landmarks: HandLandmark[][],
+    multiHandedness: HandClassification[] | undefined,
+    timestamp: number,
+    body: BodyLandmarks | null = null
+  ): ClassifierDiagnostics | null {
+    if (landmarks.length > 0) {
+      const { result, dominant, diagnostics } = this.classifier.classify(landmarks, multiHandedness, timestamp);
+      const nonManual = body
+        ? this.nonManualTracker.addFrame(body.face, body.pose, dominant?.landmarks ?? null, timestamp)
+        : undefined;
+      this.handleDetection(this.calibrate(result), nonManual, timestamp);
+      return diagnostics ?? null;
+    } else {
+      if (body) {
+        // Keep following the head so a shake that starts before the hands come up still counts
+        this.nonManualTracker.addFrame(body.face, body.pose, null, timestamp);
+      }
+      this.handleHandsDown(timestamp);
+      return null;
+    }
+  }
+
+  // Frames already classified elsewhere (the detection worker) join after classification
+  processClassified(result: DetectionResult | null, handsPresent: boolean, timestamp: number): void {
+    if (handsPresent) {
+      this.handleDetection(this.calibrate(result), undefined, timestamp);
+    } else {
+      this.handleHandsDown(timestamp);
+    }
+  }
+
+  // In fingerspelling mode letters are assembled into words before they are reported
+  setFingerspelling(enabled: boolean): void {
+    if (!enabled) {
+      this.emitSpelledWord(this.fingerspeller.closeWord('manual'));
+    }
+    this.fingerspellingEnabled = enabled;
+  }
+
+  isFingerspelling(): boolean {
+    return this.fingerspellingEnabled;
+  }
+
+  // While the camera picture is too poor to trust, frames are classified but nothing is committed
+  setQualityHold(hold: boolean): void {
+    this.qualityHold = hold;
+  }
+
+  // Commit the word being spelled and close the open segment, e.g. at the end of a recording
+  flush(): void {
+    this.emitSpelledWord(this.fingerspeller.closeWord('manual'));
+    this.segmenter.reset();
+  }
+
+  reset(): void {
+    this.classifier.reset();
+    this.segmenter.reset();
+    this.nonManualTracker.reset();
+  }
+
+  private handleDetection(detectedSign: DetectionResult | null, nonManual: NonManualFeatures | undefined, now: number): void {
+    // Only signs that stay stable long enough are committed and reported
+    const candidate = !this.qualityHold && detectedSign && detectedSign.confidence > 0.5
+      ? (nonManual ? { ...detectedSign, nonManual } : detectedSign)
+      : null;
+    const token = this.segmenter.process(candidate, now);
+
+    if (candidate && token) {
+      const committed: DetectionResult = {
+        ...candidate,
+        confidence: token.confidence,
+        startTime: token.startTime,
+        endTime: token.endTime
+      };
+
+      if (this.fingerspellingEnabled && Fingerspeller.isLetter(token.sign)) {
+        // Letters are held back until the whole word is spelled
+        this.emitSpelledWord(this.fingerspeller.addLetter(token.sign, token.confidence, now));
+      } else {
+        // Any other sign ends the word being spelled
+        this.emitSpelledWord(this.fingerspeller.closeWord('sign'));
+        this.transcript.addToken(token);
+        this.onResult(committed);
+      }
+    } else if (this.fingerspellingEnabled) {
+      this.emitSpelledWord(this.fingerspeller.tick(now));
+    }
+  }
+
+  // Hands left the frame, so any motion in progress is over
+  private handleHandsDown(now: number): void {
+    this.classifier.reset();
+    this.segmenter.handsDown(now);
+    if (this.fingerspellingEnabled) {
+      this.emitSpelledWord(this.fingerspeller.handsDown(now));
+    }
+  }
+
+  private calibrate(result: DetectionResult | null): DetectionResult | null {
+    if (!result) return null;
+    return {
+      ...result,
+      rawConfidence: result.confidence,
+      confidence: this.calibrator.calibrate(result.sign, result.confidence)
+    };
+  }
+
+  private emitSpelledWord(word: SpelledWord | null): void {
+    if (!word) return;
+    this.transcript.addToken({
+      sign: word.word,
+      confidence: word.confidence,
+      startTime: word.startTime,
+      endTime: word.endTime,
+      gestureType: 'fingerspelled'
+    });
+    this.onResult({
+      sign: word.word,
+      confidence: word.confidence,
+      gestureType: 'fingerspelled',
+      handShape: word.corrected ? `spelled:${word.raw}` : 'spelled',
+      startTime: word.startTime,
+      endTime: word.endTime
+    });
+  }
+}
@@ -0,0 +1,287 @@
+import type { DetectionResult } from './signLanguageDetection';
+import type { NonManualFeatures } from './nonManualFeatures';
+
+export interface TranscriptToken {
+  sign: string;
+  confidence: number;
+  startTime: number;
+  endTime: number;
+  gestureType?: DetectionResult['gestureType'];
+  nonManual?: NonManualFeatures; // Facial grammar and location while the sign was held
+}
+
+export interface TranscriptSegment {
+  id: number;
+  tokens: TranscriptToken[];
+  startTime: number;
+  endTime: number;
+  closed: boolean;
+  boundary?: 'pause' | 'hands_down' | 'manual';
+}
+
+export type TranscriptEvent =
+  | { type: 'token'; token: TranscriptToken; segment: TranscriptSegment }
+  | { type: 'boundary'; segment: TranscriptSegment }
+  | { type: 'clear' };
+
+export type TranscriptListener = (event: TranscriptEvent) => void;
+
+export interface SegmenterOptions {
+  minStableFrames?: number; // Consecutive frames a sign must hold before it is committed
+  minStableMs?: number; // ...and for at least this long
+  pauseMs?: number; // No new sign for this long closes the current segment
+  handsDownMs?: number; // Hands out of frame for this long closes the current segment
+  repeatDipFrames?: number; // Frames without the held sign (or well below its peak confidence) that end its hold
+  repeatDip?: number; // Confidence drop below the hold's peak that counts as such a frame
+  repeatMovement?: number; // Hand travel, in palm lengths, that ends a hold of the same sign
+}
+
+type HandPosition = { x: number; y: number; palm: number };
+
+// Wrist position and palm length of the first hand, when the result carries landmarks
+const handPosition = (result: DetectionResult): HandPosition | null => {
+  const hand = result.landmarks?.[0];
+  if (!hand || hand.length < 10) return null;
+  const palm = Math.hypot(hand[9].x - hand[0].x, hand[9].y - hand[0].y);
+  return palm > 1e-6 ? { x: hand[0].x, y: hand[0].y, palm } : null;
+};
+
+// Committed signs grouped into segments separated by pauses or hands-down
+export class Transcript {
+  private segments: TranscriptSegment[] = [];
+  private listeners = new Set<TranscriptListener>();
+  private nextId = 1;
+  private startedAt: number | null = null;
+
+  subscribe(listener: TranscriptListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  addToken(token: TranscriptToken): void {
+    let segment = this.getOpenSegment();
+    if (!segment) {
+      segment = { id: this.nextId++, tokens: [], startTime: token.startTime, endTime: token.endTime, closed: false };
+      this.segments.push(segment);
+    }
+    segment.tokens.push(token);
+    segment.endTime = token.endTime;
+    this.emit({ type: 'token', token, segment });
+  }
+
+  closeSegment(boundary: TranscriptSegment['boundary']): TranscriptSegment | null {
+    const segment = this.getOpenSegment();
+    if (!segment) return null;
+    segment.closed = true;
+    segment.boundary = boundary;
+    this.emit({ type: 'boundary', segment });
+    return segment;
+  }
+
+  // When detection started for this transcript; exported caption times count from here
+  markStart(timestamp: number): void {
+    if (this.startedAt === null) this.startedAt = timestamp;
+  }
+
+  getStartTime(): number | null {
+    return this.startedAt ?? this.segments[0]?.startTime ?? null;
+  }
+
+  getOpenSegment(): TranscriptSegment | null {
+    const last = this.segments[this.segments.length - 1];
+    return last && !last.closed ? last : null;
+  }
+
+  getSegments(): TranscriptSegment[] {
+    return this.segments.map(segment => ({ ...segment, tokens: [...segment.tokens] }));
+  }
+
+  getTokens(): TranscriptToken[] {
+    return this.segments.flatMap(segment => segment.tokens);
+  }
+
+  getText(): string {
+    return this.segments.map(segment => segment.tokens.map(token => token.sign).join(' ')).join('\n');
+  }
+
+  clear(): void {
+    this.segments = [];
+    this.startedAt = null;
+    this.emit({ type: 'clear' });
+  }
+
+  private emit(event: TranscriptEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Transcript listener failed:', error);
+      }
+    });
+  }
+}
+
+// Turns the per-frame detection stream into committed tokens: a sign must be
+// stable for a number of frames and milliseconds, and is committed once per hold.
+// A hold ends with a short dip in confidence or a move of the hand, so the same
+// sign can follow itself (double letters: B-O-O-K). The caller adds committed
+// tokens to the transcript; the segmenter closes transcript segments at pauses
+// and hands-down.
+export class SignSegmenter {
+  private options: Required<SegmenterOptions>;
+  private candidate: {
+    sign: string;
+    firstSeen: number;
+    frames: number;
+    confidence: number;
+    gestureType?: DetectionResult['gestureType'];
+    nonManual?: NonManualFeatures;
+  } | null = null;
+  private committedSign: string | null = null;
+  private held: { sign: string; peak: number; dipFrames: number; anchor: HandPosition | null } | null = null;
+  private lastCommitTime = 0;
+  private handsDownSince: number | null = null;
+
+  constructor(private transcript: Transcript, options: SegmenterOptions = {}) {
+    this.options = {
+      minStableFrames: 5,
+      minStableMs: 300,
+      pauseMs: 1500,
+      handsDownMs: 500,
+      repeatDipFrames: 3,
+      repeatDip: 0.15,
+      repeatMovement: 0.5,
+      ...options
+    };
+  }
+
+  setOptions(options: SegmenterOptions): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  getOptions(): Required<SegmenterOptions> {
+    return { ...this.options };
+  }
+
+  // Feed one frame's best detection (or null when nothing was recognised).
+  // Returns the token when this frame committed one.
+  process(result: DetectionResult | null, timestamp: number): TranscriptToken | null {
+    this.handsDownSince = null;
+    this.checkPause(timestamp);
+    this.trackHold(result);
+
+    if (!result) {
+      this.candidate = null;
+      return null;
+    }
+
+    // Dynamic signs are already segmented by the sequence recognizer
+    if (result.gestureType === 'dynamic') {
+      this.candidate = null;
+      return this.commit({
+        sign: result.sign,
+        confidence: result.confidence,
+        startTime: result.startTime ?? timestamp,
+        endTime: result.endTime ?? timestamp,
+        gestureType: result.gestureType,
+        nonManual: result.nonManual
+      }, null);
+    }
+
+    if (!this.candidate || this.candidate.sign !== result.sign) {
+      this.candidate = {
+        sign: result.sign,
+        firstSeen: timestamp,
+        frames: 1,
+        confidence: result.confidence,
+        gestureType: result.gestureType,
+        nonManual: result.nonManual
+      };
+      return null;
+    }
+
+    this.candidate.frames++;
+    this.candidate.confidence = Math.max(this.candidate.confidence, result.confidence);
+    this.candidate.nonManual = result.nonManual ?? this.candidate.nonManual;
+
+    const stable = this.candidate.frames >= this.options.minStableFrames &&
+      timestamp - this.candidate.firstSeen >= this.options.minStableMs;
+
+    // Holding the same sign only commits it once
+    if (!stable || this.committedSign === this.candidate.sign) return null;
+
+    return this.commit({
+      sign: this.candidate.sign,
+      confidence: this.candidate.confidence,
+      startTime: this.candidate.firstSeen,
+      endTime: timestamp,
+      gestureType: this.candidate.gestureType,
+      nonManual: this.candidate.nonManual
+    }, handPosition(result));
+  }
+
+  // Call on frames without any hands
+  handsDown(timestamp: number): void {
+    this.candidate = null;
+    if (this.handsDownSince === null) {
+      this.handsDownSince = timestamp;
+      return;
+    }
+    if (timestamp - this.handsDownSince >= this.options.handsDownMs) {
+      this.endHold();
+      this.transcript.closeSegment('hands_down');
+    }
+  }
+
+  reset(): void {
+    this.candidate = null;
+    this.endHold();
+    this.handsDownSince = null;
+    this.transcript.closeSegment('manual');
+  }
+
+  private checkPause(timestamp: number): void {
+    if (this.lastCommitTime && timestamp - this.lastCommitTime >= this.options.pauseMs && this.transcript.getOpenSegment()) {
+      this.endHold();
+      this.transcript.closeSegment('pause');
+    }
+  }
+
+  // Once the committed sign has dipped for repeatDipFrames and come back, or the
+  // hand has moved while holding it, the sign must stabilise again and can be re-committed
+  private trackHold(result: DetectionResult | null): void {
+    const held = this.held;
+    if (!held) return;
+
+    const holding = !!result && result.sign === held.sign && result.gestureType !== 'dynamic';
+    if (!holding || result.confidence < held.peak - this.options.repeatDip) {
+      held.dipFrames++;
+      return;
+    }
+
+    const position = handPosition(result);
+    const moved = !!position && !!held.anchor &&
+      Math.hypot(position.x - held.anchor.x, position.y - held.anchor.y) / position.palm >= this.options.repeatMovement;
+    if (held.dipFrames >= this.options.repeatDipFrames || moved) {
+      this.endHold();
+      this.candidate = null;
+      return;
+    }
+    held.dipFrames = 0;
+    held.peak = Math.max(held.peak, result.confidence);
+  }
+
+  private endHold(): void {
+    this.committedSign = null;
+    this.held = null;
+  }
+
+  private commit(token: TranscriptToken, anchor: HandPosition | null): TranscriptToken {
+    this.committedSign = token.sign;
+    this.held = { sign: token.sign, peak: token.confidence, dipFrames: 0, anchor };
+    this.lastCommitTime = token.endTime;
+    return token;
+  }
+}
@@ -0,0 +1,135 @@
+import type { HandLandmark } from './signLanguageDetection';
+import { normalizeLandmarks } from './landmarkClassifier';
+import { recognizerRegistry, SignLanguageCode } from './recognizers';
+import type { IHandCalibration } from '../lib/mongo';
+
+export const HAND_CALIBRATION_VERSION = 1;
+
+export interface CalibrationPose {
+  id: string;
+  sign: string; // English gloss, reported through the recognizer's translations
+  instruction: string;
+  extended: boolean[]; // Index to pinky
+}
+
+// Reference handshapes the wizard asks for. Together they show every finger
+// both extended and curled, which is what the finger boundaries are fitted from.
+export const CALIBRATION_POSES: CalibrationPose[] = [
+  { id: 'open', sign: 'Open Hand', instruction: 'Hold your hand up, palm to the camera, fingers spread', extended: [true, true, true, true] },
+  { id: 'fist', sign: 'Fist', instruction: 'Close your hand into a fist, thumb across the front', extended: [false, false, false, false] },
+  { id: 'point', sign: 'Point', instruction: 'Point your index finger straight up, other fingers closed', extended: [true, false, false, false] },
+  { id: 'peace', sign: 'Peace', instruction: 'Raise your index and middle fingers in a V', extended: [true, true, false, false] },
+  { id: 'love', sign: 'I Love You', instruction: 'Raise your thumb, index and little finger', extended: [true, false, false, true] }
+];
+
+export interface CalibrationCapture {
+  pose: CalibrationPose;
+  hands: HandLandmark[][]; // Frames of the signer's hand held in the pose
+}
+
+export const MIN_CAPTURE_FRAMES = 10;
+
+// Anything beyond these is more likely a bad capture than a real signer difference
+const MAX_ROLL = Math.PI / 4;
+const MAX_FINGER_BIAS = 0.3;
+
+// Finger joints as [tip, dip, pip], index first
+const FINGER_JOINTS: [number, number, number][] = [[8, 7, 6], [12, 11, 10], [16, 15, 14], [20, 19, 18]];
+
+const palmLength = (hand: HandLandmark[]): number =>
+  Math.hypot(hand[9].x - hand[0].x, hand[9].y - hand[0].y) || 1;
+
+// Lean of the palm axis (wrist -> middle MCP) from upright, positive towards image right
+const handRoll = (hand: HandLandmark[]): number =>
+  Math.atan2(hand[9].x - hand[0].x, hand[0].y - hand[9].y);
+
+const rotateAboutWrist = (hand: HandLandmark[], angle: number): HandLandmark[] => {
+  const wrist = hand[0];
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return hand.map(point => {
+    const x = point.x - wrist.x;
+    const y = point.y - wrist.y;
+    return { ...point, x: wrist.x + x * cos - y * sin, y: wrist.y + x * sin + y * cos };
+  });
+};
+
+// Tip below PIP is positive; the rule-based recognizers treat zero as the boundary
+const fingerGap = (hand: HandLandmark[], finger: number): number => {
+  const [tip, , pip] = FINGER_JOINTS[finger];
+  return (hand[tip].y - hand[pip].y) / palmLength(hand);
+};
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const clamp = (value: number, limit: number): number => Math.max(-limit, Math.min(limit, value));
+
+// Fit a signer's calibration from the captured poses. Throws when a pose has too
+// few frames to fit from.
+export const fitHandCalibration = (captures: CalibrationCapture[], signLanguage: SignLanguageCode): IHandCalibration => {
+  const usable = captures.map(capture => ({ ...capture, hands: capture.hands.filter(hand => hand.length >= 21) }));
+  const short = usable.find(capture => capture.hands.length < MIN_CAPTURE_FRAMES);
+  if (usable.length === 0 || short) {
+    throw new Error(`Not enough frames captured for ${short ? short.pose.sign : 'calibration'}`);
+  }
+
+  // Circular mean of the lean across every captured frame
+  const rolls = usable.flatMap(capture => capture.hands.map(handRoll));
+  const roll = clamp(Math.atan2(mean(rolls.map(Math.sin)), mean(rolls.map(Math.cos))), MAX_ROLL);
+  const upright = usable.map(capture => ({ ...capture, hands: capture.hands.map(hand => rotateAboutWrist(hand, -roll)) }));
+
+  // Each finger's boundary sits halfway between how it looks extended and curled
+  const fingerBias = FINGER_JOINTS.map((_, finger) => {
+    const gaps = (extended: boolean) => upright
+      .filter(capture => capture.pose.extended[finger] === extended)
+      .flatMap(capture => capture.hands.map(hand => fingerGap(hand, finger)));
+    const extendedGaps = gaps(true);
+    const curledGaps = gaps(false);
+    if (extendedGaps.length === 0 || curledGaps.length === 0) return 0;
+    return clamp((mean(extendedGaps) + mean(curledGaps)) / 2, MAX_FINGER_BIAS);
+  });
+
+  const recognizer = recognizerRegistry.get(signLanguage);
+  const templates = usable.flatMap(capture => {
+    const features = capture.hands.map(normalizeLandmarks).filter((value): value is number[] => value !== null);
+    if (features.length === 0) return [];
+    return [{
+      sign: recognizer.translate(capture.pose.sign),
+      features: features[0].map((_, i) => mean(features.map(vector => vector[i])))
+    }];
+  });
+
+  return {
+    version: HAND_CALIBRATION_VERSION,
+    sign_language: signLanguage,
+    roll,
+    finger_bias: fingerBias,
+    templates,
+    sample_count: usable.reduce((sum, capture) => sum + capture.hands.length, 0),
+    calibrated_at: new Date().toISOString()
+  };
+};
+
+// Undo the signer's lean and move each fingertip so the signer's own
+// extended/curled boundary lands where the recognizers expect it. Camera tilt
+// affects both hands alike, so the same correction is used for either hand.
+export const applyHandCalibration = (hand: HandLandmark[], calibration: IHandCalibration): HandLandmark[] => {
+  if (hand.length < 21) return hand;
+
+  const adjusted = calibration.roll ? rotateAboutWrist(hand, -calibration.roll) : hand.map(point => ({ ...point }));
+  const palm = palmLength(adjusted);
+  FINGER_JOINTS.forEach(([tip, dip], finger) => {
+    const shift = (calibration.finger_bias[finger] ?? 0) * palm;
+    adjusted[tip] = { ...adjusted[tip], y: adjusted[tip].y - shift };
+    adjusted[dip] = { ...adjusted[dip], y: adjusted[dip].y - shift };
+  });
+  return adjusted;
+};
+
+// Older or hand-edited profiles are ignored rather than half-applied
+export const isUsableCalibration = (calibration: IHandCalibration | null | undefined): calibration is IHandCalibration =>
+  !!calibration &&
+  calibration.version === HAND_CALIBRATION_VERSION &&
+  typeof calibration.roll === 'number' &&
+  Array.isArray(calibration.finger_bias) &&
+  Array.isArray(calibration.templates);
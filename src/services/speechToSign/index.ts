@@ -0,0 +1,24 @@
+import type { SignLanguageCode } from '../recognizers/types';
+import { WebSpeechRecognitionAdapter } from './webSpeech';
+import type { SpeechRecognitionAdapter } from './types';
+
+export { SignPlanner, glossForPlan } from './signPlanner';
+export type { SignPlannerOptions } from './signPlanner';
+export { WebSpeechRecognitionAdapter } from './webSpeech';
+export { MockSpeechRecognitionAdapter } from './mockSpeech';
+export type {
+  FingerspelledLetter,
+  SignPlaybackItem,
+  SpeechRecognitionAdapter,
+  SpeechRecognitionHandlers,
+  SpeechResult
+} from './types';
+
+// Spoken English heard alongside each sign language
+export const SPEECH_LANGUAGES: Record<SignLanguageCode, string> = { ASL: 'en-US', BSL: 'en-GB', KSL: 'en-KE' };
+
+// The browser's own recognition where available; null when there is none
+export const createSpeechRecognitionAdapter = (): SpeechRecognitionAdapter | null => {
+  const adapter = new WebSpeechRecognitionAdapter();
+  return adapter.isSupported() ? adapter : null;
+};
@@ -0,0 +1,43 @@
+import type { SpeechRecognitionAdapter, SpeechRecognitionHandlers } from './types';
+
+// Scripted speech for tests and demos: call say() to deliver what "was heard"
+export class MockSpeechRecognitionAdapter implements SpeechRecognitionAdapter {
+  readonly name = 'Mock';
+  private handlers: SpeechRecognitionHandlers | null = null;
+  language: string | null = null;
+
+  isSupported(): boolean {
+    return true;
+  }
+
+  start(language: string, handlers: SpeechRecognitionHandlers): void {
+    this.language = language;
+    this.handlers = handlers;
+  }
+
+  stop(): void {
+    const handlers = this.handlers;
+    this.handlers = null;
+    handlers?.onEnd?.();
+  }
+
+  isListening(): boolean {
+    return this.handlers !== null;
+  }
+
+  // Delivers interim results word by word, then the final transcript
+  say(text: string, { interim = false, confidence = 1 }: { interim?: boolean; confidence?: number } = {}): void {
+    if (!this.handlers) return;
+    if (interim) {
+      const words = text.split(/\s+/);
+      words.slice(0, -1).forEach((_, i) => {
+        this.handlers?.onResult({ text: words.slice(0, i + 1).join(' '), isFinal: false, timestamp: Date.now() });
+      });
+    }
+    this.handlers.onResult({ text, isFinal: true, confidence, timestamp: Date.now() });
+  }
+
+  fail(message: string): void {
+    this.handlers?.onError?.(message);
+  }
+}
@@ -0,0 +1,117 @@
+import { recognizerRegistry } from '../recognizers';
+import type { SignLanguageCode } from '../recognizers/types';
+import { toGloss } from '../translation/lexicon';
+import { hasSignAnimation } from '../signAvatar';
+import type { ISign } from '../../lib/mongo';
+import type { FingerspelledLetter, SignPlaybackItem } from './types';
+
+export interface SignPlannerOptions {
+  isPlayable?: (sign: ISign) => boolean; // Signs that can be shown; defaults to those with a clip or a landmark track
+}
+
+const isApproved = (sign: ISign): boolean =>
+  sign.is_active !== false && (!sign.status || sign.status === 'approved') && !sign.is_personal;
+
+const canPerform = (sign: ISign): boolean => !!sign.video_url || hasSignAnimation(sign);
+
+// Spoken words in order, with numbers and apostrophes kept ("don't", "3")
+const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}'\s-]/gu, ' ')
+    .split(/[\s-]+/)
+    .map(word => word.replace(/^'+|'+$/g, ''))
+    .filter(Boolean);
+
+// Gloss line for a plan, with fingerspelled words marked the usual way: 'HELLO fs-MIA'
+export const glossForPlan = (items: SignPlaybackItem[]): string =>
+  items
+    .map(item => (item.kind === 'sign' ? toGloss(item.sign.name) : `fs-${item.words.toUpperCase()}`))
+    .join(' ');
+
+// Maps recognised speech onto approved signs of one sign language. Phrases are
+// matched longest first ("thank you" before "thank"), through the same glosses
+// the translator uses, so "hi" finds HELLO and "my" finds ME. Words with no
+// playable sign are fingerspelled.
+export class SignPlanner {
+  private signsByGloss = new Map<string, ISign>();
+  private letters = new Map<string, ISign>();
+  private maxPhraseWords = 1;
+
+  constructor(signs: ISign[], private language: SignLanguageCode, options: SignPlannerOptions = {}) {
+    const isPlayable = options.isPlayable ?? canPerform;
+    // English glosses of local vocabulary, e.g. KSL 'Asante' is also THANK-YOU
+    const englishFor = new Map<string, string>();
+    Object.entries(recognizerRegistry.get(language).translations).forEach(([english, local]) => {
+      englishFor.set(local.trim().toLowerCase(), english);
+    });
+
+    signs
+      .filter(sign => sign.language === language && isApproved(sign) && isPlayable(sign))
+      .forEach(sign => {
+        const name = sign.name.trim();
+        if (/^[a-z]$/i.test(name)) {
+          if (!this.letters.has(name.toUpperCase())) this.letters.set(name.toUpperCase(), sign);
+          return;
+        }
+        const english = englishFor.get(name.toLowerCase());
+        [name, english].filter((value): value is string => !!value).forEach(value => {
+          const gloss = toGloss(value);
+          if (!gloss || this.signsByGloss.has(gloss)) return;
+          this.signsByGloss.set(gloss, sign);
+          this.maxPhraseWords = Math.max(this.maxPhraseWords, gloss.split('-').length);
+        });
+      });
+  }
+
+  getLanguage(): SignLanguageCode {
+    return this.language;
+  }
+
+  // Signs available for playback, excluding alphabet letters
+  getVocabularySize(): number {
+    return new Set(this.signsByGloss.values()).size;
+  }
+
+  plan(text: string): SignPlaybackItem[] {
+    const words = tokenize(text);
+    const items: SignPlaybackItem[] = [];
+
+    for (let i = 0; i < words.length;) {
+      const match = this.matchPhrase(words, i);
+      if (match) {
+        items.push({ kind: 'sign', words: words.slice(i, i + match.length).join(' '), sign: match.sign });
+        i += match.length;
+      } else {
+        items.push({ kind: 'fingerspell', words: words[i], letters: this.spell(words[i]) });
+        i++;
+      }
+    }
+    return items;
+  }
+
+  private matchPhrase(words: string[], start: number): { sign: ISign; length: number } | null {
+    for (let length = Math.min(this.maxPhraseWords, words.length - start); length >= 1; length--) {
+      const phrase = words.slice(start, start + length).join(' ');
+      const sign = this.lookup(phrase) ?? (length === 1 ? this.lookupSingular(phrase) : null);
+      if (sign) return { sign, length };
+    }
+    return null;
+  }
+
+  private lookup(phrase: string): ISign | null {
+    return this.signsByGloss.get(toGloss(phrase)) ?? null;
+  }
+
+  // Plain plurals use the singular sign: "friends" -> FRIEND
+  private lookupSingular(word: string): ISign | null {
+    if (word.length < 4 || !word.endsWith('s') || word.endsWith('ss')) return null;
+    return this.lookup(word.slice(0, -1));
+  }
+
+  private spell(word: string): FingerspelledLetter[] {
+    return Array.from(word.toUpperCase())
+      .filter(letter => /[\p{L}\p{N}]/u.test(letter))
+      .map(letter => ({ letter, sign: this.letters.get(letter) ?? this.signsByGloss.get(letter) ?? null }));
+  }
+}
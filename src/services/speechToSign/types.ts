@@ -0,0 +1,34 @@
+import type { ISign } from '../../lib/mongo';
+
+export interface SpeechResult {
+  text: string;
+  isFinal: boolean; // Interim results are replaced by later ones for the same utterance
+  confidence?: number;
+  timestamp: number;
+}
+
+export interface SpeechRecognitionHandlers {
+  onResult: (result: SpeechResult) => void;
+  onError?: (message: string) => void;
+  onEnd?: () => void; // Listening stopped, whether asked to or not
+}
+
+// Speech-to-text source for the reverse (speech -> sign) path. The Web Speech
+// adapter is used in browsers; tests and demos drive the mock instead.
+export interface SpeechRecognitionAdapter {
+  readonly name: string;
+  isSupported(): boolean;
+  start(language: string, handlers: SpeechRecognitionHandlers): void; // BCP 47 tag, e.g. 'en-KE'
+  stop(): void;
+  isListening(): boolean;
+}
+
+export interface FingerspelledLetter {
+  letter: string;
+  sign: ISign | null; // Letter sign with a clip, or null to show the letter on its own
+}
+
+// One step of sign playback for a spoken phrase
+export type SignPlaybackItem =
+  | { kind: 'sign'; words: string; sign: ISign }
+  | { kind: 'fingerspell'; words: string; letters: FingerspelledLetter[] };
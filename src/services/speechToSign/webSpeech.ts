@@ -0,0 +1,97 @@
+import type { SpeechRecognitionAdapter, SpeechRecognitionHandlers } from './types';
+
+// lib.dom only declares the result types, not the recognizer itself
+interface BrowserSpeechRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: { resultIndex: number; results: SpeechRecognitionResultList }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+}
+
+type BrowserSpeechRecognitionConstructor = new () => BrowserSpeechRecognition;
+
+const getRecognitionConstructor = (): BrowserSpeechRecognitionConstructor | null => {
+  if (typeof window === 'undefined') return null;
+  const global = window as unknown as {
+    SpeechRecognition?: BrowserSpeechRecognitionConstructor;
+    webkitSpeechRecognition?: BrowserSpeechRecognitionConstructor;
+  };
+  return global.SpeechRecognition ?? global.webkitSpeechRecognition ?? null;
+};
+
+// Web Speech API recognition. Browsers end a session after a silence, so it is
+// restarted until stop() is called.
+export class WebSpeechRecognitionAdapter implements SpeechRecognitionAdapter {
+  readonly name = 'Web Speech API';
+  private recognition: BrowserSpeechRecognition | null = null;
+  private listening = false;
+
+  isSupported(): boolean {
+    return getRecognitionConstructor() !== null;
+  }
+
+  start(language: string, handlers: SpeechRecognitionHandlers): void {
+    const Recognition = getRecognitionConstructor();
+    if (!Recognition) {
+      handlers.onError?.('Speech recognition is not supported in this browser');
+      return;
+    }
+    this.stop();
+
+    const recognition = new Recognition();
+    recognition.lang = language;
+    recognition.continuous = true;
+    recognition.interimResults = true;
+
+    recognition.onresult = event => {
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        handlers.onResult({
+          text: result[0].transcript.trim(),
+          isFinal: result.isFinal,
+          confidence: result[0].confidence || undefined,
+          timestamp: Date.now()
+        });
+      }
+    };
+    recognition.onerror = event => {
+      // 'no-speech' and 'aborted' just end the session; the restart below handles them
+      if (event.error === 'no-speech' || event.error === 'aborted') return;
+      if (event.error === 'not-allowed' || event.error === 'service-not-allowed') this.listening = false;
+      handlers.onError?.(event.error === 'not-allowed' ? 'Microphone access was denied' : `Speech recognition error: ${event.error}`);
+    };
+    recognition.onend = () => {
+      // A session replaced by a newer start() ends quietly
+      if (this.recognition !== null && this.recognition !== recognition) return;
+      if (this.listening && this.recognition === recognition) {
+        try {
+          recognition.start();
+          return;
+        } catch (error) {
+          console.warn('Failed to restart speech recognition:', error);
+        }
+      }
+      this.listening = false;
+      handlers.onEnd?.();
+    };
+
+    this.recognition = recognition;
+    this.listening = true;
+    recognition.start();
+  }
+
+  stop(): void {
+    const recognition = this.recognition;
+    this.listening = false;
+    this.recognition = null;
+    recognition?.stop();
+  }
+
+  isListening(): boolean {
+    return this.listening;
+  }
+}
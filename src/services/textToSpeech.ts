@@ -1,110 +1,106 @@
+import { createDefaultTTSEngines, primaryLanguage } from './tts';
+import type { SpeechSegment, TTSCapabilities, TTSEngine, TTSOptions, TTSVoice } from './tts';
 
-export interface TTSOptions {
-  rate?: number;
-  pitch?: number;
-  volume?: number;
-  voice?: string;
-  lang?: string;
-}
+export type { SpeechSegment, TTSOptions } from './tts';
 
+// Speaks text through whichever engine has a voice for its language
 class TextToSpeechService {
-  private synthesis: SpeechSynthesis;
-  private voices: SpeechSynthesisVoice[] = [];
-  private isSupported: boolean;
-
-  constructor() {
-    this.synthesis = window.speechSynthesis;
-    this.isSupported = 'speechSynthesis' in window;
-    this.loadVoices();
+  private engines: TTSEngine[];
+  private current: TTSEngine | null = null;
+  private generation = 0; // Bumped by stop() so queued segments are dropped
+
+  constructor(engines: TTSEngine[] = createDefaultTTSEngines()) {
+    this.engines = engines;
   }
 
-  private loadVoices(): void {
-    if (!this.isSupported) return;
+  // Engines in order of preference
+  setEngines(engines: TTSEngine[]): void {
+    this.stop();
+    this.engines = engines;
+  }
 
-    const updateVoices = () => {
-      this.voices = this.synthesis.getVoices();
-    };
+  registerEngine(engine: TTSEngine, preferred = false): void {
+    const others = this.engines.filter(item => item.name !== engine.name);
+    this.engines = preferred ? [engine, ...others] : [...others, engine];
+  }
 
-    updateVoices();
-    
-    if (this.synthesis.onvoiceschanged !== undefined) {
-      this.synthesis.onvoiceschanged = updateVoices;
-    }
+  getEngines(): TTSEngine[] {
+    return this.engines;
   }
 
-  getAvailableVoices(): SpeechSynthesisVoice[] {
-    return this.voices;
+  getCapabilities(): Record<string, TTSCapabilities> {
+    return Object.fromEntries(
+      this.engines.filter(engine => engine.isSupported()).map(engine => [engine.name, engine.getCapabilities()])
+    );
   }
 
-  speak(text: string, options: TTSOptions = {}): Promise<void> {
-    return new Promise((resolve, reject) => {
-      if (!this.isSupported) {
-        reject(new Error('Text-to-speech is not supported in this browser'));
-        return;
-      }
+  // First engine with a voice for the language, else the first usable engine
+  getEngineFor(lang: string): TTSEngine | null {
+    const supported = this.engines.filter(engine => engine.isSupported());
+    return supported.find(engine => engine.supportsLanguage(lang)) ?? supported[0] ?? null;
+  }
 
-      if (!text.trim()) {
-        resolve();
-        return;
-      }
+  getAvailableVoices(lang?: string): TTSVoice[] {
+    const voices = this.engines.filter(engine => engine.isSupported()).flatMap(engine => engine.getVoices());
+    if (!lang) return voices;
+    return voices.filter(voice => primaryLanguage(voice.lang) === primaryLanguage(lang));
+  }
 
-      // Cancel any ongoing speech
-      this.synthesis.cancel();
-
-      const utterance = new SpeechSynthesisUtterance(text);
-      
-      // Set options
-      utterance.rate = options.rate ?? 0.9;
-      utterance.pitch = options.pitch ?? 1.0;
-      utterance.volume = options.volume ?? 1.0;
-      utterance.lang = options.lang ?? 'en-US';
-
-      // Set voice if specified
-      if (options.voice) {
-        const selectedVoice = this.voices.find(voice => 
-          voice.name === options.voice || voice.lang === options.voice
-        );
-        if (selectedVoice) {
-          utterance.voice = selectedVoice;
-        }
-      } else {
-        // Use default English voice
-        const englishVoice = this.voices.find(voice => 
-          voice.lang.startsWith('en') && voice.default
-        ) || this.voices.find(voice => voice.lang.startsWith('en'));
-        
-        if (englishVoice) {
-          utterance.voice = englishVoice;
-        }
-      }
+  speak(text: string, options: TTSOptions = {}): Promise<void> {
+    return this.speakSegments([{ text, lang: options.lang ?? 'en-US' }], options);
+  }
 
-      utterance.onend = () => resolve();
-      utterance.onerror = (event) => reject(new Error(`Speech synthesis error: ${event.error}`));
+  // Speaks segments in order, each with a voice for its own language
+  async speakSegments(segments: SpeechSegment[], options: TTSOptions = {}): Promise<void> {
+    this.stop();
+    const generation = this.generation;
 
-      this.synthesis.speak(utterance);
-    });
+    for (const segment of segments) {
+      if (generation !== this.generation) return;
+      if (!segment.text.trim()) continue;
+      await this.speakSegment(segment, options, generation);
+    }
   }
 
   stop(): void {
-    if (this.isSupported) {
-      this.synthesis.cancel();
-    }
+    this.generation++;
+    this.current?.stop();
+    this.current = null;
   }
 
   pause(): void {
-    if (this.isSupported) {
-      this.synthesis.pause();
-    }
+    this.current?.pause();
   }
 
   resume(): void {
-    if (this.isSupported) {
-      this.synthesis.resume();
-    }
+    this.current?.resume();
   }
 
   isSpeaking(): boolean {
-    return this.isSupported ? this.synthesis.speaking : false;
+    return this.current?.isSpeaking() ?? false;
+  }
+
+  // Falls through to the next engine with a voice for the language when one fails
+  private async speakSegment(segment: SpeechSegment, options: TTSOptions, generation: number): Promise<void> {
+    const preferred = this.getEngineFor(segment.lang);
+    if (!preferred) throw new Error('Text-to-speech is not supported in this browser');
+
+    const fallbacks = this.engines.filter(engine =>
+      engine !== preferred && engine.isSupported() && engine.supportsLanguage(segment.lang)
+    );
+    let lastError: unknown = null;
+    for (const engine of [preferred, ...fallbacks]) {
+      if (generation !== this.generation) return;
+      this.current = engine;
+      try {
+        await engine.speak(segment.text, { ...options, lang: segment.lang });
+        return;
+      } catch (error) {
+        lastError = error;
+        console.warn(`Speech engine "${engine.name}" failed:`, error);
+      }
+    }
+    throw lastError;
   }
 }
 
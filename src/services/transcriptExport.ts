@@ -0,0 +1,233 @@
+import type { TranscriptSegment } from './signSegmenter';
+import type { TranslationResult } from './translation';
+
+export type TranscriptExportFormat = 'srt' | 'vtt' | 'txt' | 'json' | 'pdf';
+
+// One caption: a transcript segment with its translation when there is one
+export interface TranscriptCue {
+  index: number; // 1-based, as in SRT
+  startMs: number; // From the start of the recording
+  endMs: number;
+  gloss: string;
+  text: string; // Translation, or the recognised signs while it is pending
+  confidence: number | null;
+}
+
+export interface TranscriptExportMeta {
+  title: string;
+  signLanguage: string;
+  startedAt: number | null; // Epoch ms of the recording start
+}
+
+export const TRANSCRIPT_FORMATS: { format: TranscriptExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'srt', label: 'SRT captions', extension: 'srt', mimeType: 'application/x-subrip' },
+  { format: 'vtt', label: 'WebVTT captions', extension: 'vtt', mimeType: 'text/vtt' },
+  { format: 'txt', label: 'Plain text', extension: 'txt', mimeType: 'text/plain' },
+  { format: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { format: 'pdf', label: 'PDF document', extension: 'pdf', mimeType: 'application/pdf' }
+];
+
+// Short signs would flash past as captions; keep each on screen at least this long
+const MIN_CUE_MS = 1200;
+
+// Captions from the transcript, timed from `origin` (the recording start).
+// Cues are stretched to MIN_CUE_MS but never overlap the next one.
+export const buildTranscriptCues = (
+  segments: TranscriptSegment[],
+  translations: TranslationResult[],
+  origin: number | null
+): TranscriptCue[] => {
+  const bySegment = new Map(
+    translations.filter(result => result.segmentId !== undefined).map(result => [result.segmentId, result])
+  );
+  const spoken = segments.filter(segment => segment.tokens.length > 0);
+  const start = origin ?? spoken[0]?.startTime ?? 0;
+
+  return spoken.map((segment, i) => {
+    const translation = bySegment.get(segment.id);
+    const gloss = translation?.gloss ?? segment.tokens.map(token => token.sign).join(' ');
+    const startMs = Math.max(0, Math.round(segment.startTime - start));
+    let endMs = Math.max(Math.round(segment.endTime - start), startMs + MIN_CUE_MS);
+    const next = spoken[i + 1];
+    if (next) endMs = Math.max(startMs + 1, Math.min(endMs, Math.round(next.startTime - start)));
+
+    return {
+      index: i + 1,
+      startMs,
+      endMs,
+      gloss,
+      text: translation?.text ?? gloss,
+      confidence: translation?.confidence ?? null
+    };
+  });
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// 'HH:MM:SS' followed by the millisecond separator SRT (',') or WebVTT ('.') expects
+export const formatCueTime = (ms: number, separator: ',' | '.'): string => {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+};
+
+export const toSrt = (cues: TranscriptCue[]): string =>
+  cues.map(cue => `${cue.index}\n${formatCueTime(cue.startMs, ',')} --> ${formatCueTime(cue.endMs, ',')}\n${cue.text}\n`).join('\n');
+
+// '-->' is not allowed inside a WebVTT cue
+export const toVtt = (cues: TranscriptCue[]): string =>
+  ['WEBVTT', '', ...cues.map(cue =>
+    `${cue.index}\n${formatCueTime(cue.startMs, '.')} --> ${formatCueTime(cue.endMs, '.')}\n${cue.text.replace(/-->/g, '->')}\n`
+  )].join('\n');
+
+const formatClock = (ms: number) => formatCueTime(ms, '.').slice(0, 8);
+
+const describeStart = (meta: TranscriptExportMeta) =>
+  meta.startedAt ? new Date(meta.startedAt).toLocaleString('en-US') : 'unknown';
+
+export const toPlainText = (cues: TranscriptCue[], meta: TranscriptExportMeta): string =>
+  [
+    meta.title,
+    `Sign language: ${meta.signLanguage}`,
+    `Recorded: ${describeStart(meta)}`,
+    '',
+    ...cues.map(cue => `[${formatClock(cue.startMs)}] ${cue.text}`)
+  ].join('\n') + '\n';
+
+export const toJson = (cues: TranscriptCue[], meta: TranscriptExportMeta): string =>
+  JSON.stringify({
+    title: meta.title,
+    signLanguage: meta.signLanguage,
+    startedAt: meta.startedAt ? new Date(meta.startedAt).toISOString() : null,
+    cues
+  }, null, 2);
+
+// PDF ------------------------------------------------------------------------
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+
+interface PdfLine {
+  text: string;
+  font: 'F1' | 'F2' | 'F3'; // Helvetica, Helvetica-Bold, Courier
+  size: number;
+  grey: number; // 0 black - 1 white
+  gapBefore: number;
+}
+
+// The standard PDF fonts only cover Latin-1; typographic punctuation is folded to ASCII
+const toLatin1 = (text: string): string =>
+  text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/…/g, '...')
+    .replace(/[^\x20-\xFF]/g, '?');
+
+const escapePdf = (text: string) => text.replace(/[\\()]/g, match => `\\${match}`);
+
+// Helvetica averages about half an em per character; Courier is exactly 0.6
+const wrap = (text: string, font: PdfLine['font'], size: number): string[] => {
+  const maxChars = Math.floor((PAGE_WIDTH - MARGIN * 2) / (size * (font === 'F3' ? 0.6 : 0.52)));
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    if (line && line.length + 1 + word.length > maxChars) {
+      lines.push(line);
+      line = '';
+    }
+    line = line ? `${line} ${word}` : word;
+    while (line.length > maxChars) {
+      lines.push(line.slice(0, maxChars));
+      line = line.slice(maxChars);
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+// A minimal text-only PDF using the built-in fonts, so no PDF library is needed
+const buildPdf = (lines: PdfLine[]): Uint8Array<ArrayBuffer> => {
+  const pages: string[] = [];
+  let content: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+  lines.forEach(line => {
+    const height = line.size * 1.35 + line.gapBefore;
+    if (y - height < MARGIN && content.length > 0) {
+      pages.push(content.join('\n'));
+      content = [];
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    y -= height;
+    content.push(`BT /${line.font} ${line.size} Tf ${line.grey} g ${MARGIN} ${y.toFixed(1)} Td (${escapePdf(toLatin1(line.text))}) Tj ET`);
+  });
+  pages.push(content.join('\n'));
+
+  // Objects 1-5: catalog, page tree, fonts; then a page and its content stream per page
+  const pageIds = pages.map((_, i) => 6 + i * 2);
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>',
+    ...pages.flatMap((stream, i) => [
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    ])
+  ];
+
+  // Every character is a single Latin-1 byte, so string offsets are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Uint8Array.from(pdf, char => char.charCodeAt(0));
+};
+
+export const toPdf = (cues: TranscriptCue[], meta: TranscriptExportMeta): Uint8Array<ArrayBuffer> => {
+  const lines: PdfLine[] = [
+    { text: meta.title, font: 'F2', size: 18, grey: 0, gapBefore: 0 },
+    { text: `Sign language: ${meta.signLanguage}    Recorded: ${describeStart(meta)}`, font: 'F1', size: 10, grey: 0.4, gapBefore: 4 }
+  ];
+  cues.forEach(cue => {
+    const confidence = cue.confidence !== null ? `    ${Math.round(cue.confidence * 100)}%` : '';
+    lines.push({ text: `${formatClock(cue.startMs)} - ${formatClock(cue.endMs)}${confidence}`, font: 'F2', size: 10, grey: 0.3, gapBefore: 14 });
+    wrap(cue.text, 'F1', 12).forEach(text => lines.push({ text, font: 'F1', size: 12, grey: 0, gapBefore: 2 }));
+    if (cue.gloss && cue.gloss !== cue.text) {
+      wrap(cue.gloss, 'F3', 9).forEach(text => lines.push({ text, font: 'F3', size: 9, grey: 0.5, gapBefore: 2 }));
+    }
+  });
+  if (cues.length === 0) {
+    lines.push({ text: 'No signs were interpreted in this session.', font: 'F1', size: 12, grey: 0.4, gapBefore: 14 });
+  }
+  return buildPdf(lines);
+};
+
+// File contents for any export format
+export const exportTranscript = (cues: TranscriptCue[], meta: TranscriptExportMeta, format: TranscriptExportFormat): Blob => {
+  const { mimeType } = TRANSCRIPT_FORMATS.find(item => item.format === format)!;
+  switch (format) {
+    case 'srt':
+      return new Blob([toSrt(cues)], { type: mimeType });
+    case 'vtt':
+      return new Blob([toVtt(cues)], { type: mimeType });
+    case 'json':
+      return new Blob([toJson(cues, meta)], { type: mimeType });
+    case 'pdf':
+      return new Blob([toPdf(cues, meta)], { type: mimeType });
+    default:
+      return new Blob([toPlainText(cues, meta)], { type: mimeType });
+  }
+};
@@ -0,0 +1,429 @@
+import { summarizeNonManual } from '../nonManualFeatures';
+import { lookup, PronounEntry, WordEntry, WORDS } from './lexicon';
+import type { GlossToken, SentenceType, TargetLanguage } from './types';
+
+type Tense = 'past' | 'present' | 'future';
+
+interface Constituent {
+  gloss: string;
+  entry: PronounEntry | WordEntry | null; // null for proper nouns and unknown glosses
+  text: string; // Fallback surface form
+  possessor?: PronounEntry;
+}
+
+// One ASL/KSL clause in topic-comment order, re-ordered by the generators
+interface Clause {
+  subject: PronounEntry | null;
+  verb: WordEntry | null;
+  complement: WordEntry | null; // Second verb, e.g. WANT EAT -> want to eat
+  adjective: WordEntry | null;
+  objects: Constituent[];
+  times: WordEntry[];
+  wh: WordEntry | null;
+  yesNo: boolean; // Raised brows with no WH sign: Are you hungry?
+  negated: boolean;
+  tense: Tense;
+}
+
+export interface GrammarOutput {
+  text: string;
+  sentenceType: SentenceType;
+  unknownGlosses: string[];
+  coverage: number; // Share of tokens the grammar understood
+}
+
+// Nouns a preceding pronoun possesses rather than acts on: ME NAME -> my name
+const POSSESSABLE = new Set(['NAME', 'MOTHER', 'FATHER', 'FAMILY', 'FRIEND', 'TEACHER', 'HOUSE', 'BOOK', 'HOME']);
+
+const SUBJECT_ME = lookup('ME') as PronounEntry;
+const SUBJECT_YOU = lookup('YOU') as PronounEntry;
+// WHO with no other subject asks about the subject itself: WHO GO SCHOOL -> Who is going to school?
+const SUBJECT_WHO: PronounEntry = {
+  ...(lookup('HE') as PronounEntry),
+  en: 'who', sw: 'Nani', enObject: 'whom', enPossessive: 'whose'
+};
+
+const subjectOf = (clause: Clause): PronounEntry => {
+  if (clause.subject) return clause.subject;
+  if (clause.wh?.en === 'who') return SUBJECT_WHO;
+  // ASL/KSL drop the pronoun when the signer means themselves, or the addressee in a question
+  return clause.wh || clause.yesNo ? SUBJECT_YOU : SUBJECT_ME;
+};
+
+const isPronoun = (entry: PronounEntry | WordEntry | null): entry is PronounEntry => entry?.role === 'pronoun';
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+const sentence = (words: (string | null | undefined | false)[], question: boolean): string =>
+  capitalize(words.filter(Boolean).join(' ').replace(/\s+/g, ' ').trim()) + (question ? '?' : '.');
+
+const parse = (tokens: GlossToken[]): { phrases: WordEntry[]; clause: Clause | null; unknown: string[]; known: number } => {
+  const phrases: WordEntry[] = [];
+  const unknown: string[] = [];
+  let known = 0;
+  const clause: Clause = {
+    subject: null, verb: null, complement: null, adjective: null,
+    objects: [], times: [], wh: null, yesNo: false, negated: false, tense: 'present'
+  };
+  let pendingPossessor: PronounEntry | null = null;
+  let hasContent = false;
+
+  tokens.forEach((token, index) => {
+    if (token.properNoun) {
+      clause.objects.push({ gloss: token.gloss, entry: null, text: token.display, possessor: pendingPossessor ?? undefined });
+      pendingPossessor = null;
+      hasContent = true;
+      known++;
+      return;
+    }
+
+    const entry = lookup(token.gloss);
+    if (!entry) {
+      unknown.push(token.gloss);
+      clause.objects.push({ gloss: token.gloss, entry: null, text: token.display.toLowerCase() });
+      hasContent = true;
+      return;
+    }
+    known++;
+
+    if (isPronoun(entry)) {
+      const next = tokens[index + 1];
+      if (!clause.verb && next && POSSESSABLE.has(next.gloss)) {
+        pendingPossessor = entry;
+      } else if (!clause.subject && !clause.verb && !clause.adjective) {
+        clause.subject = entry;
+      } else {
+        clause.objects.push({ gloss: token.gloss, entry, text: entry.enObject });
+      }
+      hasContent = true;
+      return;
+    }
+
+    switch (entry.role) {
+      case 'phrase':
+        // NO inside a clause negates it; elsewhere it is an answer on its own
+        if (token.gloss === 'NO' && hasContent) {
+          clause.negated = true;
+        } else {
+          phrases.push(entry);
+        }
+        return;
+      case 'verb':
+        if (!clause.verb) {
+          clause.verb = entry;
+        } else if (entry.nounForm) {
+          clause.objects.push({ gloss: entry.nounForm, entry: WORDS[entry.nounForm], text: WORDS[entry.nounForm].en });
+        } else if (!clause.complement) {
+          clause.complement = entry;
+        }
+        break;
+      case 'adjective':
+        if (entry.swCopula && !clause.adjective && !clause.verb) {
+          clause.adjective = entry;
+        } else {
+          clause.objects.push({ gloss: token.gloss, entry, text: entry.en });
+        }
+        break;
+      case 'time':
+        if (entry.en) clause.times.push(entry);
+        if (entry.tense) clause.tense = entry.tense;
+        break;
+      case 'wh':
+        clause.wh = entry;
+        break;
+      case 'negation':
+        clause.negated = true;
+        break;
+      default:
+        clause.objects.push({ gloss: token.gloss, entry, text: entry.en, possessor: pendingPossessor ?? undefined });
+        pendingPossessor = null;
+    }
+    hasContent = true;
+  });
+
+  const empty = !clause.subject && !clause.verb && !clause.adjective && clause.objects.length === 0 && !clause.wh;
+  return { phrases, clause: empty ? null : clause, unknown, known };
+};
+
+// English
+
+const pluralize = (word: string): string => (/(s|x|ch|sh)$/.test(word) ? `${word}es` : `${word}s`);
+
+const thirdPerson = (verb: string): string => {
+  if (verb === 'have') return 'has';
+  if (/(s|x|ch|sh|o)$/.test(verb)) return `${verb}es`;
+  if (/[^aeiou]y$/.test(verb)) return `${verb.slice(0, -1)}ies`;
+  return `${verb}s`;
+};
+
+const pastTense = (verb: WordEntry): string => {
+  if (verb.enPast) return verb.enPast;
+  if (verb.en.endsWith('e')) return `${verb.en}d`;
+  if (/[^aeiou]y$/.test(verb.en)) return `${verb.en.slice(0, -1)}ied`;
+  return `${verb.en}ed`;
+};
+
+const ingForm = (verb: WordEntry): string => {
+  if (verb.enIng) return verb.enIng;
+  if (/[^e]e$/.test(verb.en)) return `${verb.en.slice(0, -1)}ing`;
+  return `${verb.en}ing`;
+};
+
+const englishObjects = (objects: Constituent[]): string[] => {
+  const words: string[] = [];
+  objects.forEach((object, i) => {
+    const entry = object.entry;
+    if (!entry) {
+      words.push(object.possessor ? `${object.possessor.enPossessive} ${object.text}` : object.text);
+      return;
+    }
+    if (isPronoun(entry)) {
+      words.push(entry.enObject);
+      return;
+    }
+    const previous = objects[i - 1]?.entry;
+    const counted = previous && !isPronoun(previous) && previous.role === 'number' && Number(previous.en) > 1;
+    const noun = counted ? pluralize(entry.en) : entry.en;
+    if (object.possessor) {
+      words.push(`${object.possessor.enPossessive} ${noun}`);
+    } else if (entry.enArticle && !counted && objects[i - 1]?.gloss !== 'MORE') {
+      words.push(`${entry.enArticle} ${noun}`);
+    } else {
+      words.push(noun);
+    }
+  });
+  return words;
+};
+
+const isPlace = (object: Constituent | undefined): boolean =>
+  !!object?.entry && !isPronoun(object.entry) && !!object.entry.swLocative && !object.entry.enBare;
+
+const toEnglish = (clause: Clause): string => {
+  const subject = subjectOf(clause);
+  const question = !!clause.wh || clause.yesNo;
+  const times = clause.times.map(time => time.en);
+  const objects = englishObjects(clause.objects);
+  // A WHO subject is already in first position
+  const wh = subject === SUBJECT_WHO ? null : clause.wh?.en;
+  const not = clause.negated ? 'not' : null;
+  // Questions put the auxiliary before the subject, with or without a WH word
+  const inverted = !!wh || clause.yesNo;
+
+  // A lone pronoun or question word (ME, WHO) is answered or asked as it stands
+  if (!clause.verb && !clause.adjective && clause.objects.length === 0) {
+    return sentence([not, clause.subject?.enObject, clause.wh?.en, ...times], question);
+  }
+
+  // My name is X / What is your name?
+  if (!clause.verb && !clause.adjective && clause.objects.length > 0) {
+    const [head, ...rest] = objects;
+    // A lone noun phrase (WATER) is not a clause; there is nothing to link with 'is'
+    if (!clause.subject && !clause.wh && !clause.objects[0].possessor) {
+      return sentence([not, head, ...rest, ...times], question);
+    }
+    if (clause.objects[0].possessor || !clause.subject) {
+      return inverted
+        ? sentence([wh, 'is', head, ...rest, ...times], true)
+        : sentence([head, 'is', not, ...rest, ...times], question);
+    }
+    const be = clause.tense === 'past' ? subject.enBe.past : subject.enBe.present;
+    return inverted
+      ? sentence([wh, be, subject.en, ...objects, ...times], true)
+      : sentence([subject.en, clause.tense === 'future' ? 'will' : be, not, clause.tense === 'future' ? 'be' : null, ...objects, ...times], question);
+  }
+
+  if (!clause.verb) {
+    const adjective = clause.adjective?.en ?? '';
+    if (clause.tense === 'future') {
+      return inverted
+        ? sentence([wh, 'will', subject.en, not, 'be', adjective, ...objects, ...times], true)
+        : sentence([subject.en, 'will', not, 'be', adjective, ...objects, ...times], question);
+    }
+    const be = clause.tense === 'past' ? subject.enBe.past : subject.enBe.present;
+    return inverted
+      ? sentence([wh, be, subject.en, not, adjective, ...objects, ...times], true)
+      : sentence([subject.en, be, not, adjective, ...objects, ...times], question);
+  }
+
+  const verb = clause.verb;
+  const complement = clause.complement ? `to ${clause.complement.en}` : null;
+  const preposition = verb.preposition && !wh && isPlace(clause.objects[0]) ? verb.preposition : null;
+  const rest = [complement, preposition, ...objects, ...times];
+
+  if (clause.tense === 'future') {
+    return inverted
+      ? sentence([wh, 'will', subject.en, not, verb.en, ...rest], true)
+      : sentence([subject.en, 'will', not, verb.en, ...rest], question);
+  }
+
+  if (clause.tense === 'past') {
+    if (inverted || clause.negated) {
+      return inverted
+        ? sentence([wh, 'did', subject.en, not, verb.en, ...rest], true)
+        : sentence([subject.en, 'did not', verb.en, ...rest], question);
+    }
+    return sentence([subject.en, pastTense(verb), ...rest], question);
+  }
+
+  const doAux = subject.thirdSingular ? 'does' : 'do';
+  if (inverted) {
+    // Motion reads naturally as ongoing: Where are you going?
+    return verb.motion
+      ? sentence([wh, subject.enBe.present, subject.en, not, ingForm(verb), ...rest], true)
+      : sentence([wh, doAux, subject.en, not, verb.en, ...rest], true);
+  }
+  if (clause.negated) {
+    return sentence([subject.en, doAux, 'not', verb.en, ...rest], question);
+  }
+  return sentence([subject.en, subject.thirdSingular ? thirdPerson(verb.en) : verb.en, ...rest], question);
+};
+
+// Swahili
+
+const swPossessive = (possessor: PronounEntry, entry: WordEntry | null): string => {
+  const stem = possessor.swPossessive.slice(1);
+  const prefix = { li: 'l', ki: 'ch', i: 'y' }[entry?.swClass ?? 'i'];
+  return `${prefix}${stem}`;
+};
+
+const swahiliObjects = (objects: Constituent[], locative: boolean): string[] => {
+  const words: string[] = [];
+  for (let i = 0; i < objects.length; i++) {
+    const object = objects[i];
+    const entry = object.entry;
+    if (entry && isPronoun(entry)) continue; // Object pronouns become verb infixes
+
+    const next = objects[i + 1];
+    const modifier = entry && (entry.role === 'number' || object.gloss === 'MORE');
+    const nextIsNoun = next?.entry && !isPronoun(next.entry) && next.entry.role === 'noun';
+    if (modifier && nextIsNoun) {
+      // Numbers and zaidi follow the noun: maji zaidi, vitabu 2
+      objects[i + 1] = object;
+      objects[i] = next;
+      i--;
+      continue;
+    }
+
+    const noun = entry as WordEntry | null;
+    let word = noun ? noun.sw : object.text;
+    if (noun && locative && noun.swLocative && i === 0) word = noun.swLocative;
+    if (object.possessor) word = `${word} ${swPossessive(object.possessor, noun)}`;
+    words.push(word);
+  }
+  return words;
+};
+
+const negativeStem = (stem: string): string => (stem.endsWith('a') ? `${stem.slice(0, -1)}i` : stem);
+
+const conjugate = (subject: PronounEntry, verb: WordEntry, tense: Tense, negated: boolean, infix: string): string => {
+  const [stem, ...tail] = verb.sw.split(' ');
+  const ku = verb.swMonosyllabic && !infix ? 'ku' : '';
+  let word: string;
+
+  if (verb.sw === 'na') {
+    // Possession: nina / sina / nilikuwa na / nitakuwa na
+    const prefix = negated ? subject.swNegative : subject.swPrefix;
+    if (tense === 'present') return `${prefix}na`;
+    const marker = tense === 'future' ? 'ta' : negated ? '' : 'li';
+    return `${prefix}${marker}kuwa na`;
+  }
+
+  if (!negated) {
+    const marker = { present: 'na', past: 'li', future: 'ta' }[tense];
+    word = `${subject.swPrefix}${marker}${infix}${ku}${stem}`;
+  } else if (tense === 'present') {
+    word = `${subject.swNegative}${infix}${negativeStem(stem)}`;
+  } else if (tense === 'past') {
+    word = `${subject.swNegative}ku${infix}${stem}`;
+  } else {
+    word = `${subject.swNegative}ta${infix}${ku}${stem}`;
+  }
+  return [word, ...tail].join(' ');
+};
+
+const infinitive = (verb: WordEntry): string => (verb.sw === 'enda' ? 'kwenda' : `ku${verb.sw}`);
+
+const swahiliClause = (clause: Clause): string => {
+  const subject = subjectOf(clause);
+  const question = !!clause.wh || clause.yesNo;
+  const times = clause.times.map(time => time.sw);
+  // Names are asked with nani: Jina lako nani?
+  const askingName = clause.wh?.en === 'what' && clause.objects[0]?.gloss === 'NAME';
+  const wh = subject === SUBJECT_WHO ? null : askingName ? 'nani' : clause.wh?.sw;
+
+  if (!clause.verb && !clause.adjective && clause.objects.length === 0) {
+    return sentence([clause.negated ? 'si' : null, clause.subject?.sw.toLowerCase(), clause.wh?.sw, ...times], question);
+  }
+
+  if (!clause.verb && !clause.adjective && clause.objects.length > 0) {
+    const objects = swahiliObjects([...clause.objects], false);
+    const [head, ...rest] = objects;
+    if (!clause.subject && !clause.wh && !clause.objects[0].possessor) {
+      return sentence([clause.negated ? 'si' : null, head, ...rest, ...times], question);
+    }
+    if (clause.objects[0].possessor || !clause.subject) {
+      // Jina langu ni X / Jina lako nani? / Shule iko wapi?
+      if (wh) return sentence([head, ...rest, clause.wh?.en === 'where' ? 'iko' : null, wh, ...times], true);
+      return sentence([head, clause.negated ? 'si' : 'ni', ...rest, ...times], question);
+    }
+    return sentence([subject.sw, clause.negated ? 'si' : 'ni', ...objects, ...times, wh], question);
+  }
+
+  if (!clause.verb) {
+    const adjective = clause.adjective;
+    const objects = swahiliObjects([...clause.objects], false);
+    const prefix = clause.negated ? subject.swNegative : subject.swPrefix;
+    let predicate: string;
+    if (clause.tense === 'present') {
+      predicate = adjective?.swCopula === 'na'
+        ? `${prefix}na ${adjective.sw}`
+        : `${subject.sw} ${clause.negated ? 'si' : 'ni'} ${adjective?.sw ?? ''}`;
+    } else {
+      const marker = clause.tense === 'future' ? 'ta' : clause.negated ? '' : 'li';
+      predicate = `${prefix}${marker}kuwa${adjective?.swCopula === 'na' ? ' na' : ''} ${adjective?.sw ?? ''}`;
+    }
+    return sentence([subject === SUBJECT_WHO ? 'nani' : null, predicate, ...objects, ...times, wh], question);
+  }
+
+  const objectPronoun = clause.objects.find(object => object.entry && isPronoun(object.entry))?.entry as PronounEntry | undefined;
+  const verb = conjugate(subject, clause.verb, clause.tense, clause.negated, objectPronoun?.swObject ?? '');
+  const complement = clause.complement ? infinitive(clause.complement) : null;
+  const objects = swahiliObjects([...clause.objects], !!clause.verb.motion);
+  return sentence([subject === SUBJECT_WHO ? 'nani' : null, verb, complement, ...objects, ...times, wh], question);
+};
+
+// Yes/no questions keep statement order behind the question particle: Je, una njaa?
+const toSwahili = (clause: Clause): string => {
+  const text = swahiliClause(clause);
+  return clause.yesNo && !clause.wh ? `Je, ${text.charAt(0).toLowerCase()}${text.slice(1)}` : text;
+};
+
+// Rule-based gloss-to-text: fixed phrases become their own sentences, the rest
+// is parsed as one topic-comment clause and regenerated in the target word order
+export class GlossGrammar {
+  translate(tokens: GlossToken[], language: TargetLanguage): GrammarOutput {
+    const { phrases, clause, unknown, known } = parse(tokens);
+
+    // Facial grammar: a head shake negates the clause, raised brows ask a yes/no question
+    const markers = summarizeNonManual(tokens.map(token => token.nonManual));
+    if (clause && markers.negation) clause.negated = true;
+    if (clause && markers.question === 'yes_no' && !clause.wh) clause.yesNo = true;
+
+    const sentences = phrases.map(phrase => (language === 'sw' ? phrase.swSentence : phrase.enSentence) ?? '');
+    if (clause) {
+      sentences.push(language === 'sw' ? toSwahili(clause) : toEnglish(clause));
+    }
+
+    let sentenceType: SentenceType = 'statement';
+    if (clause?.wh || clause?.yesNo) sentenceType = 'question';
+    else if (clause?.negated) sentenceType = 'negation';
+    else if (!clause && phrases.length > 0) sentenceType = 'greeting';
+
+    return {
+      text: sentences.filter(Boolean).join(' '),
+      sentenceType,
+      unknownGlosses: unknown,
+      coverage: tokens.length > 0 ? known / tokens.length : 0
+    };
+  }
+}
@@ -0,0 +1,77 @@
+import { recognizerRegistry } from '../recognizers';
+import type { SignLanguageCode } from '../recognizers/types';
+import type { TranscriptSegment, TranscriptToken } from '../signSegmenter';
+import { hasAuthToken, refineTranslation } from '../mongoApi';
+import { GlossGrammar } from './grammar';
+import { toGloss } from './lexicon';
+import type { GlossToken, TargetLanguage, TranslateOptions, TranslationResult } from './types';
+
+export type { GlossToken, SentenceType, TargetLanguage, TranslateOptions, TranslationResult } from './types';
+
+// Turns committed transcript tokens into sentences a hearing listener can use
+class TranslationService {
+  private grammar = new GlossGrammar();
+
+  // Recognisers report signs in their own vocabulary (e.g. 'Asante' for KSL); map back to English glosses
+  toGlossTokens(tokens: TranscriptToken[], signLanguage: SignLanguageCode = 'ASL'): GlossToken[] {
+    const translations = recognizerRegistry.get(signLanguage).translations;
+    const reverse = new Map<string, string>();
+    Object.entries(translations).forEach(([english, local]) => reverse.set(local.trim().toLowerCase(), english));
+
+    return tokens.map(token => {
+      const english = reverse.get(token.sign.trim().toLowerCase()) ?? token.sign;
+      return {
+        gloss: toGloss(english),
+        display: token.sign,
+        confidence: token.confidence,
+        properNoun: token.gestureType === 'fingerspelled',
+        nonManual: token.nonManual
+      };
+    });
+  }
+
+  // Rule-based translation only; cheap enough to run on every new token
+  translateTokens(tokens: TranscriptToken[], options: TranslateOptions = {}): TranslationResult {
+    const language = options.language ?? 'en';
+    const signLanguage = options.signLanguage ?? 'ASL';
+    const glossTokens = this.toGlossTokens(tokens, signLanguage);
+    const output = this.grammar.translate(glossTokens, language);
+    const meanConfidence = glossTokens.length > 0
+      ? glossTokens.reduce((sum, token) => sum + token.confidence, 0) / glossTokens.length
+      : 0;
+
+    return {
+      gloss: glossTokens.map(token => token.gloss).join(' '),
+      text: output.text,
+      language,
+      signLanguage,
+      method: 'rules',
+      sentenceType: output.sentenceType,
+      confidence: meanConfidence * output.coverage,
+      unknownGlosses: output.unknownGlosses,
+      startTime: tokens[0]?.startTime,
+      endTime: tokens[tokens.length - 1]?.endTime
+    };
+  }
+
+  // Rule-based draft, optionally polished by the server-side LLM. Falls back to the draft on failure.
+  async translate(tokens: TranscriptToken[], options: TranslateOptions = {}): Promise<TranslationResult> {
+    const draft = this.translateTokens(tokens, options);
+    if (!options.refine || !draft.text || !hasAuthToken()) return draft;
+
+    try {
+      const refined = await refineTranslation(draft.gloss, draft.text, draft.language, draft.signLanguage);
+      return refined.text ? { ...draft, text: refined.text, method: 'llm' } : draft;
+    } catch (error) {
+      console.error('Translation refinement failed:', error);
+      return draft;
+    }
+  }
+
+  async translateSegment(segment: TranscriptSegment, options: TranslateOptions = {}): Promise<TranslationResult> {
+    const result = await this.translate(segment.tokens, options);
+    return { ...result, segmentId: segment.id };
+  }
+}
+
+export const translationService = new TranslationService();
@@ -0,0 +1,167 @@
+export type GlossRole = 'pronoun' | 'verb' | 'noun' | 'adjective' | 'time' | 'wh' | 'negation' | 'phrase' | 'number';
+
+export interface PronounEntry {
+  role: 'pronoun';
+  en: string; // Subject form
+  enObject: string;
+  enPossessive: string;
+  enBe: { present: string; past: string };
+  thirdSingular: boolean;
+  sw: string; // Independent pronoun, used with the copula
+  swObject: string; // Object infix, e.g. ni-na-ku-penda
+  swPrefix: string; // Subject prefix, e.g. ni-na-enda
+  swNegative: string; // Negative subject prefix, e.g. si-endi
+  swPossessive: string; // Agreeing with class 5 nouns such as jina
+}
+
+export interface WordEntry {
+  role: Exclude<GlossRole, 'pronoun'>;
+  en: string;
+  sw: string;
+  enPast?: string; // Verbs: irregular past tense
+  enIng?: string; // Verbs: irregular -ing form
+  preposition?: string; // Verbs: English preposition before the object, e.g. GO -> 'to'
+  motion?: boolean; // Verbs: places after the verb take the Swahili locative
+  swMonosyllabic?: boolean; // Verbs: keep ku- after tense markers (ni-na-ku-la)
+  swCopula?: 'ni' | 'na'; // Adjectives: 'Mimi ni mgonjwa' vs 'Nina njaa'
+  nounForm?: string; // Verbs: gloss to use when the sign follows another verb, e.g. NEED HELP
+  enArticle?: 'a' | 'an' | 'the'; // Nouns
+  enBare?: boolean; // Nouns: no preposition after a motion verb (go home)
+  swClass?: 'li' | 'ki' | 'i'; // Nouns: possessive agreement, jina langu / kitabu changu / mama yangu
+  swLocative?: string; // Place nouns after a motion verb, e.g. shule -> shuleni
+  tense?: 'past' | 'present' | 'future'; // Time words and tense markers
+  enSentence?: string; // Phrases: full English sentence
+  swSentence?: string;
+}
+
+export type LexiconEntry = PronounEntry | WordEntry;
+
+const pronoun = (entry: Omit<PronounEntry, 'role'>): PronounEntry => ({ role: 'pronoun', ...entry });
+
+export const PRONOUNS: { [gloss: string]: PronounEntry } = {
+  ME: pronoun({ en: 'I', enObject: 'me', enPossessive: 'my', enBe: { present: 'am', past: 'was' }, thirdSingular: false, sw: 'Mimi', swObject: 'ni', swPrefix: 'ni', swNegative: 'si', swPossessive: 'langu' }),
+  YOU: pronoun({ en: 'you', enObject: 'you', enPossessive: 'your', enBe: { present: 'are', past: 'were' }, thirdSingular: false, sw: 'Wewe', swObject: 'ku', swPrefix: 'u', swNegative: 'hu', swPossessive: 'lako' }),
+  HE: pronoun({ en: 'he', enObject: 'him', enPossessive: 'his', enBe: { present: 'is', past: 'was' }, thirdSingular: true, sw: 'Yeye', swObject: 'm', swPrefix: 'a', swNegative: 'ha', swPossessive: 'lake' }),
+  SHE: pronoun({ en: 'she', enObject: 'her', enPossessive: 'her', enBe: { present: 'is', past: 'was' }, thirdSingular: true, sw: 'Yeye', swObject: 'm', swPrefix: 'a', swNegative: 'ha', swPossessive: 'lake' }),
+  WE: pronoun({ en: 'we', enObject: 'us', enPossessive: 'our', enBe: { present: 'are', past: 'were' }, thirdSingular: false, sw: 'Sisi', swObject: 'tu', swPrefix: 'tu', swNegative: 'hatu', swPossessive: 'letu' }),
+  THEY: pronoun({ en: 'they', enObject: 'them', enPossessive: 'their', enBe: { present: 'are', past: 'were' }, thirdSingular: false, sw: 'Wao', swObject: 'wa', swPrefix: 'wa', swNegative: 'hawa', swPossessive: 'lao' })
+};
+
+// Alternative glosses signers and recognisers produce for the same pronoun
+const PRONOUN_ALIASES: { [gloss: string]: string } = {
+  I: 'ME', MY: 'ME', MINE: 'ME', POINT: 'YOU', YOUR: 'YOU', HIM: 'HE', HIS: 'HE', HER: 'SHE', US: 'WE', OUR: 'WE', THEM: 'THEY', THEIR: 'THEY'
+};
+
+export const WORDS: { [gloss: string]: WordEntry } = {
+  // Verbs
+  GO: { role: 'verb', en: 'go', sw: 'enda', enPast: 'went', preposition: 'to', motion: true },
+  COME: { role: 'verb', en: 'come', sw: 'ja', enPast: 'came', preposition: 'to', motion: true, swMonosyllabic: true },
+  EAT: { role: 'verb', en: 'eat', sw: 'la', enPast: 'ate', swMonosyllabic: true },
+  DRINK: { role: 'verb', en: 'drink', sw: 'nywa', enPast: 'drank', swMonosyllabic: true },
+  WANT: { role: 'verb', en: 'want', sw: 'taka' },
+  LIKE: { role: 'verb', en: 'like', sw: 'penda' },
+  LOVE: { role: 'verb', en: 'love', sw: 'penda' },
+  SEE: { role: 'verb', en: 'see', sw: 'ona', enPast: 'saw' },
+  KNOW: { role: 'verb', en: 'know', sw: 'jua', enPast: 'knew' },
+  LEARN: { role: 'verb', en: 'learn', sw: 'jifunza' },
+  READ: { role: 'verb', en: 'read', sw: 'soma', enPast: 'read' },
+  WRITE: { role: 'verb', en: 'write', sw: 'andika', enPast: 'wrote' },
+  WORK: { role: 'verb', en: 'work', sw: 'fanya kazi', nounForm: 'WORKPLACE' },
+  HELP: { role: 'verb', en: 'help', sw: 'saidia', nounForm: 'HELP_NOUN' },
+  SLEEP: { role: 'verb', en: 'sleep', sw: 'lala', enPast: 'slept' },
+  LIVE: { role: 'verb', en: 'live', sw: 'ishi', preposition: 'in' },
+  NEED: { role: 'verb', en: 'need', sw: 'hitaji' },
+  STOP: { role: 'verb', en: 'stop', sw: 'simama', enIng: 'stopping' },
+  SIGN: { role: 'verb', en: 'sign', sw: 'tumia lugha ya ishara' },
+  UNDERSTAND: { role: 'verb', en: 'understand', sw: 'elewa', enPast: 'understood' },
+  MEET: { role: 'verb', en: 'meet', sw: 'kutana', enPast: 'met' },
+  HAVE: { role: 'verb', en: 'have', sw: 'na', enPast: 'had' },
+
+  // Nouns
+  SCHOOL: { role: 'noun', en: 'school', sw: 'shule', swLocative: 'shuleni' },
+  HOME: { role: 'noun', en: 'home', sw: 'nyumbani', swLocative: 'nyumbani', enBare: true },
+  HOUSE: { role: 'noun', en: 'house', sw: 'nyumba', enArticle: 'the', swLocative: 'nyumbani' },
+  WORKPLACE: { role: 'noun', en: 'work', sw: 'kazi', swLocative: 'kazini' },
+  HOSPITAL: { role: 'noun', en: 'hospital', sw: 'hospitali', enArticle: 'the', swLocative: 'hospitalini' },
+  MARKET: { role: 'noun', en: 'market', sw: 'soko', enArticle: 'the', swLocative: 'sokoni' },
+  CHURCH: { role: 'noun', en: 'church', sw: 'kanisa', swLocative: 'kanisani' },
+  WATER: { role: 'noun', en: 'water', sw: 'maji' },
+  FOOD: { role: 'noun', en: 'food', sw: 'chakula' },
+  BOOK: { role: 'noun', en: 'book', sw: 'kitabu', enArticle: 'a', swClass: 'ki' },
+  NAME: { role: 'noun', en: 'name', sw: 'jina', swClass: 'li' },
+  FRIEND: { role: 'noun', en: 'friend', sw: 'rafiki', enArticle: 'a' },
+  TEACHER: { role: 'noun', en: 'teacher', sw: 'mwalimu', enArticle: 'the' },
+  STUDENT: { role: 'noun', en: 'student', sw: 'mwanafunzi', enArticle: 'a' },
+  DOCTOR: { role: 'noun', en: 'doctor', sw: 'daktari', enArticle: 'the' },
+  MOTHER: { role: 'noun', en: 'mother', sw: 'mama' },
+  FATHER: { role: 'noun', en: 'father', sw: 'baba' },
+  FAMILY: { role: 'noun', en: 'family', sw: 'familia' },
+  HELP_NOUN: { role: 'noun', en: 'help', sw: 'msaada' },
+
+  // Adjectives
+  GOOD: { role: 'adjective', en: 'good', sw: 'mzuri', swCopula: 'ni' },
+  FINE: { role: 'adjective', en: 'fine', sw: 'mzima', swCopula: 'ni' },
+  BAD: { role: 'adjective', en: 'bad', sw: 'mbaya', swCopula: 'ni' },
+  HAPPY: { role: 'adjective', en: 'happy', sw: 'furaha', swCopula: 'na' },
+  SAD: { role: 'adjective', en: 'sad', sw: 'huzuni', swCopula: 'na' },
+  HUNGRY: { role: 'adjective', en: 'hungry', sw: 'njaa', swCopula: 'na' },
+  THIRSTY: { role: 'adjective', en: 'thirsty', sw: 'kiu', swCopula: 'na' },
+  SICK: { role: 'adjective', en: 'sick', sw: 'mgonjwa', swCopula: 'ni' },
+  TIRED: { role: 'adjective', en: 'tired', sw: 'mchovu', swCopula: 'ni' },
+  DEAF: { role: 'adjective', en: 'deaf', sw: 'kiziwi', swCopula: 'ni' },
+  MORE: { role: 'adjective', en: 'more', sw: 'zaidi' },
+
+  // Time and tense markers (topic position in ASL/KSL)
+  TOMORROW: { role: 'time', en: 'tomorrow', sw: 'kesho', tense: 'future' },
+  YESTERDAY: { role: 'time', en: 'yesterday', sw: 'jana', tense: 'past' },
+  TODAY: { role: 'time', en: 'today', sw: 'leo', tense: 'present' },
+  NOW: { role: 'time', en: 'now', sw: 'sasa', tense: 'present' },
+  LATER: { role: 'time', en: 'later', sw: 'baadaye', tense: 'future' },
+  FINISH: { role: 'time', en: '', sw: '', tense: 'past' },
+  WILL: { role: 'time', en: '', sw: '', tense: 'future' },
+
+  // Question words (sentence-final in ASL/KSL)
+  WHAT: { role: 'wh', en: 'what', sw: 'nini' },
+  WHERE: { role: 'wh', en: 'where', sw: 'wapi' },
+  WHO: { role: 'wh', en: 'who', sw: 'nani' },
+  WHEN: { role: 'wh', en: 'when', sw: 'lini' },
+  WHY: { role: 'wh', en: 'why', sw: 'kwa nini' },
+  HOW: { role: 'wh', en: 'how', sw: 'vipi' },
+
+  // Negation
+  NOT: { role: 'negation', en: 'not', sw: '' },
+  NONE: { role: 'negation', en: 'not', sw: '' },
+
+  // Fixed expressions
+  HELLO: { role: 'phrase', en: 'hello', sw: 'hujambo', enSentence: 'Hello.', swSentence: 'Hujambo.' },
+  'THANK-YOU': { role: 'phrase', en: 'thank you', sw: 'asante', enSentence: 'Thank you.', swSentence: 'Asante.' },
+  PLEASE: { role: 'phrase', en: 'please', sw: 'tafadhali', enSentence: 'Please.', swSentence: 'Tafadhali.' },
+  SORRY: { role: 'phrase', en: 'sorry', sw: 'samahani', enSentence: 'I am sorry.', swSentence: 'Samahani.' },
+  YES: { role: 'phrase', en: 'yes', sw: 'ndiyo', enSentence: 'Yes.', swSentence: 'Ndiyo.' },
+  NO: { role: 'phrase', en: 'no', sw: 'hapana', enSentence: 'No.', swSentence: 'Hapana.' },
+  'GOOD-MORNING': { role: 'phrase', en: 'good morning', sw: 'habari za asubuhi', enSentence: 'Good morning.', swSentence: 'Habari za asubuhi.' },
+  'GOOD-AFTERNOON': { role: 'phrase', en: 'good afternoon', sw: 'habari za mchana', enSentence: 'Good afternoon.', swSentence: 'Habari za mchana.' },
+  'GOOD-NIGHT': { role: 'phrase', en: 'good night', sw: 'usiku mwema', enSentence: 'Good night.', swSentence: 'Usiku mwema.' },
+  GOODBYE: { role: 'phrase', en: 'goodbye', sw: 'kwaheri', enSentence: 'Goodbye.', swSentence: 'Kwaheri.' },
+  'HOW-ARE-YOU': { role: 'phrase', en: 'how are you', sw: 'habari yako', enSentence: 'How are you?', swSentence: 'Habari yako?' },
+  'NICE-TO-MEET-YOU': { role: 'phrase', en: 'nice to meet you', sw: 'nimefurahi kukutana nawe', enSentence: 'Nice to meet you.', swSentence: 'Nimefurahi kukutana nawe.' },
+  'I-LOVE-YOU': { role: 'phrase', en: 'I love you', sw: 'nakupenda', enSentence: 'I love you.', swSentence: 'Nakupenda.' },
+  'WHAT-IS-YOUR-NAME': { role: 'phrase', en: 'what is your name', sw: 'jina lako nani', enSentence: 'What is your name?', swSentence: 'Jina lako nani?' }
+};
+
+// Glosses the recognisers emit that mean something else in a sentence
+const WORD_ALIASES: { [gloss: string]: string } = {
+  THANKS: 'THANK-YOU', HI: 'HELLO', 'MY-NAME-IS': 'NAME', BYE: 'GOODBYE',
+  'OPEN-HAND': 'HELLO', FINISHED: 'FINISH', NEVER: 'NOT', DONT: 'NOT', "DON'T": 'NOT', CANT: 'NOT'
+};
+
+// Canonical gloss for a recognised sign: 'Thank you' -> 'THANK-YOU', 'How are you?' -> 'HOW-ARE-YOU'
+export const toGloss = (sign: string): string => {
+  const gloss = sign.trim().toUpperCase().replace(/[?.!,]/g, '').replace(/\s+/g, '-');
+  return PRONOUN_ALIASES[gloss] ?? WORD_ALIASES[gloss] ?? gloss;
+};
+
+export const lookup = (gloss: string): LexiconEntry | null => {
+  if (/^\d+$/.test(gloss)) return { role: 'number', en: gloss, sw: gloss };
+  return PRONOUNS[gloss] ?? WORDS[gloss] ?? null;
+};
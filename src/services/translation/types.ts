@@ -0,0 +1,34 @@
+import type { NonManualFeatures } from '../nonManualFeatures';
+import type { SignLanguageCode } from '../recognizers/types';
+
+export type TargetLanguage = 'en' | 'sw';
+
+export type SentenceType = 'statement' | 'question' | 'negation' | 'greeting';
+
+export interface GlossToken {
+  gloss: string; // Canonical upper-case English gloss, e.g. 'THANK-YOU'
+  display: string; // As recognised, e.g. 'Asante' for KSL
+  confidence: number;
+  properNoun?: boolean; // Fingerspelled names and places are kept as spelled
+  nonManual?: NonManualFeatures; // Face & body mode: question and negation markers
+}
+
+export interface TranslationResult {
+  gloss: string; // Space-separated gloss line, e.g. 'ME GO SCHOOL TOMORROW'
+  text: string; // Fluent sentence in the target language
+  language: TargetLanguage;
+  signLanguage: SignLanguageCode;
+  method: 'rules' | 'llm';
+  sentenceType: SentenceType;
+  confidence: number;
+  unknownGlosses: string[]; // Glosses the grammar had no entry for, passed through as-is
+  segmentId?: number;
+  startTime?: number;
+  endTime?: number;
+}
+
+export interface TranslateOptions {
+  language?: TargetLanguage;
+  signLanguage?: SignLanguageCode;
+  refine?: boolean; // Ask the server-side LLM to polish the rule-based draft
+}
@@ -0,0 +1,20 @@
+import type { SignLanguageCode } from '../recognizers/types';
+import type { TargetLanguage } from '../translation/types';
+import { ServerTTSEngine } from './serverTts';
+import { WebSpeechTTSEngine } from './webSpeech';
+import type { TTSEngine } from './types';
+
+export { WebSpeechTTSEngine, primaryLanguage } from './webSpeech';
+export { ServerTTSEngine } from './serverTts';
+export { MockTTSEngine } from './mockTts';
+export type { SpokenUtterance } from './mockTts';
+export type { SpeechSegment, TTSCapabilities, TTSEngine, TTSOptions, TTSVoice } from './types';
+
+// Voice language for each translation language
+export const SPEECH_VOICES: Record<TargetLanguage, string> = { en: 'en-US', sw: 'sw-KE' };
+
+// Voice language for signs reported in a recogniser's own vocabulary (e.g. 'Asante' for KSL)
+export const SIGN_LANGUAGE_VOICES: Record<SignLanguageCode, string> = { ASL: 'en-US', BSL: 'en-GB', KSL: 'sw-KE' };
+
+// On-device voices first; the server covers languages the device has no voice for
+export const createDefaultTTSEngines = (): TTSEngine[] => [new WebSpeechTTSEngine(), new ServerTTSEngine()];
@@ -0,0 +1,73 @@
+import type { TTSCapabilities, TTSEngine, TTSOptions, TTSVoice } from './types';
+import { primaryLanguage } from './webSpeech';
+
+export interface SpokenUtterance {
+  text: string;
+  options: TTSOptions;
+}
+
+// Silent engine for tests and demos: records what it was asked to say
+export class MockTTSEngine implements TTSEngine {
+  readonly name: string;
+  readonly spoken: SpokenUtterance[] = [];
+  private speaking = false;
+  private finish: (() => void) | null = null;
+
+  // `durationMs` keeps each utterance "speaking" that long, so stop() can be exercised
+  constructor(private languages: string[] = ['en'], private durationMs = 0, name = 'mock') {
+    this.name = name;
+  }
+
+  isSupported(): boolean {
+    return true;
+  }
+
+  getCapabilities(): TTSCapabilities {
+    return {
+      languages: this.languages,
+      voiceSelection: false,
+      rate: true,
+      pitch: true,
+      pauseResume: false,
+      offline: true
+    };
+  }
+
+  getVoices(): TTSVoice[] {
+    return this.languages.map(lang => ({ id: `${this.name}-${lang}`, name: `Mock (${lang})`, lang, engine: this.name, local: true }));
+  }
+
+  supportsLanguage(lang: string): boolean {
+    return this.languages.includes(primaryLanguage(lang));
+  }
+
+  speak(text: string, options: TTSOptions = {}): Promise<void> {
+    this.stop();
+    if (!text.trim()) return Promise.resolve();
+    this.spoken.push({ text, options });
+    if (this.durationMs <= 0) return Promise.resolve();
+
+    this.speaking = true;
+    return new Promise(resolve => {
+      const timer = setTimeout(() => this.finish?.(), this.durationMs);
+      this.finish = () => {
+        clearTimeout(timer);
+        this.speaking = false;
+        this.finish = null;
+        resolve();
+      };
+    });
+  }
+
+  stop(): void {
+    this.finish?.();
+  }
+
+  pause(): void {}
+
+  resume(): void {}
+
+  isSpeaking(): boolean {
+    return this.speaking;
+  }
+}
@@ -0,0 +1,124 @@
+import { getSpeechCapabilities, hasAuthToken, synthesizeSpeech } from '../mongoApi';
+import type { TTSCapabilities, TTSEngine, TTSOptions, TTSVoice } from './types';
+import { primaryLanguage } from './webSpeech';
+
+// Speech synthesised by the backend and played as audio. Sounds the same in
+// every browser and covers languages the device has no voice for. Needs a
+// network connection and a signed-in user.
+export class ServerTTSEngine implements TTSEngine {
+  readonly name = 'server';
+  private languages: string[];
+  private voices: string[] = [];
+  private capabilities: Promise<void> | null = null;
+  private request: AbortController | null = null; // Synthesis of the utterance being spoken
+  private audio: HTMLAudioElement | null = null;
+  private finish: (() => void) | null = null;
+
+  // Languages assumed until the server reports its own
+  constructor(languages: string[] = ['en', 'sw']) {
+    this.languages = languages;
+  }
+
+  // Capabilities are loaded the first time the engine is usable, so a user who
+  // signs in after the page loaded still gets the server's languages
+  isSupported(): boolean {
+    const supported = typeof Audio !== 'undefined' && hasAuthToken();
+    if (!supported) this.capabilities = null;
+    else if (!this.capabilities) this.capabilities = this.loadCapabilities();
+    return supported;
+  }
+
+  // Ask the server which languages and voices it has; keeps the defaults on failure
+  async loadCapabilities(): Promise<void> {
+    try {
+      const capabilities = await getSpeechCapabilities();
+      this.languages = capabilities.languages;
+      this.voices = capabilities.voices;
+    } catch (error) {
+      console.warn('Failed to load server speech capabilities:', error);
+    }
+  }
+
+  getCapabilities(): TTSCapabilities {
+    return {
+      languages: this.languages,
+      voiceSelection: this.voices.length > 1,
+      rate: true,
+      pitch: false,
+      pauseResume: true,
+      offline: false
+    };
+  }
+
+  getVoices(): TTSVoice[] {
+    return this.languages.flatMap(lang =>
+      this.voices.map(voice => ({ id: voice, name: voice, lang, engine: this.name, local: false }))
+    );
+  }
+
+  supportsLanguage(lang: string): boolean {
+    return this.languages.includes(primaryLanguage(lang));
+  }
+
+  async speak(text: string, options: TTSOptions = {}): Promise<void> {
+    if (!text.trim()) return;
+    this.stop();
+
+    // stop() or a newer speak() aborts the request, and the audio is never played
+    const request = new AbortController();
+    this.request = request;
+    let blob: Blob;
+    try {
+      blob = await synthesizeSpeech(text, options.lang ?? 'en-US', {
+        voice: options.voice,
+        rate: options.rate
+      }, request.signal);
+    } catch (error) {
+      if (request.signal.aborted) return;
+      throw error;
+    } finally {
+      if (this.request === request) this.request = null;
+    }
+    if (request.signal.aborted) return;
+
+    const url = URL.createObjectURL(blob);
+    const audio = new Audio(url);
+    audio.volume = options.volume ?? 1;
+    this.audio = audio;
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        this.finish = resolve;
+        audio.onended = () => resolve();
+        audio.onerror = () => reject(new Error('Server speech audio could not be played'));
+        audio.play().catch(reject);
+      });
+    } finally {
+      URL.revokeObjectURL(url);
+      if (this.audio === audio) {
+        this.audio = null;
+        this.finish = null;
+      }
+    }
+  }
+
+  stop(): void {
+    this.request?.abort();
+    this.request = null;
+    if (!this.audio) return;
+    this.audio.pause();
+    this.finish?.();
+  }
+
+  pause(): void {
+    this.audio?.pause();
+  }
+
+  resume(): void {
+    this.audio?.play().catch(error => console.error('Failed to resume speech:', error));
+  }
+
+  isSpeaking(): boolean {
+    return !!this.audio && !this.audio.paused;
+  }
+}
@@ -0,0 +1,45 @@
+export interface TTSOptions {
+  rate?: number;
+  pitch?: number;
+  volume?: number;
+  voice?: string; // Voice id or name; ignored by engines that cannot select voices
+  lang?: string; // BCP 47 tag, e.g. 'sw-KE'
+}
+
+// A run of text in one language, e.g. a translated sentence
+export interface SpeechSegment {
+  text: string;
+  lang: string;
+}
+
+export interface TTSVoice {
+  id: string;
+  name: string;
+  lang: string; // BCP 47 tag, or a primary subtag when the engine only knows that much
+  engine: string;
+  local: boolean; // Synthesised on the device rather than streamed
+}
+
+export interface TTSCapabilities {
+  languages: string[]; // Primary subtags with at least one voice, e.g. ['en', 'sw']
+  voiceSelection: boolean;
+  rate: boolean;
+  pitch: boolean;
+  pauseResume: boolean;
+  offline: boolean; // Works without a network connection
+}
+
+// Speech output backend. The service picks an engine per segment by language,
+// so a Swahili sentence can go to an engine that has a Swahili voice.
+export interface TTSEngine {
+  readonly name: string;
+  isSupported(): boolean;
+  getCapabilities(): TTSCapabilities;
+  getVoices(): TTSVoice[];
+  supportsLanguage(lang: string): boolean;
+  speak(text: string, options?: TTSOptions): Promise<void>; // Resolves when finished or stopped
+  stop(): void;
+  pause(): void;
+  resume(): void;
+  isSpeaking(): boolean;
+}
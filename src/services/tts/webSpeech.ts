@@ -0,0 +1,117 @@
+import type { TTSCapabilities, TTSEngine, TTSOptions, TTSVoice } from './types';
+
+export const primaryLanguage = (lang: string): string => lang.split(/[-_]/)[0].toLowerCase();
+
+// Browser speech synthesis. Voices differ per browser and OS; a language is
+// only reported as supported when a voice for it is installed.
+export class WebSpeechTTSEngine implements TTSEngine {
+  readonly name = 'web-speech';
+  private voices: SpeechSynthesisVoice[] = [];
+
+  constructor() {
+    if (!this.isSupported()) return;
+
+    const updateVoices = () => {
+      this.voices = window.speechSynthesis.getVoices();
+    };
+    updateVoices();
+    if (window.speechSynthesis.onvoiceschanged !== undefined) {
+      window.speechSynthesis.onvoiceschanged = updateVoices;
+    }
+  }
+
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && 'speechSynthesis' in window;
+  }
+
+  getCapabilities(): TTSCapabilities {
+    return {
+      languages: [...new Set(this.voices.map(voice => primaryLanguage(voice.lang)))],
+      voiceSelection: true,
+      rate: true,
+      pitch: true,
+      pauseResume: true,
+      offline: this.voices.some(voice => voice.localService)
+    };
+  }
+
+  getVoices(): TTSVoice[] {
+    return this.voices.map(voice => ({
+      id: voice.voiceURI,
+      name: voice.name,
+      lang: voice.lang,
+      engine: this.name,
+      local: voice.localService
+    }));
+  }
+
+  supportsLanguage(lang: string): boolean {
+    return this.voices.some(voice => primaryLanguage(voice.lang) === primaryLanguage(lang));
+  }
+
+  speak(text: string, options: TTSOptions = {}): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.isSupported()) {
+        reject(new Error('Text-to-speech is not supported in this browser'));
+        return;
+      }
+      if (!text.trim()) {
+        resolve();
+        return;
+      }
+
+      const synthesis = window.speechSynthesis;
+      synthesis.cancel();
+
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.rate = options.rate ?? 0.9;
+      utterance.pitch = options.pitch ?? 1.0;
+      utterance.volume = options.volume ?? 1.0;
+      utterance.lang = options.lang ?? 'en-US';
+
+      const voice = this.selectVoice(utterance.lang, options.voice);
+      if (voice) utterance.voice = voice;
+
+      utterance.onend = () => resolve();
+      // Cancelling is how stop() works; it is not a failure
+      utterance.onerror = (event) =>
+        event.error === 'canceled' || event.error === 'interrupted'
+          ? resolve()
+          : reject(new Error(`Speech synthesis error: ${event.error}`));
+
+      synthesis.speak(utterance);
+    });
+  }
+
+  stop(): void {
+    if (this.isSupported()) window.speechSynthesis.cancel();
+  }
+
+  pause(): void {
+    if (this.isSupported()) window.speechSynthesis.pause();
+  }
+
+  resume(): void {
+    if (this.isSupported()) window.speechSynthesis.resume();
+  }
+
+  isSpeaking(): boolean {
+    return this.isSupported() ? window.speechSynthesis.speaking : false;
+  }
+
+  // Requested voice first, then the best match for the language: exact tag
+  // before primary subtag, default and on-device voices before others
+  private selectVoice(lang: string, requested?: string): SpeechSynthesisVoice | null {
+    if (requested) {
+      const voice = this.voices.find(item => item.voiceURI === requested || item.name === requested);
+      if (voice) return voice;
+    }
+
+    const primary = primaryLanguage(lang);
+    const score = (voice: SpeechSynthesisVoice) =>
+      (voice.lang.toLowerCase() === lang.toLowerCase() ? 4 : 0) + (voice.default ? 2 : 0) + (voice.localService ? 1 : 0);
+    return this.voices
+      .filter(voice => primaryLanguage(voice.lang) === primary)
+      .sort((a, b) => score(b) - score(a))[0] ?? null;
+  }
+}
@@ -0,0 +1,156 @@
+import type { HandLandmark } from './signLanguageDetection';
+import type { SignLanguageCode } from './recognizers/types';
+
+export type Handedness = 'Left' | 'Right';
+
+export interface HandInfo {
+  landmarks: HandLandmark[];
+  handedness: Handedness;
+  score: number;
+}
+
+export interface HandPairFeatures {
+  // Dominant palm centre relative to the non-dominant one, in palm lengths
+  relativePosition: { x: number; y: number };
+  palmDistance: number;
+  contacts: { name: string; distance: number }[];
+}
+
+export interface TwoHandedMatch {
+  sign: string;
+  confidence: number;
+  contacts: string[];
+}
+
+// Distance (in palm lengths) under which two points count as touching
+const CONTACT_THRESHOLD = 0.35;
+
+const FINGERTIPS: { name: string; index: number }[] = [
+  { name: 'thumb', index: 4 },
+  { name: 'index', index: 8 },
+  { name: 'middle', index: 12 },
+  { name: 'ring', index: 16 },
+  { name: 'pinky', index: 20 }
+];
+
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }): number =>
+  Math.hypot(a.x - b.x, a.y - b.y);
+
+const palmCentre = (hand: HandLandmark[]): { x: number; y: number } => {
+  const points = [0, 5, 9, 13, 17].map(i => hand[i]);
+  return {
+    x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+    y: points.reduce((sum, point) => sum + point.y, 0) / points.length
+  };
+};
+
+const palmSize = (hand: HandLandmark[]): number => distance(hand[0], hand[9]);
+
+// Rotation-independent finger state: a finger is extended when its tip is
+// further from the wrist than its PIP joint
+const isExtended = (hand: HandLandmark[], tip: number): boolean =>
+  distance(hand[tip], hand[0]) > distance(hand[tip - 2], hand[0]) * 1.1;
+
+const isOpenHand = (hand: HandLandmark[]): boolean => [8, 12, 16, 20].every(tip => isExtended(hand, tip));
+
+const isClosedHand = (hand: HandLandmark[]): boolean => [8, 12, 16, 20].filter(tip => !isExtended(hand, tip)).length >= 3;
+
+const isPinched = (hand: HandLandmark[]): boolean => distance(hand[4], hand[8]) < palmSize(hand) * 0.4;
+
+// MediaPipe labels handedness as if the image were mirrored. Our camera feed
+// is not, so the labels are swapped back here.
+export const assignHandedness = (
+  landmarks: HandLandmark[][],
+  multiHandedness: { index?: number; label: string; score: number }[] | undefined,
+  dominantSide: Handedness
+): { dominant: HandInfo | null; nonDominant: HandInfo | null; hands: HandInfo[] } => {
+  const hands: HandInfo[] = landmarks.map((hand, i) => {
+    const classification = multiHandedness?.find(item => item.index === i) ?? multiHandedness?.[i];
+    const reported = classification?.label === 'Left' ? 'Left' : 'Right';
+    return {
+      landmarks: hand,
+      handedness: reported === 'Left' ? 'Right' : 'Left',
+      score: classification?.score ?? 0
+    };
+  });
+
+  if (hands.length === 0) return { dominant: null, nonDominant: null, hands };
+  if (hands.length === 1) return { dominant: hands[0], nonDominant: null, hands };
+
+  // Two hands with the same label: trust the more confident one and flip the other
+  if (hands[0].handedness === hands[1].handedness) {
+    const weaker = hands[0].score < hands[1].score ? hands[0] : hands[1];
+    weaker.handedness = weaker.handedness === 'Left' ? 'Right' : 'Left';
+  }
+
+  const dominant = hands.find(hand => hand.handedness === dominantSide) ?? hands[0];
+  const nonDominant = hands.find(hand => hand !== dominant) ?? null;
+  return { dominant, nonDominant, hands };
+};
+
+export const analyzeHandPair = (dominant: HandLandmark[], nonDominant: HandLandmark[]): HandPairFeatures => {
+  const scale = (palmSize(dominant) + palmSize(nonDominant)) / 2 || 1;
+  const dominantPalm = palmCentre(dominant);
+  const nonDominantPalm = palmCentre(nonDominant);
+
+  const contacts: HandPairFeatures['contacts'] = [];
+
+  // Dominant index fingertip against each non-dominant fingertip
+  for (const tip of FINGERTIPS) {
+    contacts.push({ name: `index_to_${tip.name}`, distance: distance(dominant[8], nonDominant[tip.index]) / scale });
+  }
+  contacts.push({ name: 'fingertips', distance: distance(dominant[8], nonDominant[8]) / scale });
+  contacts.push({ name: 'palm_to_palm', distance: distance(dominantPalm, nonDominantPalm) / scale });
+  contacts.push({ name: 'wrist_to_palm', distance: distance(dominant[0], nonDominantPalm) / scale });
+
+  return {
+    relativePosition: {
+      x: (dominantPalm.x - nonDominantPalm.x) / scale,
+      y: (dominantPalm.y - nonDominantPalm.y) / scale
+    },
+    palmDistance: distance(dominantPalm, nonDominantPalm) / scale,
+    contacts: contacts.filter(contact => contact.distance < CONTACT_THRESHOLD * 2)
+  };
+};
+
+const contactConfidence = (contactDistance: number, threshold: number): number =>
+  0.5 + 0.5 * Math.max(0, 1 - contactDistance / threshold);
+
+export const classifyTwoHanded = (
+  dominant: HandLandmark[],
+  nonDominant: HandLandmark[],
+  language?: SignLanguageCode
+): TwoHandedMatch | null => {
+  if (dominant.length < 21 || nonDominant.length < 21) return null;
+
+  const features = analyzeHandPair(dominant, nonDominant);
+  const contact = (name: string) => features.contacts.find(item => item.name === name);
+
+  if (language === 'BSL') {
+    // BSL vowels: dominant index touches a non-dominant fingertip (thumb = A ... pinky = U)
+    const vowels: { [key: string]: string } = { thumb: 'A', index: 'E', middle: 'I', ring: 'O', pinky: 'U' };
+    const touching = FINGERTIPS
+      .map(tip => contact(`index_to_${tip.name}`))
+      .filter(item => item && item.distance < CONTACT_THRESHOLD)
+      .sort((a, b) => a!.distance - b!.distance)[0];
+    if (touching && isExtended(dominant, 8)) {
+      const finger = touching.name.replace('index_to_', '');
+      return { sign: vowels[finger], confidence: contactConfidence(touching.distance, CONTACT_THRESHOLD), contacts: [touching.name] };
+    }
+  }
+
+  // Help: closed dominant hand resting on the open non-dominant palm
+  const wristOnPalm = contact('wrist_to_palm');
+  if (isClosedHand(dominant) && isOpenHand(nonDominant) && features.relativePosition.y < 0 &&
+      wristOnPalm && wristOnPalm.distance < CONTACT_THRESHOLD * 2) {
+    return { sign: 'Help', confidence: contactConfidence(wristOnPalm.distance, CONTACT_THRESHOLD * 2), contacts: [wristOnPalm.name] };
+  }
+
+  // More: both hands in a flat-O with the fingertips meeting
+  const fingertips = contact('fingertips');
+  if (isPinched(dominant) && isPinched(nonDominant) && fingertips && fingertips.distance < CONTACT_THRESHOLD) {
+    return { sign: 'More', confidence: contactConfidence(fingertips.distance, CONTACT_THRESHOLD), contacts: [fingertips.name] };
+  }
+
+  return null;
+};
@@ -0,0 +1,203 @@
+import { Hands, Results } from '@mediapipe/hands';
+import type { HandLandmark } from './signLanguageDetection';
+import type { HandClassification } from './handFrameClassifier';
+import { LandmarkRecorder, LandmarkRecording } from './landmarkRecording';
+import { replayRecording, ReplayOptions, ReplayReport } from './landmarkReplay';
+import { locateHandsFile } from './mediapipeAssets';
+import { assignHandedness, Handedness } from './twoHandedClassifier';
+import type { SignLanguageCode } from './recognizers/types';
+
+export const DEFAULT_VIDEO_FPS = 15;
+
+export interface VideoRecognitionOptions extends ReplayOptions {
+  signLanguage: SignLanguageCode;
+  dominantHand?: Handedness;
+  fingerspelling?: boolean;
+  name?: string; // Recording name; defaults to the file name
+  fps?: number; // Frames sampled per second of video, independent of playback speed
+  sensitivity?: number; // 1-10, as in the live detection settings
+  startMs?: number;
+  endMs?: number;
+  onProgress?: (progress: VideoRecognitionProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface VideoRecognitionProgress {
+  positionMs: number;
+  durationMs: number;
+  frames: number;
+}
+
+export interface VideoRecognitionResult {
+  recording: LandmarkRecording; // Landmark track; frame times are video times
+  report: ReplayReport; // Committed signs and transcript segments, timed from the start of the video
+  durationMs: number;
+  processingMs: number;
+  speed: number; // Video time processed per second of wall-clock time
+}
+
+// landmark_data generated from a video; the handshape and motion template
+// loaders both read the `frames` list
+export interface VideoLandmarkData {
+  source: 'video';
+  version: 1;
+  fps: number;
+  durationMs: number;
+  frames: { timestamp: number; landmarks: HandLandmark[] }[]; // Signing hand only, frames without hands dropped
+}
+
+const waitFor = (video: HTMLVideoElement, event: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener('error', onError);
+    };
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error(video.error?.message || 'The video could not be loaded'));
+    };
+    video.addEventListener(event, onEvent);
+    video.addEventListener('error', onError);
+  });
+
+const seek = async (video: HTMLVideoElement, seconds: number): Promise<void> => {
+  const seeked = waitFor(video, 'seeked');
+  video.currentTime = seconds;
+  await seeked;
+};
+
+const loadVideo = async (source: Blob | string): Promise<{ video: HTMLVideoElement; release: () => void }> => {
+  const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  // Remote videos need CORS so MediaPipe can read their pixels
+  if (typeof source === 'string' && !source.startsWith('blob:') && !source.startsWith('data:')) {
+    video.crossOrigin = 'anonymous';
+  }
+
+  const loaded = waitFor(video, 'loadeddata');
+  video.src = url;
+  await loaded;
+
+  // MediaRecorder webm files report an infinite duration until the end has been seen
+  if (!Number.isFinite(video.duration)) {
+    await seek(video, Number.MAX_SAFE_INTEGER);
+  }
+
+  return {
+    video,
+    release: () => {
+      video.removeAttribute('src');
+      video.load();
+      if (typeof source !== 'string') URL.revokeObjectURL(url);
+    }
+  };
+};
+
+// Run MediaPipe Hands over a video file or URL frame by frame, seeking instead
+// of playing so it runs as fast as inference allows. Uses its own Hands instance,
+// so live detection can keep running.
+export const extractVideoLandmarks = async (
+  source: Blob | string,
+  options: VideoRecognitionOptions
+): Promise<LandmarkRecording> => {
+  const fps = options.fps ?? DEFAULT_VIDEO_FPS;
+  const { video, release } = await loadVideo(source);
+  const hands = new Hands({ locateFile: (file) => locateHandsFile(file) });
+  let latest: Results | null = null;
+
+  try {
+    hands.setOptions({
+      maxNumHands: 2,
+      modelComplexity: 1,
+      minDetectionConfidence: (options.sensitivity ?? 7) / 10,
+      minTrackingConfidence: (options.sensitivity ?? 7) / 10
+    });
+    hands.onResults(results => {
+      latest = results;
+    });
+    await hands.initialize();
+
+    const durationMs = Math.round(video.duration * 1000);
+    const startMs = Math.max(0, options.startMs ?? 0);
+    const endMs = Math.min(durationMs, options.endMs ?? durationMs);
+    const name = options.name ?? (source instanceof File ? source.name.replace(/\.[^.]+$/, '') : 'video');
+
+    // Recording time is wall-clock based; anchor it so frame.t is the video time
+    const recorder = new LandmarkRecorder();
+    const epoch = Date.now();
+    recorder.start({
+      name,
+      signLanguage: options.signLanguage,
+      dominantHand: options.dominantHand ?? 'Right',
+      fingerspelling: options.fingerspelling
+    }, epoch);
+
+    let frames = 0;
+    for (let positionMs = startMs; positionMs <= endMs; positionMs += 1000 / fps) {
+      if (options.signal?.aborted) throw new Error('Video recognition was cancelled');
+
+      await seek(video, positionMs / 1000);
+      latest = null;
+      await hands.send({ image: video });
+
+      const result = latest as Results | null;
+      const landmarks = (result?.multiHandLandmarks ?? []).map(hand =>
+        hand.map(landmark => ({ x: landmark.x, y: landmark.y, z: landmark.z || 0 }))
+      );
+      const handedness: HandClassification[] = result?.multiHandedness ?? [];
+      recorder.addFrame(landmarks, handedness, epoch + positionMs - startMs);
+
+      frames++;
+      options.onProgress?.({ positionMs: positionMs - startMs, durationMs: endMs - startMs, frames });
+    }
+
+    return recorder.stop()!;
+  } finally {
+    await hands.close();
+    release();
+  }
+};
+
+// Landmark track plus transcript for a signed video. Recognition replays the
+// extracted track through the same pipeline as live detection, so results match
+// what the webcam would have produced for the same landmarks.
+export const recognizeVideo = async (
+  source: Blob | string,
+  options: VideoRecognitionOptions
+): Promise<VideoRecognitionResult> => {
+  const started = performance.now();
+  const recording = await extractVideoLandmarks(source, options);
+  const report = replayRecording(recording, options);
+  const processingMs = performance.now() - started;
+
+  return {
+    recording,
+    report,
+    durationMs: report.durationMs,
+    processingMs,
+    speed: processingMs > 0 ? report.durationMs / processingMs : 0
+  };
+};
+
+// ISign.landmark_data for a community upload: the signing hand of every frame it was visible in
+export const landmarkDataFromRecording = (recording: LandmarkRecording, fps = DEFAULT_VIDEO_FPS): VideoLandmarkData => {
+  const frames = recording.frames.flatMap(frame => {
+    const { dominant } = assignHandedness(frame.hands, frame.handedness, recording.dominantHand);
+    return dominant ? [{ timestamp: frame.t, landmarks: dominant.landmarks }] : [];
+  });
+
+  return {
+    source: 'video',
+    version: 1,
+    fps,
+    durationMs: recording.frames.length > 0 ? recording.frames[recording.frames.length - 1].t : 0,
+    frames
+  };
+};
@@ -11,6 +11,10 @@ export default defineConfig(() => ({
   plugins: [
     react(),
   ],
+  // The detection worker is a module worker and lazy-loads the TF.js classifier
+  worker: {
+    format: "es" as const,
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),